@@ -0,0 +1,472 @@
+import fs from 'node:fs/promises';
+import { Readable } from 'node:stream';
+import { FileStream } from '@/file-stream';
+import { OutOfRangeError } from '@/errors';
+import { toBuffer } from '@/bytes';
+import { iterateWebStream } from '@/web/bytes';
+import type { FileHandle } from 'node:fs/promises';
+import type { WebReadableStream } from '@/web/bytes';
+import type { StringEncoding } from '@/stream';
+
+/**
+ * Sources an `AsyncFileStream` can read from
+ *
+ * Either a path to a file on disk, an open `FileHandle`,
+ * a Node `Readable`, a web `ReadableStream` or a Buffer
+ */
+export type AsyncFileStreamSource = string | FileHandle | Readable | WebReadableStream | Buffer;
+
+/**
+ * State of an open `FileHandle`, shared between a stream and its slices
+ */
+interface FileState {
+	closed: boolean;
+}
+
+/**
+ * Async counterpart of `FileStream`. Data is read without blocking the
+ * event loop. Formats are parsed from it as data arrives using the
+ * async readers, and parts such as content data can be handed to the
+ * synchronous parsers as a `FileStream` through `readAll`
+ *
+ * File paths, `FileHandle`s and Buffers support seeking. Node `Readable`s
+ * and web `ReadableStream`s are read front to back
+ */
+export class AsyncFileStream {
+	private path?: string;
+	private handle?: FileHandle;
+	private ownsHandle = false;
+	private fileSize?: number;
+	private buffer?: Buffer;
+	private chunks?: AsyncIterator<Uint8Array>;
+	private pending: Buffer = Buffer.alloc(0);
+	protected offset = 0;
+
+	/**
+	 * Position in the file that offset 0 maps to. Non-zero for slices
+	 */
+	private base = 0;
+
+	/**
+	 * Shared with slices, so they stop reading once the file is closed
+	 */
+	private file: FileState = { closed: false };
+
+	/**
+	 * Determines if the stream should read as
+	 * big or little endian in the non-specific
+	 * methods
+	 *
+	 * Either "le" (little endian) or "be" (big endian)
+	 */
+	public bom: 'le' | 'be' = 'le';
+
+	constructor(source: AsyncFileStreamSource) {
+		if (typeof source === 'string') {
+			this.path = source;
+		} else if (Buffer.isBuffer(source)) {
+			this.buffer = source;
+		} else if (source instanceof Readable) {
+			this.chunks = source[Symbol.asyncIterator]();
+		} else if ('getReader' in source) {
+			this.chunks = iterateWebStream(source);
+		} else {
+			this.handle = source;
+		}
+	}
+
+	/**
+	 * Gets the total size of the stream data
+	 *
+	 * @returns the size of the file, or `undefined` for `Readable` sources
+	 */
+	public async size(): Promise<number | undefined> {
+		if (this.chunks) {
+			return undefined;
+		}
+
+		if (this.buffer) {
+			return this.buffer.length;
+		}
+
+		if (this.fileSize === undefined) {
+			const handle = await this.getHandle();
+			const stat = await handle.stat();
+
+			this.fileSize = stat.size;
+		}
+
+		return this.fileSize;
+	}
+
+	/**
+	 * Checks the stream position
+	 *
+	 * @returns the offset the stream is currently at
+	 */
+	public tell(): number {
+		return this.offset;
+	}
+
+	/**
+	 * Advances the offset by the provided amount without
+	 * returning the data
+	 *
+	 * @param value - The amount to skip
+	 */
+	public async skip(value: number): Promise<void> {
+		if (this.chunks) {
+			await this.read(value);
+		} else {
+			this.offset += value;
+		}
+	}
+
+	/**
+	 * Reads the given amount of data from the stream
+	 *
+	 * @param length - The amount of data to read
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read data
+	 *
+	 * @throws {OutOfRangeError} If the read goes past the end of the data
+	 */
+	public async read(length: number, field?: string): Promise<Buffer> {
+		const read = this.chunks ? await this.readFromChunks(length) : await this.readFromFile(length);
+
+		if (read.length !== length) {
+			throw new OutOfRangeError({
+				field,
+				offset: this.offset,
+				length,
+				available: read.length
+			});
+		}
+
+		this.offset += length;
+
+		return read;
+	}
+
+	/**
+	 * Alias of `read`
+	 *
+	 * @param length - The amount of data to read
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read data
+	 */
+	public async readBytes(length: number, field?: string): Promise<Buffer> {
+		return this.read(length, field);
+	}
+
+	/**
+	 * Reads a uint8 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt8(field?: string): Promise<number> {
+		return (await this.readBytes(1, field)).readUInt8();
+	}
+
+	/**
+	 * Reads a uint16 from the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt16(field?: string): Promise<number> {
+		return this.bom === 'le' ? this.readUInt16LE(field) : this.readUInt16BE(field);
+	}
+
+	/**
+	 * Reads a little endian uint16 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt16LE(field?: string): Promise<number> {
+		return (await this.readBytes(2, field)).readUInt16LE();
+	}
+
+	/**
+	 * Reads a big endian uint16 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt16BE(field?: string): Promise<number> {
+		return (await this.readBytes(2, field)).readUInt16BE();
+	}
+
+	/**
+	 * Reads a uint32 from the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt32(field?: string): Promise<number> {
+		return this.bom === 'le' ? this.readUInt32LE(field) : this.readUInt32BE(field);
+	}
+
+	/**
+	 * Reads a little endian uint32 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt32LE(field?: string): Promise<number> {
+		return (await this.readBytes(4, field)).readUInt32LE();
+	}
+
+	/**
+	 * Reads a big endian uint32 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt32BE(field?: string): Promise<number> {
+		return (await this.readBytes(4, field)).readUInt32BE();
+	}
+
+	/**
+	 * Reads a uint64 from the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt64(field?: string): Promise<bigint> {
+		return this.bom === 'le' ? this.readUInt64LE(field) : this.readUInt64BE(field);
+	}
+
+	/**
+	 * Reads a little endian uint64 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt64LE(field?: string): Promise<bigint> {
+		return (await this.readBytes(8, field)).readBigUInt64LE();
+	}
+
+	/**
+	 * Reads a big endian uint64 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public async readUInt64BE(field?: string): Promise<bigint> {
+		return (await this.readBytes(8, field)).readBigUInt64BE();
+	}
+
+	/**
+	 * Reads a fixed size string, stopping at the first null byte
+	 *
+	 * @param length - The size of the string data, including padding
+	 * @param encoding - Optional. The text encoding. Defaults to `utf8`
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read string
+	 */
+	public async readPaddedString(length: number, encoding: StringEncoding = 'utf8', field?: string): Promise<string> {
+		const stream = new FileStream(await this.read(length, field));
+		stream.bom = this.bom;
+
+		return stream.readPaddedString(length, encoding, field);
+	}
+
+	/**
+	 * Advances the offset to the next multiple of `alignment`
+	 *
+	 * @param alignment - The block size to align to
+	 */
+	public async alignBlock(alignment: number): Promise<void> {
+		await this.skip((alignment - (this.offset % alignment)) % alignment);
+	}
+
+	/**
+	 * Checks if there is no data left, without reading past it
+	 *
+	 * @returns true if the stream has ended
+	 */
+	public async atEnd(): Promise<boolean> {
+		if (!this.chunks) {
+			return this.offset >= (await this.size() ?? 0);
+		}
+
+		// * Pull in the next chunk, if any, so the check does not consume data
+		while (this.pending.length === 0) {
+			const result = await this.chunks.next();
+
+			if (result.done) {
+				return true;
+			}
+
+			this.pending = toBuffer(result.value);
+		}
+
+		return false;
+	}
+
+	/**
+	 * Creates a view of the given amount of data from the current
+	 * offset, then advances the offset past it. The view has its own
+	 * offset starting at 0 and can not read outside of the given range
+	 *
+	 * Files are not read here. The view reads from the open file when it is
+	 * used, so it can only be used until this stream is closed. Node `Readable`s
+	 * and web `ReadableStream`s can not seek, so their data is read into memory
+	 *
+	 * @param length - The size of the view
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the new stream
+	 *
+	 * @throws {OutOfRangeError} If the view goes past the end of the data
+	 */
+	public async readSlice(length: number, field?: string): Promise<AsyncFileStream> {
+		if (this.chunks) {
+			const slice = new AsyncFileStream(await this.read(length, field));
+			slice.bom = this.bom;
+
+			return slice;
+		}
+
+		const size = await this.size() ?? 0;
+
+		if (this.offset < 0 || length < 0 || this.offset + length > size) {
+			throw new OutOfRangeError({
+				field,
+				offset: this.offset,
+				length,
+				available: size - this.offset
+			});
+		}
+
+		let slice: AsyncFileStream;
+
+		if (this.buffer) {
+			slice = new AsyncFileStream(this.buffer.subarray(this.offset, this.offset + length));
+		} else {
+			slice = new AsyncFileStream(await this.getHandle());
+			slice.file = this.file;
+			slice.fileSize = length;
+			slice.base = this.base + this.offset;
+		}
+
+		slice.bom = this.bom;
+		this.offset += length;
+
+		return slice;
+	}
+
+	/**
+	 * Reads everything from the current offset to the end of the data into memory
+	 *
+	 * @returns a `FileStream` over the read data, for use with the synchronous parsers
+	 */
+	public async readAll(): Promise<FileStream> {
+		let data: Buffer;
+
+		if (this.chunks) {
+			const chunks = [this.pending];
+
+			for (let result = await this.chunks.next(); !result.done; result = await this.chunks.next()) {
+				chunks.push(toBuffer(result.value));
+			}
+
+			data = Buffer.concat(chunks);
+			this.pending = Buffer.alloc(0);
+			this.offset += data.length;
+		} else {
+			const size = await this.size() ?? 0;
+
+			data = await this.read(Math.max(size - this.offset, 0));
+		}
+
+		const stream = new FileStream(data);
+		stream.bom = this.bom;
+
+		return stream;
+	}
+
+	/**
+	 * Closes the underlying file if it was opened by this stream.
+	 * Caller-supplied `FileHandle`s and `Readable`s are left open,
+	 * and slices never close the file they share with their parent.
+	 * Once closed, reading from this stream or any of its slices throws
+	 *
+	 * Safe to call more than once
+	 */
+	public async close(): Promise<void> {
+		if (this.handle && this.ownsHandle && !this.file.closed) {
+			this.file.closed = true;
+
+			await this.handle.close();
+		}
+	}
+
+	private async getHandle(): Promise<FileHandle> {
+		if (this.file.closed) {
+			throw new Error('Tried to read from an AsyncFileStream whose file has been closed');
+		}
+
+		if (!this.handle) {
+			this.handle = await fs.open(this.path!, 'r');
+			this.ownsHandle = true;
+		}
+
+		return this.handle;
+	}
+
+	private async readFromFile(length: number): Promise<Buffer> {
+		const size = await this.size() ?? 0;
+
+		if (this.offset < 0 || length < 0) {
+			throw new OutOfRangeError({
+				offset: this.offset,
+				length,
+				available: size - this.offset
+			});
+		}
+
+		// * Only read what exists, `read` reports the shortfall
+		const available = Math.max(Math.min(length, size - this.offset), 0);
+
+		if (this.buffer) {
+			return this.buffer.subarray(this.offset, this.offset + available);
+		}
+
+		const handle = await this.getHandle();
+		const read = Buffer.alloc(available);
+		const { bytesRead } = await handle.read(read, 0, available, this.base + this.offset);
+
+		return read.subarray(0, bytesRead);
+	}
+
+	private async readFromChunks(length: number): Promise<Buffer> {
+		const chunks = [this.pending];
+		let buffered = this.pending.length;
+
+		while (buffered < length) {
+			const result = await this.chunks!.next();
+
+			if (result.done) {
+				break;
+			}
+
+			chunks.push(toBuffer(result.value));
+			buffered += result.value.length;
+		}
+
+		const data = chunks.length === 1 ? chunks[0] : Buffer.concat(chunks);
+
+		this.pending = data.subarray(length);
+
+		return data.subarray(0, length);
+	}
+}
@@ -0,0 +1,12 @@
+/**
+ * Views data as a Buffer without copying it
+ *
+ * Data from the isomorphic classes is already a Buffer when running
+ * in Node, this only narrows the type for Node APIs
+ *
+ * @param data - The data to view
+ * @returns the viewed data
+ */
+export function toBuffer(data: Uint8Array): Buffer {
+	return Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
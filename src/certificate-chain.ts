@@ -0,0 +1,238 @@
+import { Certificate } from '@/certificate';
+import type crypto from 'node:crypto';
+import type { SignedData } from '@/certificate';
+
+/**
+ * Data which can be verified by a certificate chain.
+ * `TMD`, `Ticket` and `Certificate` all match this
+ */
+export interface ChainSignedData extends SignedData {
+	issuer: string;
+}
+
+export interface CertificateChainLink {
+	/**
+	 * The signed data checked by this link. The full name for
+	 * certificates, otherwise the name of the format
+	 */
+	subject: string;
+
+	/**
+	 * Full name of the certificate which should have signed the data
+	 */
+	issuer: string;
+
+	/**
+	 * The certificate used to check the signature.
+	 * Not set if the issuer could not be found
+	 */
+	certificate?: Certificate;
+
+	/**
+	 * Whether this link is valid
+	 */
+	valid: boolean;
+
+	/**
+	 * Set when the issuer is the trusted root, and the
+	 * signature was checked with the trusted root key
+	 */
+	trusted?: boolean;
+
+	/**
+	 * Why the link is not valid
+	 */
+	error?: string;
+}
+
+export interface CertificateChainReport {
+	/**
+	 * Whether every link up to the trusted root is valid
+	 */
+	valid: boolean;
+
+	/**
+	 * Each link from the signed data up to the trusted root, in that order
+	 */
+	links: CertificateChainLink[];
+}
+
+/**
+ * Collection of certificates indexed by their full name, used to
+ * verify the chain of trust from signed data up to a trusted root
+ *
+ * For example a ticket is issued by `Root-CA00000003-XS0000000c`,
+ * which is issued by `Root-CA00000003`, which is issued by `Root`
+ *
+ * Certificates are deduplicated by their full name, matching `CertificateStore`.
+ * If a certificate is added more than once, the first one is kept
+ *
+ * The trusted root is never taken from the certificates in the chain.
+ * Data issued by it is only valid when checked against the root key
+ * or certificate given to the constructor
+ */
+export class CertificateChain {
+	private certificates = new Map<string, Certificate>();
+
+	/**
+	 * Full name of the trusted root. Verification stops once
+	 * data issued by it is reached
+	 *
+	 * Defaults to `Root`, as the root key is not held in a certificate
+	 */
+	public trustedRoot: string;
+
+	/**
+	 * Certificate holding the trusted root key, used to check the
+	 * last link of the chain. If not set, the last link is not valid
+	 */
+	public rootCertificate?: Certificate;
+
+	/**
+	 * @param certificates - Optional. Certificates to add to the chain
+	 * @param root - Optional. The trusted root public key, or a certificate holding it. Without it, no chain is valid
+	 * @param trustedRoot - Optional. Full name of the trusted root. Defaults to `Root`, or the full name of `root` if it is a certificate
+	 *
+	 * @throws {Error} If the root key type or size is not supported
+	 */
+	constructor(certificates: Certificate[] = [], root?: crypto.KeyObject | Certificate, trustedRoot = 'Root') {
+		if (root instanceof Certificate) {
+			this.trustedRoot = root.getFullName();
+			this.rootCertificate = root;
+		} else {
+			this.trustedRoot = trustedRoot;
+			this.rootCertificate = root && Certificate.fromKey(root, '', trustedRoot);
+		}
+
+		this.add(...certificates);
+	}
+
+	/**
+	 * Adds certificates to the chain. Certificates with the same
+	 * full name as an existing certificate are ignored
+	 *
+	 * @param certificates - The certificates to add
+	 */
+	public add(...certificates: (Certificate | undefined)[]): void {
+		for (const certificate of certificates) {
+			if (certificate && !this.certificates.has(certificate.getFullName())) {
+				this.certificates.set(certificate.getFullName(), certificate);
+			}
+		}
+	}
+
+	/**
+	 * Gets a certificate by its full name
+	 *
+	 * @param fullName - The full name of the certificate, e.g. `Root-CA00000003-XS0000000c`
+	 * @returns the certificate, if it is in the chain
+	 */
+	public get(fullName: string): Certificate | undefined {
+		return this.certificates.get(fullName);
+	}
+
+	/**
+	 * Checks if a certificate is in the chain
+	 *
+	 * @param fullName - The full name of the certificate
+	 * @returns true if the certificate is in the chain
+	 */
+	public has(fullName: string): boolean {
+		return this.certificates.has(fullName);
+	}
+
+	/**
+	 * Resolves the certificates which issued the signed data,
+	 * up to the trusted root or the first missing certificate
+	 *
+	 * @param signedData - The `TMD`, `Ticket` or `Certificate` to resolve the issuers of
+	 * @returns the issuing certificates, starting with the one which signed `signedData`. The trusted root is not included
+	 */
+	public resolve(signedData: ChainSignedData): Certificate[] {
+		const path: Certificate[] = [];
+		let current = signedData;
+
+		while (current.issuer !== this.trustedRoot) {
+			const certificate = this.get(current.issuer);
+
+			// * Stop on missing certificates and loops
+			if (!certificate || path.includes(certificate)) {
+				break;
+			}
+
+			path.push(certificate);
+			current = certificate;
+		}
+
+		return path;
+	}
+
+	/**
+	 * Verifies every signature from the signed data up to the trusted root
+	 *
+	 * All links are checked, even after one fails, so that the
+	 * report shows every problem with the chain. The last link is
+	 * checked with `rootCertificate`, and is not valid without it
+	 *
+	 * @param signedData - The `TMD`, `Ticket` or `Certificate` to verify
+	 * @returns a report of each link in the chain
+	 */
+	public verify(signedData: ChainSignedData): CertificateChainReport {
+		const links: CertificateChainLink[] = [];
+		const seen = new Set<Certificate>();
+		let current = signedData;
+
+		while (current.issuer !== this.trustedRoot) {
+			const subject = this.getSubject(current);
+			const certificate = this.get(current.issuer);
+
+			if (!certificate) {
+				links.push({ subject, issuer: current.issuer, valid: false, error: `Issuer certificate ${current.issuer} is not in the chain` });
+				return this.createReport(links);
+			}
+
+			if (seen.has(certificate)) {
+				links.push({ subject, issuer: current.issuer, certificate, valid: false, error: `Issuer certificate ${current.issuer} creates a loop in the chain` });
+				return this.createReport(links);
+			}
+
+			seen.add(certificate);
+			links.push({ subject, issuer: current.issuer, certificate, ...this.verifyLink(certificate, current) });
+
+			current = certificate;
+		}
+
+		const subject = this.getSubject(current);
+
+		if (this.rootCertificate) {
+			links.push({ subject, issuer: current.issuer, certificate: this.rootCertificate, trusted: true, ...this.verifyLink(this.rootCertificate, current) });
+		} else {
+			links.push({ subject, issuer: current.issuer, valid: false, error: `No trusted root key to verify ${current.issuer} with` });
+		}
+
+		return this.createReport(links);
+	}
+
+	private getSubject(signedData: ChainSignedData): string {
+		return signedData instanceof Certificate ? signedData.getFullName() : signedData.constructor.name;
+	}
+
+	private createReport(links: CertificateChainLink[]): CertificateChainReport {
+		return {
+			valid: links.every(link => link.valid),
+			links
+		};
+	}
+
+	private verifyLink(certificate: Certificate, signedData: ChainSignedData): { valid: boolean; error?: string } {
+		try {
+			if (certificate.verifySignature(signedData)) {
+				return { valid: true };
+			}
+
+			return { valid: false, error: 'Signature does not match' };
+		} catch (error) {
+			return { valid: false, error: error instanceof Error ? error.message : String(error) };
+		}
+	}
+}
@@ -0,0 +1,95 @@
+import crypto from 'node:crypto';
+import { Certificate } from '@/certificate';
+import { SignatureType } from '@/signatures';
+
+export interface CertificateHierarchyOptions {
+	/**
+	 * Optional. Name of the CA certificate. Defaults to `CA00000003`
+	 */
+	caName?: string;
+
+	/**
+	 * Optional. Name of the ticket signing certificate. Defaults to `XS0000000c`
+	 */
+	xsName?: string;
+
+	/**
+	 * Optional. Name of the TMD signing certificate. Defaults to `CP0000000b`
+	 */
+	cpName?: string;
+
+	/**
+	 * Optional. Expiration of the generated certificates. Defaults to `0`
+	 */
+	expiration?: number;
+}
+
+export interface GeneratedKeyPair {
+	publicKey: crypto.KeyObject;
+	privateKey: crypto.KeyObject;
+}
+
+export interface GeneratedCertificate extends GeneratedKeyPair {
+	certificate: Certificate;
+}
+
+export interface CertificateHierarchy {
+	/**
+	 * The root keys. The root has no certificate, its
+	 * public key is expected to be known by the verifier
+	 */
+	root: GeneratedKeyPair;
+
+	/**
+	 * The CA certificate, signed by the root
+	 */
+	CA: GeneratedCertificate;
+
+	/**
+	 * The ticket signing certificate, signed by the CA
+	 */
+	XS: GeneratedCertificate;
+
+	/**
+	 * The TMD signing certificate, signed by the CA
+	 */
+	CP: GeneratedCertificate;
+}
+
+/**
+ * Generates a new certificate hierarchy from freshly generated keys,
+ * using the same layout as retail consoles:
+ *
+ * - `Root`, an RSA-4096 key
+ * - `Root-CA00000003`, an RSA-2048 certificate signed by the root
+ * - `Root-CA00000003-XS0000000c`, an RSA-2048 certificate signed by the CA, for tickets
+ * - `Root-CA00000003-CP0000000b`, an RSA-2048 certificate signed by the CA, for TMDs
+ *
+ * Useful for test data and homebrew CAs. Titles signed this way
+ * will not be accepted by consoles
+ *
+ * @param options - Optional. Certificate names and expiration
+ * @returns the generated keys and certificates
+ */
+export function generateCertificateHierarchy(options: CertificateHierarchyOptions = {}): CertificateHierarchy {
+	const caName = options.caName ?? 'CA00000003';
+	const xsName = options.xsName ?? 'XS0000000c';
+	const cpName = options.cpName ?? 'CP0000000b';
+	const expiration = options.expiration ?? 0;
+
+	const root = crypto.generateKeyPairSync('rsa', { modulusLength: 4096 });
+	const CA = createSignedCertificate('Root', caName, expiration, root.privateKey, SignatureType.RSA_4096_SHA256);
+	const XS = createSignedCertificate(CA.certificate.getFullName(), xsName, expiration, CA.privateKey, SignatureType.RSA_2048_SHA256);
+	const CP = createSignedCertificate(CA.certificate.getFullName(), cpName, expiration, CA.privateKey, SignatureType.RSA_2048_SHA256);
+
+	return { root, CA, XS, CP };
+}
+
+function createSignedCertificate(issuer: string, name: string, expiration: number, issuerKey: crypto.KeyObject, signatureType: SignatureType): GeneratedCertificate {
+	const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+	const certificate = Certificate.fromKey(publicKey, issuer, name, expiration);
+
+	certificate.sign(issuerKey, signatureType);
+
+	return { certificate, publicKey, privateKey };
+}
@@ -0,0 +1,306 @@
+import { Certificate } from '@/certificate';
+import { CertificateChain } from '@/certificate-chain';
+import { FileStream } from '@/file-stream';
+import { withFormat, withFormatAsync } from '@/errors';
+import { AsyncFileStream } from '@/async-file-stream';
+import type crypto from 'node:crypto';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+
+/**
+ * Collection of certificates read from a certificate bundle,
+ * such as the Wii U and 3DS `cert.sys`, or the certificates
+ * appended to CDN `tmd` and `cetk` files
+ *
+ * Certificates are deduplicated by their full name. If a
+ * certificate is seen more than once, the first one is kept,
+ * matching `CertificateChain`
+ */
+export class CertificateStore {
+	private stream: FileStream;
+	private certificateMap = new Map<string, Certificate>();
+
+	/**
+	 * Parses the certificate bundle from the provided `fdOrPath`
+	 *
+	 * A file opened from a path is closed once done, an open `fd` is left open
+	 *
+	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
+	 */
+	public parseFromFile(fdOrPath: number | string): void {
+		this.stream = new FileStream(fdOrPath);
+
+		try {
+			this.parse();
+		} finally {
+			this.stream.close();
+		}
+	}
+
+	/**
+	 * Parses the certificate bundle from the provided `buffer`
+	 *
+	 * @param buffer - Certificate bundle data buffer
+	 */
+	public parseFromBuffer(buffer: Buffer): void {
+		this.stream = new FileStream(buffer);
+		this.parse();
+	}
+
+	/**
+	 * Parses the certificate bundle from the provided string
+	 *
+	 * Calls `parseFromBuffer` internally
+	 *
+	 * @param base64 - Base64 encoded certificate bundle data
+	 */
+	public parseFromString(base64: string): void {
+		this.parseFromBuffer(Buffer.from(base64, 'base64'));
+	}
+
+	/**
+	 * Parses the certificate bundle from an existing file stream
+	 *
+	 * @param stream - An existing file stream
+	 */
+	public parseFromFileStream(stream: FileStream): void {
+		this.stream = stream;
+		this.parse();
+	}
+
+	/**
+	 * Parses the certificate bundle from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public async parseFromFileAsync(pathOrHandle: string | FileHandle): Promise<void> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			await this.parseFromAsyncFileStream(stream);
+		} finally {
+			await stream.close();
+		}
+	}
+
+	/**
+	 * Parses the certificate bundle from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of certificate bundle data
+	 */
+	public async parseFromReadableStream(readable: Readable): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(readable));
+	}
+
+	/**
+	 * Parses the certificate bundle from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of certificate bundle data
+	 */
+	public async parseFromWebStream(stream: ReadableStream<Uint8Array>): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(stream));
+	}
+
+	/**
+	 * Parses the certificate bundle from an existing async file stream
+	 *
+	 * Certificates are read one at a time, until the stream ends
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public async parseFromAsyncFileStream(stream: AsyncFileStream): Promise<void> {
+		await withFormatAsync('CertificateStore', async () => {
+			while (!await stream.atEnd()) {
+				this.add(await Certificate.fromAsyncFileStream(stream));
+			}
+		});
+	}
+
+	/**
+	 * Creates a new instance of `CertificateStore` and
+	 * parses the certificate bundle from the provided `fdOrPath`
+	 *
+	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
+	 */
+	public static fromFile(fdOrPath: number | string): CertificateStore {
+		const store = new CertificateStore();
+		store.parseFromFile(fdOrPath);
+
+		return store;
+	}
+
+	/**
+	 * Creates a new instance of `CertificateStore` and
+	 * parses the certificate bundle from the provided `buffer`
+	 *
+	 * @param buffer - Certificate bundle data buffer
+	 */
+	public static fromBuffer(buffer: Buffer): CertificateStore {
+		const store = new CertificateStore();
+		store.parseFromBuffer(buffer);
+
+		return store;
+	}
+
+	/**
+	 * Creates a new instance of `CertificateStore` and
+	 * parses the certificate bundle from the provided string
+	 *
+	 * Calls `parseFromBuffer` internally
+	 *
+	 * @param base64 - Base64 encoded certificate bundle data
+	 */
+	public static fromString(base64: string): CertificateStore {
+		const store = new CertificateStore();
+		store.parseFromString(base64);
+
+		return store;
+	}
+
+	/**
+	 * Creates a new instance of `CertificateStore` and
+	 * parses the certificate bundle from an existing file stream
+	 *
+	 * @param stream - An existing file stream
+	 */
+	public static fromFileStream(stream: FileStream): CertificateStore {
+		const store = new CertificateStore();
+		store.parseFromFileStream(stream);
+
+		return store;
+	}
+
+	/**
+	 * Creates a new instance of `CertificateStore` and
+	 * parses the certificate bundle from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<CertificateStore> {
+		const store = new CertificateStore();
+		await store.parseFromFileAsync(pathOrHandle);
+
+		return store;
+	}
+
+	/**
+	 * Creates a new instance of `CertificateStore` and
+	 * parses the certificate bundle from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of certificate bundle data
+	 */
+	public static async fromReadableStream(readable: Readable): Promise<CertificateStore> {
+		const store = new CertificateStore();
+		await store.parseFromReadableStream(readable);
+
+		return store;
+	}
+
+	/**
+	 * Creates a new instance of `CertificateStore` and
+	 * parses the certificate bundle from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of certificate bundle data
+	 */
+	public static async fromWebStream(stream: ReadableStream<Uint8Array>): Promise<CertificateStore> {
+		const store = new CertificateStore();
+		await store.parseFromWebStream(stream);
+
+		return store;
+	}
+
+	/**
+	 * Creates a new instance of `CertificateStore` and
+	 * parses the certificate bundle from an existing async file stream
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<CertificateStore> {
+		const store = new CertificateStore();
+		await store.parseFromAsyncFileStream(stream);
+
+		return store;
+	}
+
+	/**
+	 * All certificates in the store, in the order they were first added
+	 */
+	public get certificates(): Certificate[] {
+		return [...this.certificateMap.values()];
+	}
+
+	/**
+	 * Adds certificates to the store. Certificates with the same
+	 * full name as an existing certificate are ignored
+	 *
+	 * @param certificates - The certificates to add. `undefined` values are skipped, so optional certificates can be passed directly
+	 */
+	public add(...certificates: (Certificate | undefined)[]): void {
+		for (const certificate of certificates) {
+			if (certificate && !this.certificateMap.has(certificate.getFullName())) {
+				this.certificateMap.set(certificate.getFullName(), certificate);
+			}
+		}
+	}
+
+	/**
+	 * Gets a certificate by its full name
+	 *
+	 * @param fullName - The full name of the certificate, e.g. `Root-CA00000003-XS0000000c`
+	 * @returns the certificate, if it is in the store
+	 */
+	public get(fullName: string): Certificate | undefined {
+		return this.certificateMap.get(fullName);
+	}
+
+	/**
+	 * Checks if a certificate is in the store
+	 *
+	 * @param fullName - The full name of the certificate
+	 * @returns true if the certificate is in the store
+	 */
+	public has(fullName: string): boolean {
+		return this.certificateMap.has(fullName);
+	}
+
+	/**
+	 * Creates a certificate chain from the certificates in the
+	 * store, to verify signed data against
+	 *
+	 * @param root - Optional. The trusted root public key, or a certificate holding it. Without it, no chain is valid
+	 * @param trustedRoot - Optional. Full name of the trusted root. Defaults to `Root`
+	 * @returns the certificate chain
+	 *
+	 * @throws {Error} If the root key type or size is not supported
+	 */
+	public toChain(root?: crypto.KeyObject | Certificate, trustedRoot?: string): CertificateChain {
+		return new CertificateChain(this.certificates, root, trustedRoot);
+	}
+
+	/**
+	 * Gets the size of the certificate bundle
+	 *
+	 * @returns certificate bundle size
+	 */
+	public size(): number {
+		return this.certificates.reduce((size, certificate) => size + certificate.size(), 0);
+	}
+
+	/**
+	 * Encodes the certificates into a single bundle
+	 *
+	 * @returns encoded certificate bundle
+	 */
+	public bytes(): Buffer {
+		return Buffer.concat(this.certificates.map(certificate => certificate.bytes()));
+	}
+
+	private parse(): void {
+		withFormat('CertificateStore', () => {
+			while (this.stream.remaining() !== 0) {
+				this.add(Certificate.fromFileStream(this.stream));
+			}
+		});
+	}
+}
@@ -1,70 +1,132 @@
 import crypto from 'node:crypto';
 import NodeRSA from 'node-rsa';
 import { FileStream } from '@/file-stream';
-import { getSignatureSize } from '@/signatures';
-
-const KeyTypes = {
-	RSA_4096: 0x0,
-	RSA_2048: 0x1,
-	ECDSA_233R1: 0x2
-};
+import { KeyType, SignatureType, getSignatureHash, getSignatureSize } from '@/signatures';
+import { createSignature } from '@/signing';
+import { exportECCPublicKey, importECCPublicKey } from '@/ecc';
+import { AsyncFileStream } from '@/async-file-stream';
+import { toBuffer } from '@/bytes';
+import { Certificate as WebCertificate, getPublicKeyDataSize, getRSAModulusSize } from '@/web/certificate';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { FieldName, SchemaField } from '@/schema';
+import type { WebReadableStream } from '@/web/bytes';
+import type { ECDSAPublicKeyComponents as WebECDSAPublicKeyComponents, RSAPublicKeyComponents as WebRSAPublicKeyComponents } from '@/web/certificate';
 
 export interface SignedData {
+	signatureType: SignatureType;
 	signature: Buffer;
 	signatureBody: Buffer;
 }
 
-export class Certificate {
-	private stream: FileStream;
+export interface RSAPublicKeyComponents extends WebRSAPublicKeyComponents {
+	modulus: Buffer;
 
 	/**
-	 * The type of signature used to sign the certificate
+	 * Fixed 4 byte exponent, usually with leading zeros
 	 */
-	public signatureType: number;
+	exponent: Buffer;
+}
 
-	/**
-	 * The certificate data signature
-	 */
-	public signature: Buffer;
+export interface ECDSAPublicKeyComponents extends WebECDSAPublicKeyComponents {
+	x: Buffer;
+	y: Buffer;
+}
 
-	/**
-	 * The name of the issuer of the certificate
-	 */
-	public issuer: string;
+export type PublicKeyComponents = RSAPublicKeyComponents | ECDSAPublicKeyComponents;
+
+/**
+ * Gets the certificate key type of a Node public key
+ *
+ * @param publicKey - The public key
+ * @returns the key type
+ *
+ * @throws {Error} If the key type or size is not supported
+ */
+function getKeyType(publicKey: crypto.KeyObject): KeyType {
+	const { modulusLength, namedCurve } = publicKey.asymmetricKeyDetails ?? {};
+
+	if (publicKey.asymmetricKeyType === 'rsa' && modulusLength === 4096) {
+		return KeyType.RSA_4096;
+	}
 
-	/**
-	 * The type of key inside the certificate
-	 */
-	public keyType: number; // TODO - Union of KeyTypes values?
+	if (publicKey.asymmetricKeyType === 'rsa' && modulusLength === 2048) {
+		return KeyType.RSA_2048;
+	}
 
-	/**
-	 * Certificate name
-	 */
-	public name: string;
+	if (publicKey.asymmetricKeyType === 'ec' && namedCurve === 'sect233r1') {
+		return KeyType.ECDSA_233R1;
+	}
 
-	/**
-	 * Certificate expiration time?
-	 */
-	public expiration: number;
+	throw new Error(`Unsupported certificate key ${publicKey.asymmetricKeyType} ${modulusLength ?? namedCurve}`);
+}
 
-	/**
-	 * Internal certificate key data
-	 */
-	public publicKeyData: Buffer;
+/**
+ * Gets the SHA-256 signature type made by a certificate key type
+ *
+ * @param keyType - The type of key
+ * @returns the signature type
+ */
+function getSignatureTypeForKey(keyType: KeyType): SignatureType {
+	switch (keyType) {
+		case KeyType.RSA_4096:
+			return SignatureType.RSA_4096_SHA256;
+		case KeyType.RSA_2048:
+			return SignatureType.RSA_2048_SHA256;
+		case KeyType.ECDSA_233R1:
+			return SignatureType.ECDSA_233R1_SHA256;
+	}
+}
 
-	/**
-	 * The data used to create the certificate signature
-	 */
-	public signatureBody: Buffer; // * Used to verify the signature
+/**
+ * Creates a schema field for a certificate appended to the end of
+ * a signed format. The certificate is only parsed if there is data
+ * left in the stream, and only encoded if it is set
+ *
+ * @param name - The name of the property the certificate is stored in
+ * @returns the schema field
+ */
+export function trailingCertificateField<T>(name: FieldName<T>): SchemaField<T, FileStream> {
+	return {
+		name,
+		type: 'custom',
+		parse: stream => stream.remaining() !== 0 ? Certificate.fromFileStream(stream) : undefined,
+		parseAsync: async stream => await stream.atEnd() ? undefined : Certificate.fromAsyncStream(stream),
+		size: certificate => certificate instanceof Certificate ? certificate.size() : 0,
+		encode: (stream, certificate): void => {
+			if (certificate instanceof Certificate) {
+				stream.write(certificate.bytes());
+			}
+		}
+	};
+}
+
+/**
+ * Certificate with file access, signing and synchronous verification
+ * using `node:crypto`. Parsing and encoding are shared with the
+ * isomorphic `Certificate` from the web entry point
+ */
+export class Certificate extends WebCertificate {
+	declare protected stream: FileStream;
+	declare public signature: Buffer;
+	declare public publicKeyData: Buffer;
+	declare public signatureBody: Buffer;
 
 	/**
 	 * Parses the certificate from the provided `fdOrPath`
 	 *
+	 * A file opened from a path is closed once done, an open `fd` is left open
+	 *
 	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
 	 */
 	public parseFromFile(fdOrPath: number | string): void {
 		this.stream = new FileStream(fdOrPath);
-		this.parse();
+
+		try {
+			this.parse();
+		} finally {
+			this.stream.close();
+		}
 	}
 
 	/**
@@ -78,24 +140,57 @@ export class Certificate {
 	}
 
 	/**
-	 * Parses the certificate from the provided string
+	 * Parses the certificate from an existing file stream
 	 *
-	 * Calls `parseFromBuffer` internally
+	 * @param stream - An existing file stream
+	 */
+	public parseFromFileStream(stream: FileStream): void {
+		this.stream = stream;
+		this.parse();
+	}
+
+	/**
+	 * Parses the certificate from the provided `pathOrHandle` without blocking the event loop
 	 *
-	 * @param base64 - Base64 encoded certificate data
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
 	 */
-	public parseFromString(base64: string): void {
-		this.parseFromBuffer(Buffer.from(base64, 'base64'));
+	public async parseFromFileAsync(pathOrHandle: string | FileHandle): Promise<void> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			await this.parseFromAsyncFileStream(stream);
+		} finally {
+			await stream.close();
+		}
 	}
 
 	/**
-	 * Parses the certificate from an existing file stream
+	 * Parses the certificate from the provided Node `Readable`
 	 *
-	 * @param stream - An existing file stream
+	 * @param readable - Readable of certificate data
 	 */
-	public parseFromFileStream(stream: FileStream): void {
-		this.stream = stream;
-		this.parse();
+	public async parseFromReadableStream(readable: Readable): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(readable));
+	}
+
+	/**
+	 * Parses the certificate from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of certificate data
+	 */
+	public async parseFromWebStream(stream: WebReadableStream): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(stream));
+	}
+
+	/**
+	 * Parses the certificate from an existing async file stream
+	 *
+	 * Only the certificate data is read, so data after it is left in the stream
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public async parseFromAsyncFileStream(stream: AsyncFileStream): Promise<void> {
+		await this.parseFromAsyncStream(stream);
 	}
 
 	/**
@@ -126,218 +221,248 @@ export class Certificate {
 
 	/**
 	 * Creates a new instance of `Certificate` and
-	 * parses the certificate from the provided string
+	 * parses the certificate from an existing file stream
 	 *
-	 * Calls `parseFromBuffer` internally
+	 * @param stream - An existing file stream
+	 */
+	public static fromFileStream(stream: FileStream): Certificate {
+		const certificate = new Certificate();
+		certificate.parseFromFileStream(stream);
+
+		return certificate;
+	}
+
+	/**
+	 * Creates a new instance of `Certificate` and
+	 * parses the certificate from the provided `pathOrHandle` without blocking the event loop
 	 *
-	 * @param base64 - Base64 encoded certificate data
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
 	 */
-	public static fromString(base64: string): Certificate {
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<Certificate> {
 		const certificate = new Certificate();
-		certificate.parseFromString(base64);
+		await certificate.parseFromFileAsync(pathOrHandle);
 
 		return certificate;
 	}
 
 	/**
 	 * Creates a new instance of `Certificate` and
-	 * parses the certificate from an existing file stream
+	 * parses the certificate from the provided Node `Readable`
 	 *
-	 * @param stream - An existing file stream
+	 * @param readable - Readable of certificate data
 	 */
-	public static fromFileStream(stream: FileStream): Certificate {
+	public static async fromReadableStream(readable: Readable): Promise<Certificate> {
 		const certificate = new Certificate();
-		certificate.parseFromFileStream(stream);
+		await certificate.parseFromReadableStream(readable);
 
 		return certificate;
 	}
 
 	/**
-	 * Gets the size of the Certificate
+	 * Creates a new instance of `Certificate` and
+	 * parses the certificate from an existing async file stream
 	 *
-	 * @returns Certificate size
+	 * @param stream - An existing async file stream
 	 */
-	public size(): number {
-		let bufferSize = 0;
-
-		bufferSize += 0x4; // * Signature type
-		bufferSize += getSignatureSize(this.signatureType).TOTAL; // * Signature + padding
-		bufferSize += 0x40; // * issuer
-		bufferSize += 0x4; // * keyType
-		bufferSize += 0x40; // * name
-		bufferSize += 0x4; // * expiration
-		bufferSize += this.publicKeyData.length;
-
-		return bufferSize;
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<Certificate> {
+		const certificate = new Certificate();
+		await certificate.parseFromAsyncFileStream(stream);
+
+		return certificate;
 	}
 
 	/**
-	 * Encodes the Certificate data into a Buffer
+	 * Creates a new, unsigned, instance of `Certificate` for a public key.
+	 * Call `sign` with the issuers private key before using it
 	 *
-	 * @returns encoded Certificate
+	 * Until then, `signatureType` is the SHA-256 type made by the
+	 * certificates own key type, and `signature` is zeroed
+	 *
+	 * @param key - An RSA-4096, RSA-2048 or sect233r1 ECDSA key. Private keys are converted to their public key
+	 * @param issuer - The full name of the issuing certificate, such as `Root-CA00000003`
+	 * @param name - The certificate name, such as `XS0000000c`
+	 * @param expiration - Optional. Certificate expiration time. Defaults to `0`
+	 *
+	 * @throws {Error} If the key type or size is not supported
 	 */
-	public bytes(): Buffer {
-		const bytes = Buffer.alloc(this.size());
+	public static fromKey(key: crypto.KeyObject, issuer: string, name: string, expiration = 0): Certificate {
+		const publicKey = key.type === 'private' ? crypto.createPublicKey(key) : key;
+		const certificate = new Certificate();
 
-		// * Offset to the data after the signature + padding
-		const dataOffset = 0x4 + getSignatureSize(this.signatureType).TOTAL;
+		certificate.issuer = issuer;
+		certificate.keyType = getKeyType(publicKey);
+		certificate.name = name;
+		certificate.expiration = expiration;
+		certificate.publicKeyData = Buffer.alloc(getPublicKeyDataSize(certificate.keyType));
+
+		if (certificate.keyType === KeyType.ECDSA_233R1) {
+			exportECCPublicKey(publicKey).copy(certificate.publicKeyData);
+		} else {
+			const jwk = publicKey.export({ format: 'jwk' });
+			const modulus = Buffer.from(jwk.n!, 'base64url');
+			const exponent = Buffer.from(jwk.e!, 'base64url');
+			const modulusSize = getRSAModulusSize(certificate.keyType);
+
+			// * The modulus and exponent are stored right aligned, followed by 0x34 bytes of padding
+			modulus.copy(certificate.publicKeyData, modulusSize - modulus.length);
+			exponent.copy(certificate.publicKeyData, modulusSize + 0x4 - exponent.length);
+		}
 
-		bytes.writeUInt32BE(this.signatureType, 0x0);
-		this.signature.copy(bytes, 0x4);
-		this.signatureBody.copy(bytes, dataOffset);
+		certificate.signatureType = getSignatureTypeForKey(certificate.keyType);
+		certificate.signature = Buffer.alloc(getSignatureSize(certificate.signatureType).SIGNATURE);
+		certificate.signatureBody = toBuffer(certificate.computeSignatureBody());
 
-		return bytes;
+		return certificate;
 	}
 
-	private parse(): void {
-		this.parseSignature();
-		this.issuer = this.stream.readBytes(0x40).toString().split('\0')[0];
-		this.keyType = this.stream.readUInt32BE(); // TODO - Validate this?
-		this.name = this.stream.readBytes(0x40).toString().split('\0')[0];
-		this.expiration = this.stream.readUInt32BE();
-		this.readPublicKeyData();
-		this.constructSignatureData();
+	/**
+	 * Encodes the Certificate data into a Buffer
+	 *
+	 * @returns encoded Certificate
+	 */
+	public bytes(): Buffer {
+		return toBuffer(super.bytes());
 	}
 
-	private parseSignature(): void {
-		this.signatureType = this.stream.readUInt32BE();
-
-		const signatureSize = getSignatureSize(this.signatureType);
-
-		this.signature = this.stream.readBytes(signatureSize.SIGNATURE);
-		this.stream.skip(signatureSize.PADDING);
+	/**
+	 * Signs the Certificate. The signature body is recomputed from the
+	 * current field values, and `signatureType` is set to the given type
+	 *
+	 * @param privateKey - The private key of the issuer, either a `KeyObject` or PEM
+	 * @param signatureType - The type of signature to create, such as `SignatureType.RSA_2048_SHA256`
+	 *
+	 * @throws {Error} If the signature type is unknown, or the key does not match the signature type
+	 */
+	public sign(privateKey: crypto.KeyObject | string | Buffer, signatureType: SignatureType): void {
+		this.signatureType = signatureType;
+		this.signatureBody = toBuffer(this.computeSignatureBody());
+		this.signature = createSignature(this.signatureBody, privateKey, signatureType);
 	}
 
 	/**
-	 * Validates the input signature using the Certificates internal key data
+	 * Validates the input signature using the Certificates internal key data.
+	 * The hash algorithm is picked from the signature type of the input
 	 *
 	 * @returns true if the signature was valid for the input data
+	 *
+	 * @throws {Error} If the signature type is unknown
 	 */
 	public verifySignature(signedData: SignedData): boolean {
+		const hash = getSignatureHash(signedData.signatureType);
+
 		switch (this.keyType) {
-			case KeyTypes.RSA_4096:
-			case KeyTypes.RSA_2048:
-				return this.verifySignatureRSASHA256(signedData);
-			case KeyTypes.ECDSA_233R1:
-				return this.verifySignatureECDSASHA256(signedData);
+			case KeyType.RSA_4096:
+			case KeyType.RSA_2048:
+				return this.verifySignatureRSA(signedData, hash);
+			case KeyType.ECDSA_233R1:
+				return this.verifySignatureECDSA(signedData, hash);
 		}
 
 		return false;
 	}
 
-	private verifySignatureRSASHA256(signedData: SignedData): boolean {
+	private verifySignatureRSA(signedData: SignedData, hash: 'sha1' | 'sha256'): boolean {
 		const publicKey = new NodeRSA();
 
 		publicKey.importKey(this.exportKey(), 'pkcs1-public-pem');
+		publicKey.setOptions({ signingScheme: `pkcs1-${hash}` });
 
 		return publicKey.verify(signedData.signatureBody, signedData.signature);
 	}
 
-	private verifySignatureECDSASHA256(signedData: SignedData): boolean {
+	private verifySignatureECDSA(signedData: SignedData, hash: 'sha1' | 'sha256'): boolean {
 		const key: crypto.VerifyPublicKeyInput = {
 			key: this.exportKey(),
 			dsaEncoding: 'ieee-p1363'
 		};
 
-		return crypto.verify('sha256', signedData.signatureBody, key, signedData.signature);
+		return crypto.verify(hash, signedData.signatureBody, key, signedData.signature);
 	}
 
 	/**
 	 * Exports the Certificates internal key data
 	 *
-	 * @returns the key data as a string. May be either an RSA or ECDSA key
+	 * @returns the key data as a PEM string. PKCS#1 for RSA keys, SPKI for ECDSA keys
 	 *
 	 * @throws {Error} If the key type is unknown
 	 */
 	public exportKey(): string {
-		switch (this.keyType) {
-			case KeyTypes.RSA_4096:
-				return this.exportKeyRSA4096();
-			case KeyTypes.RSA_2048:
-				return this.exportKeyRSA2048();
-			case KeyTypes.ECDSA_233R1:
-				return this.exportKeyECDSA233R1();
-			default:
-				throw new Error(`Unknown certificate key type 0x${this.keyType.toString(16)}`);
-		}
-	}
+		const keyObject = this.exportKeyObject();
 
-	private exportKeyRSA4096(): string {
-		const publicKey = new NodeRSA();
-
-		publicKey.importKey({
-			n: this.publicKeyData.subarray(0x0, 0x200),
-			e: this.publicKeyData.subarray(0x200, 0x204)
-		}, 'components-public');
-
-		return publicKey.exportKey('pkcs1-public-pem');
+		return keyObject.export({
+			type: keyObject.asymmetricKeyType === 'rsa' ? 'pkcs1' : 'spki',
+			format: 'pem'
+		}).toString();
 	}
 
-	private exportKeyRSA2048(): string {
-		const publicKey = new NodeRSA();
+	/**
+	 * Exports the Certificates internal key data as a Node `KeyObject`
+	 *
+	 * @returns the public key
+	 *
+	 * @throws {Error} If the key type is unknown
+	 */
+	public exportKeyObject(): crypto.KeyObject {
+		if (this.keyType === KeyType.ECDSA_233R1) {
+			return importECCPublicKey(this.publicKeyData);
+		}
 
-		publicKey.importKey({
-			n: this.publicKeyData.subarray(0x0, 0x100),
-			e: this.publicKeyData.subarray(0x100, 0x104)
-		}, 'components-public');
+		const { modulus, exponent } = this.exportKeyRaw() as RSAPublicKeyComponents;
+		let exponentStart = 0;
 
-		return publicKey.exportKey('pkcs1-public-pem');
+		// * JWKs do not allow leading zeros, which the fixed size exponent usually has
+		while (exponentStart < exponent.length - 1 && exponent[exponentStart] === 0) {
+			exponentStart++;
+		}
+
+		return crypto.createPublicKey({
+			key: {
+				kty: 'RSA',
+				n: modulus.toString('base64url'),
+				e: exponent.subarray(exponentStart).toString('base64url')
+			},
+			format: 'jwk'
+		});
 	}
 
-	private exportKeyECDSA233R1(): string {
-		const publicKeyBytes = Buffer.concat([
-			Buffer.from([0x4]), // * Uncompressed key (I think it's uncompressed?)
-			this.publicKeyData.subarray(0x0, 0x3C)
-		]);
-
-		const der = Buffer.concat([
-			Buffer.from([ // * sect233r1 DER public key header
-				0x30, 0x52, 0x30, 0x10, 0x06, 0x07, 0x2a, 0x86, 0x48, 0xce,
-				0x3d, 0x02, 0x01, 0x06, 0x05, 0x2b, 0x81, 0x04, 0x00, 0x1b,
-				0x03, 0x3e, 0x00
-			]),
-			publicKeyBytes
-		]);
-
-		const keyObject = crypto.createPublicKey({
-			key: der,
+	/**
+	 * Exports the Certificates internal key data as DER
+	 *
+	 * @returns the key data as SPKI DER
+	 *
+	 * @throws {Error} If the key type is unknown
+	 */
+	public exportKeyDER(): Buffer {
+		return this.exportKeyObject().export({
 			type: 'spki',
 			format: 'der'
 		});
-
-		return keyObject.export({
-			type: 'spki',
-			format: 'pem'
-		}).toString();
 	}
 
-	private readPublicKeyData(): void {
-		switch (this.keyType) {
-			case KeyTypes.RSA_4096:
-				this.publicKeyData = this.stream.readBytes(0x200 + 0x4 + 0x34);
-				break;
-			case KeyTypes.RSA_2048:
-				this.publicKeyData = this.stream.readBytes(0x100 + 0x4 + 0x34);
-				break;
-			case KeyTypes.ECDSA_233R1:
-				this.publicKeyData = this.stream.readBytes(0x3C + 0x3C);
-				break;
-			default:
-				throw new Error(`Unknown certificate key type 0x${this.keyType.toString(16)}`);
+	/**
+	 * Exports the Certificates internal key data as a JWK
+	 *
+	 * @returns the key data as a JWK
+	 *
+	 * @throws {Error} If the key type is unknown, or is ECDSA. JWKs do not support the sect233r1 curve
+	 */
+	public exportKeyJWK(): JsonWebKey {
+		if (this.keyType === KeyType.ECDSA_233R1) {
+			throw new Error('ECDSA sect233r1 keys can not be exported as a JWK');
 		}
-	}
-
-	private constructSignatureData(): void {
-		const body = Buffer.alloc(0x40 + 0x4 + 0x40 + 0x4);
 
-		body.write(this.issuer, 0x0, 0x40);
-		body.writeUint32BE(this.keyType, 0x40);
-		body.write(this.name, 0x44, 0x40);
-		body.writeUint32BE(this.expiration, 0x84);
+		return this.exportKeyObject().export({ format: 'jwk' });
+	}
 
-		this.signatureBody = Buffer.concat([
-			body,
-			this.publicKeyData
-		]);
+	/**
+	 * Exports the Certificates internal key data without any encoding
+	 *
+	 * @returns the RSA modulus and exponent, or the ECDSA curve point
+	 *
+	 * @throws {Error} If the key type is unknown
+	 */
+	public exportKeyRaw(): PublicKeyComponents {
+		// * Slices of the Buffer `publicKeyData` are Buffers too
+		return super.exportKeyRaw() as PublicKeyComponents;
 	}
 }
@@ -3,12 +3,55 @@ import { Certificate } from '@/certificate';
 import { Ticket } from '@/ticket';
 import { TMD } from '@/tmd';
 import { SMDH } from '@/smdh';
+import { withFormat, withFormatAsync } from '@/errors';
+import { AsyncFileStream } from '@/async-file-stream';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
 
 export const BLOCK_SIZE = 0x40; // * 64 byte blocks
 
+const HEADER_SIZE = 0x2020;
+
 interface CIAContent {
+	/**
+	 * Content ID, from the TMD content chunk record
+	 */
 	id: number;
-	data: Buffer;
+
+	/**
+	 * Content index, from the TMD content chunk record
+	 */
+	index: number;
+
+	/**
+	 * Offset of the content from the start of the CIA content section
+	 */
+	offset: number;
+
+	/**
+	 * Size of the content, from the TMD content chunk record
+	 */
+	size: bigint;
+
+	/**
+	 * Encrypted content data. Not set when the contents are read lazily, see `stream`
+	 */
+	data?: Buffer;
+
+	/**
+	 * View of the encrypted content data, only set when the CIA was parsed from
+	 * an open `fd` or an existing `FileStream`. Nothing is read until the stream is,
+	 * so contents are never all held in memory. The `fd` must stay open while it is used
+	 */
+	stream?: FileStream;
+
+	/**
+	 * Async view of the encrypted content data, only set when the CIA was parsed from
+	 * an open `FileHandle` or an existing `AsyncFileStream`. Nothing is read until the
+	 * stream is. The `FileHandle` must stay open while it is used
+	 */
+	asyncStream?: AsyncFileStream;
 }
 
 interface CIAMeta {
@@ -21,7 +64,7 @@ interface CIAMeta {
 
 export class CIA {
 	private stream: FileStream;
-	private encryptedContents: Buffer;
+	private encryptedContents: FileStream;
 
 	/**
 	 * Unknown
@@ -103,11 +146,20 @@ export class CIA {
 	/**
 	 * Parses the CIA from the provided `fdOrPath`
 	 *
+	 * A file opened from a path is closed once done, so its contents are read
+	 * into memory. Contents of an open `fd` are read lazily through `stream`,
+	 * and the `fd` is left open
+	 *
 	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
 	 */
 	public parseFromFile(fdOrPath: number | string): void {
 		this.stream = new FileStream(fdOrPath);
-		this.parse();
+
+		try {
+			this.parse(typeof fdOrPath === 'number');
+		} finally {
+			this.stream.close();
+		}
 	}
 
 	/**
@@ -117,7 +169,7 @@ export class CIA {
 	 */
 	public parseFromBuffer(buffer: Buffer): void {
 		this.stream = new FileStream(buffer);
-		this.parse();
+		this.parse(false);
 	}
 
 	/**
@@ -134,11 +186,61 @@ export class CIA {
 	/**
 	 * Parses the CIA from an existing file stream
 	 *
+	 * Contents are read lazily through `stream`
+	 *
 	 * @param stream - An existing file stream
 	 */
 	public parseFromFileStream(stream: FileStream): void {
 		this.stream = stream;
-		this.parse();
+		this.parse(true);
+	}
+
+	/**
+	 * Parses the CIA from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * A file opened from a path is closed once done, so its contents are read
+	 * into memory. Contents of an open `FileHandle` are read lazily through
+	 * `asyncStream`, and the `FileHandle` is left open
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public async parseFromFileAsync(pathOrHandle: string | FileHandle): Promise<void> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			await this.parseAsync(stream, typeof pathOrHandle !== 'string');
+		} finally {
+			await stream.close();
+		}
+	}
+
+	/**
+	 * Parses the CIA from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of CIA data
+	 */
+	public async parseFromReadableStream(readable: Readable): Promise<void> {
+		await this.parseAsync(new AsyncFileStream(readable), false);
+	}
+
+	/**
+	 * Parses the CIA from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of CIA data
+	 */
+	public async parseFromWebStream(stream: ReadableStream<Uint8Array>): Promise<void> {
+		await this.parseAsync(new AsyncFileStream(stream), false);
+	}
+
+	/**
+	 * Parses the CIA from an existing async file stream
+	 *
+	 * Contents are read lazily through `asyncStream`
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public async parseFromAsyncFileStream(stream: AsyncFileStream): Promise<void> {
+		await this.parseAsync(stream, true);
 	}
 
 	/**
@@ -195,61 +297,152 @@ export class CIA {
 		return cia;
 	}
 
-	private parse(): void {
-		this.parseHeader();
-		this.parseContentIndex();
-		this.decryptContents();
+	/**
+	 * Creates a new instance of `CIA` and
+	 * parses the CIA from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<CIA> {
+		const cia = new CIA();
+		await cia.parseFromFileAsync(pathOrHandle);
+
+		return cia;
 	}
 
-	private parseHeader(): void {
-		const headerSize = this.stream.readUInt32LE();
+	/**
+	 * Creates a new instance of `CIA` and
+	 * parses the CIA from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of CIA data
+	 */
+	public static async fromReadableStream(readable: Readable): Promise<CIA> {
+		const cia = new CIA();
+		await cia.parseFromReadableStream(readable);
 
-		if (headerSize !== 0x2020) {
-			throw new Error(`Invalid CIA header size. Expected ${0x2020}, got ${headerSize}`);
-		}
+		return cia;
+	}
+
+	/**
+	 * Creates a new instance of `CIA` and
+	 * parses the CIA from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of CIA data
+	 */
+	public static async fromWebStream(stream: ReadableStream<Uint8Array>): Promise<CIA> {
+		const cia = new CIA();
+		await cia.parseFromWebStream(stream);
+
+		return cia;
+	}
+
+	/**
+	 * Creates a new instance of `CIA` and
+	 * parses the CIA from an existing async file stream
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<CIA> {
+		const cia = new CIA();
+		await cia.parseFromAsyncFileStream(stream);
 
-		this.type = this.stream.readUInt16LE();
-		this.version = this.stream.readUInt16LE();
-		this.certificateChainSize = this.stream.readUInt32LE();
-		this.ticketSize = this.stream.readUInt32LE();
-		this.TMDSize = this.stream.readUInt32LE();
-		this.metaSize = this.stream.readUInt32LE();
-		this.contentSize = this.stream.readUInt64LE();
-		this.contentIndex = this.stream.readBytes(0x2000);
-		this.stream.alignBlock(BLOCK_SIZE);
+		return cia;
+	}
 
-		this.CACertificate = Certificate.fromFileStream(this.stream);
-		this.ticketCertificate = Certificate.fromFileStream(this.stream);
-		this.TMDCertificate = Certificate.fromFileStream(this.stream);
-		this.stream.alignBlock(BLOCK_SIZE);
+	private parse(lazyContents: boolean): void {
+		withFormat('CIA', () => {
+			this.parseHeader(this.stream);
+			this.stream.alignBlock(BLOCK_SIZE);
 
-		// TODO - Use the above certificates to validate the below signatures. It always fails right now?
+			this.CACertificate = Certificate.fromFileStream(this.stream);
+			this.ticketCertificate = Certificate.fromFileStream(this.stream);
+			this.TMDCertificate = Certificate.fromFileStream(this.stream);
+			this.stream.alignBlock(BLOCK_SIZE);
 
-		this.ticket = Ticket.fromBuffer(this.stream.readBytes(this.ticketSize));
-		this.stream.alignBlock(BLOCK_SIZE);
+			// TODO - Use the above certificates to validate the below signatures. It always fails right now?
 
-		this.TMD = TMD.fromBuffer(this.stream.readBytes(this.TMDSize));
-		this.stream.alignBlock(BLOCK_SIZE);
+			// * Nested formats are parsed from views of the CIA data, rather than copies
+			this.ticket = Ticket.fromFileStream(this.stream.readSlice(this.ticketSize, 'ticket'));
+			this.stream.alignBlock(BLOCK_SIZE);
 
-		this.encryptedContents = this.stream.readBytes(Number(this.contentSize));
+			this.TMD = TMD.fromFileStream(this.stream.readSlice(this.TMDSize, 'TMD'));
+			this.stream.alignBlock(BLOCK_SIZE);
 
-		if (this.metaSize !== 0) {
-			const dependencies: bigint[] = [];
+			this.encryptedContents = this.stream.readSlice(Number(this.contentSize), 'contents');
 
-			// * Dependency list is a 0x180 block section
-			// * of little-endian title IDs (8 bytes long)
-			for (let i = 0; i < 0x180 / 8; i++) {
-				dependencies.push(this.stream.readUInt64LE());
+			if (this.metaSize !== 0) {
+				this.meta = this.parseMeta(this.stream);
 			}
 
-			this.meta = {
-				dependencies: dependencies,
-				reserved1: this.stream.readBytes(0x180),
-				coreVersion: this.stream.readUInt32LE(),
-				reserved2: this.stream.readBytes(0xFC),
-				iconData: SMDH.fromFileStream(this.stream)
-			};
+			this.parseContentIndex();
+			this.readContents(lazyContents);
+			this.decryptContents();
+		});
+	}
+
+	private async parseAsync(stream: AsyncFileStream, lazyContents: boolean): Promise<void> {
+		await withFormatAsync('CIA', async () => {
+			// * The header is a fixed size, so it is read in one go and parsed from memory
+			this.parseHeader(new FileStream(await stream.read(HEADER_SIZE, 'header')));
+			await stream.alignBlock(BLOCK_SIZE);
+
+			this.CACertificate = await Certificate.fromAsyncFileStream(stream);
+			this.ticketCertificate = await Certificate.fromAsyncFileStream(stream);
+			this.TMDCertificate = await Certificate.fromAsyncFileStream(stream);
+			await stream.alignBlock(BLOCK_SIZE);
+
+			// * Nested formats are bounded by their section size, and are small, so they are parsed from memory
+			this.ticket = Ticket.fromBuffer(await stream.read(this.ticketSize, 'ticket'));
+			await stream.alignBlock(BLOCK_SIZE);
+
+			this.TMD = TMD.fromBuffer(await stream.read(this.TMDSize, 'TMD'));
+			await stream.alignBlock(BLOCK_SIZE);
+
+			const contents = await stream.readSlice(Number(this.contentSize), 'contents');
+
+			if (this.metaSize !== 0) {
+				this.meta = this.parseMeta(new FileStream(await stream.read(this.metaSize, 'meta')));
+			}
+
+			this.parseContentIndex();
+			await this.readContentsAsync(contents, lazyContents);
+			this.decryptContents();
+		});
+	}
+
+	private parseHeader(stream: FileStream): void {
+		const headerSize = stream.readUInt32LE('headerSize');
+
+		if (headerSize !== HEADER_SIZE) {
+			throw new Error(`Invalid CIA header size. Expected ${HEADER_SIZE}, got ${headerSize}`);
+		}
+
+		this.type = stream.readUInt16LE('type');
+		this.version = stream.readUInt16LE('version');
+		this.certificateChainSize = stream.readUInt32LE('certificateChainSize');
+		this.ticketSize = stream.readUInt32LE('ticketSize');
+		this.TMDSize = stream.readUInt32LE('TMDSize');
+		this.metaSize = stream.readUInt32LE('metaSize');
+		this.contentSize = stream.readUInt64LE('contentSize');
+		this.contentIndex = stream.readBytes(0x2000, 'contentIndex');
+	}
+
+	private parseMeta(stream: FileStream): CIAMeta {
+		const dependencies: bigint[] = [];
+
+		// * Dependency list is a 0x180 block section
+		// * of little-endian title IDs (8 bytes long)
+		for (let i = 0; i < 0x180 / 8; i++) {
+			dependencies.push(stream.readUInt64LE());
 		}
+
+		return {
+			dependencies: dependencies,
+			reserved1: stream.readBytes(0x180, 'reserved1'),
+			coreVersion: stream.readUInt32LE('coreVersion'),
+			reserved2: stream.readBytes(0xFC, 'reserved2'),
+			iconData: SMDH.fromFileStream(stream)
+		};
 	}
 
 	private parseContentIndex(): void {
@@ -281,14 +474,45 @@ export class CIA {
 		if (activeTMDContents.size < activeContents.size) {
 			throw new Error(`TMD is missing ${activeContents.size - activeTMDContents.size} content records from the CIA content index`);
 		}
+	}
+
+	private readContents(lazyContents: boolean): void {
+		for (const record of this.TMD.contentChunkRecords) {
+			const content: CIAContent = {
+				id: record.id,
+				index: record.index,
+				offset: this.encryptedContents.tell(),
+				size: record.size
+			};
+			const field = `contents[${record.index}]`;
+
+			if (lazyContents) {
+				content.stream = this.encryptedContents.readSlice(Number(record.size), field);
+			} else {
+				content.data = this.encryptedContents.readBytes(Number(record.size), field);
+			}
 
-		const contentsStream = new FileStream(this.encryptedContents);
+			this.contents.push(content);
+		}
+	}
 
+	private async readContentsAsync(contents: AsyncFileStream, lazyContents: boolean): Promise<void> {
 		for (const record of this.TMD.contentChunkRecords) {
-			this.contents.push({
+			const content: CIAContent = {
 				id: record.id,
-				data: contentsStream.readBytes(Number(record.size))
-			});
+				index: record.index,
+				offset: contents.tell(),
+				size: record.size
+			};
+			const field = `contents[${record.index}]`;
+
+			if (lazyContents) {
+				content.asyncStream = await contents.readSlice(Number(record.size), field);
+			} else {
+				content.data = await contents.read(Number(record.size), field);
+			}
+
+			this.contents.push(content);
 		}
 	}
 
@@ -1,5 +1,13 @@
 import zlib from 'node:zlib';
+import { promisify } from 'node:util';
 import { FileStream } from '@/file-stream';
+import { AsyncFileStream } from '@/async-file-stream';
+import { checkCMPSize, readCMP } from '@/web/cmp';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { WebReadableStream } from '@/web/bytes';
+
+const inflate = promisify(zlib.inflate);
 
 // * Unsure what the real name of this is. Switch Toolbox uses the ZCMP class for
 // * files that end with `*.cmp`, however `main.sgarc.cmp` found in Mii Maker has
@@ -15,11 +23,18 @@ export class CMP {
 	/**
 	 * Decompresses the CMP-compressed data from the provided `fdOrPath`
 	 *
+	 * A file opened from a path is closed once done, an open `fd` is left open
+	 *
 	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
 	 */
 	public decompressFromFile(fdOrPath: number | string): Buffer {
 		this.stream = new FileStream(fdOrPath);
-		return this.decompress();
+
+		try {
+			return this.decompress();
+		} finally {
+			this.stream.close();
+		}
 	}
 
 	/**
@@ -53,6 +68,57 @@ export class CMP {
 		return this.decompress();
 	}
 
+	/**
+	 * Decompresses the CMP-compressed data from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public async decompressFromFileAsync(pathOrHandle: string | FileHandle): Promise<Buffer> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			return await this.decompressFromAsyncFileStream(stream);
+		} finally {
+			await stream.close();
+		}
+	}
+
+	/**
+	 * Decompresses the CMP-compressed data from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of CMP-compressed data
+	 */
+	public async decompressFromReadableStream(readable: Readable): Promise<Buffer> {
+		return this.decompressFromAsyncFileStream(new AsyncFileStream(readable));
+	}
+
+	/**
+	 * Decompresses the CMP-compressed data from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of CMP-compressed data
+	 */
+	public async decompressFromWebStream(stream: WebReadableStream): Promise<Buffer> {
+		return this.decompressFromAsyncFileStream(new AsyncFileStream(stream));
+	}
+
+	/**
+	 * Decompresses the CMP-compressed data from an existing async file stream
+	 *
+	 * The remaining data is read into memory, then inflated without blocking the event loop
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public async decompressFromAsyncFileStream(stream: AsyncFileStream): Promise<Buffer> {
+		this.stream = await stream.readAll();
+
+		const cmp = readCMP(this.stream);
+		const decompressed = await inflate(cmp.compressed);
+
+		checkCMPSize(cmp, decompressed);
+
+		return decompressed;
+	}
+
 	/**
 	 * Creates a new instance of `CMP` and
 	 * parses the CMP-compressed data from the provided `fdOrPath`
@@ -99,15 +165,55 @@ export class CMP {
 		return cmp.decompressFromFileStream(stream);
 	}
 
+	/**
+	 * Creates a new instance of `CMP` and
+	 * parses the CMP-compressed data from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<Buffer> {
+		const cmp = new CMP();
+		return cmp.decompressFromFileAsync(pathOrHandle);
+	}
+
+	/**
+	 * Creates a new instance of `CMP` and
+	 * parses the CMP-compressed data from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of CMP-compressed data
+	 */
+	public static async fromReadableStream(readable: Readable): Promise<Buffer> {
+		const cmp = new CMP();
+		return cmp.decompressFromReadableStream(readable);
+	}
+
+	/**
+	 * Creates a new instance of `CMP` and
+	 * parses the CMP-compressed data from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of CMP-compressed data
+	 */
+	public static async fromWebStream(stream: WebReadableStream): Promise<Buffer> {
+		const cmp = new CMP();
+		return cmp.decompressFromWebStream(stream);
+	}
+
+	/**
+	 * Creates a new instance of `CMP` and
+	 * parses the CMP-compressed data from an existing async file stream
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<Buffer> {
+		const cmp = new CMP();
+		return cmp.decompressFromAsyncFileStream(stream);
+	}
+
 	private decompress(): Buffer {
-		const decompressedSize = this.stream.readUInt32BE();
-		const compressedSize = this.stream.remaining();
-		const compressed = this.stream.readBytes(compressedSize);
-		const decompressed = zlib.inflateSync(compressed);
+		const cmp = readCMP(this.stream);
+		const decompressed = zlib.inflateSync(cmp.compressed);
 
-		if (decompressed.length !== decompressedSize) {
-			throw new Error(`Invalid decompressed size. Expected ${decompressedSize}, got ${decompressed.length}`);
-		}
+		checkCMPSize(cmp, decompressed);
 
 		return decompressed;
 	}
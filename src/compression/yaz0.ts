@@ -1,5 +1,10 @@
 import { FileStream } from '@/file-stream';
 import { Stream } from '@/stream';
+import { withFormat } from '@/errors';
+import { AsyncFileStream } from '@/async-file-stream';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
 
 const YAZ0_MAGIC = Buffer.from('Yaz0');
 
@@ -12,11 +17,18 @@ export class Yaz0 {
 	/**
 	 * Decompresses the Yaz0-compressed data from the provided `fdOrPath`
 	 *
+	 * A file opened from a path is closed once done, an open `fd` is left open
+	 *
 	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
 	 */
 	public decompressFromFile(fdOrPath: number | string): Buffer {
 		this.stream = new FileStream(fdOrPath);
-		return this.decompress();
+
+		try {
+			return this.decompress();
+		} finally {
+			this.stream.close();
+		}
 	}
 
 	/**
@@ -50,6 +62,51 @@ export class Yaz0 {
 		return this.decompress();
 	}
 
+	/**
+	 * Decompresses the Yaz0-compressed data from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public async decompressFromFileAsync(pathOrHandle: string | FileHandle): Promise<Buffer> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			return await this.decompressFromAsyncFileStream(stream);
+		} finally {
+			await stream.close();
+		}
+	}
+
+	/**
+	 * Decompresses the Yaz0-compressed data from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of Yaz0-compressed data
+	 */
+	public async decompressFromReadableStream(readable: Readable): Promise<Buffer> {
+		return this.decompressFromAsyncFileStream(new AsyncFileStream(readable));
+	}
+
+	/**
+	 * Decompresses the Yaz0-compressed data from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of Yaz0-compressed data
+	 */
+	public async decompressFromWebStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+		return this.decompressFromAsyncFileStream(new AsyncFileStream(stream));
+	}
+
+	/**
+	 * Decompresses the Yaz0-compressed data from an existing async file stream
+	 *
+	 * The remaining data is read into memory before decompressing
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public async decompressFromAsyncFileStream(stream: AsyncFileStream): Promise<Buffer> {
+		this.stream = await stream.readAll();
+		return this.decompress();
+	}
+
 	/**
 	 * Creates a new instance of `Yaz0` and
 	 * parses the Yaz0-compressed data from the provided `fdOrPath`
@@ -96,58 +153,104 @@ export class Yaz0 {
 		return yaz0.decompressFromFileStream(stream);
 	}
 
-	private decompress(): Buffer {
-		const magic = this.stream.readBytes(4);
+	/**
+	 * Creates a new instance of `Yaz0` and
+	 * parses the Yaz0-compressed data from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<Buffer> {
+		const yaz0 = new Yaz0();
+		return yaz0.decompressFromFileAsync(pathOrHandle);
+	}
 
-		if (!YAZ0_MAGIC.equals(magic)) {
-			throw new Error('Invalid Yaz0 magic');
-		}
+	/**
+	 * Creates a new instance of `Yaz0` and
+	 * parses the Yaz0-compressed data from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of Yaz0-compressed data
+	 */
+	public static async fromReadableStream(readable: Readable): Promise<Buffer> {
+		const yaz0 = new Yaz0();
+		return yaz0.decompressFromReadableStream(readable);
+	}
 
-		const decompressedSize = this.stream.readUInt32BE();
+	/**
+	 * Creates a new instance of `Yaz0` and
+	 * parses the Yaz0-compressed data from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of Yaz0-compressed data
+	 */
+	public static async fromWebStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+		const yaz0 = new Yaz0();
+		return yaz0.decompressFromWebStream(stream);
+	}
 
-		this.stream.skip(4); // * Reserved, ignore for now
-		this.stream.skip(4); // * Reserved, ignore for now
+	/**
+	 * Creates a new instance of `Yaz0` and
+	 * parses the Yaz0-compressed data from an existing async file stream
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<Buffer> {
+		const yaz0 = new Yaz0();
+		return yaz0.decompressFromAsyncFileStream(stream);
+	}
 
-		const compressedSize = this.stream.remaining();
-		const compressed = this.stream.readBytes(compressedSize);
-		const compressedStream = new Stream(compressed);
-		const decompressed = Buffer.alloc(decompressedSize);
-		let outputBytePosition = 0;
+	private decompress(): Buffer {
+		return withFormat('Yaz0', () => {
+			const magic = this.stream.readBytes(4);
 
-		while (compressedStream.remaining()) {
-			const groupHeader = compressedStream.readUInt8();
+			if (!YAZ0_MAGIC.equals(magic)) {
+				throw new Error('Invalid Yaz0 magic');
+			}
+
+			const decompressedSize = this.stream.readUInt32BE();
 
-			for (let chunk = 0; chunk < 8 && compressedStream.remaining(); chunk++) {
-				const bitMask = 0x80 >> chunk;
-				const isLiteral = (groupHeader & bitMask) !== 0;
-				const firstByte = compressedStream.readUInt8();
+			this.stream.skip(4); // * Reserved, ignore for now
+			this.stream.skip(4); // * Reserved, ignore for now
 
-				if (isLiteral) {
-					decompressed[outputBytePosition++] = firstByte;
-				} else {
-					const secondByte = compressedStream.readUInt8();
+			const compressedSize = this.stream.remaining();
+			const compressed = this.stream.readBytes(compressedSize);
+			const compressedStream = new Stream(compressed);
+			const decompressed = Buffer.alloc(decompressedSize);
+			let outputBytePosition = 0;
 
-					const distance = ((firstByte & 0x0F) << 8) | secondByte;
-					let length: number;
+			while (compressedStream.remaining()) {
+				const groupHeader = compressedStream.readUInt8();
 
-					if ((firstByte & 0xF0) !== 0) {
-						const n = (firstByte & 0xF0) >> 4;
-						length = n + 2;
+				for (let chunk = 0; chunk < 8 && compressedStream.remaining(); chunk++) {
+					const bitMask = 0x80 >> chunk;
+					const isLiteral = (groupHeader & bitMask) !== 0;
+					const firstByte = compressedStream.readUInt8();
+
+					if (isLiteral) {
+						decompressed[outputBytePosition++] = firstByte;
 					} else {
-						const thirdByte = compressedStream.readUInt8();
-						length = thirdByte + 0x12;
-					}
+						const secondByte = compressedStream.readUInt8();
 
-					const backReferenceStart = outputBytePosition - distance - 1;
+						const distance = ((firstByte & 0x0F) << 8) | secondByte;
+						let length: number;
 
-					for (let i = 0; i < length && outputBytePosition < decompressedSize; i++) {
-						decompressed[outputBytePosition] = decompressed[backReferenceStart + i];
-						outputBytePosition++;
+						if ((firstByte & 0xF0) !== 0) {
+							const n = (firstByte & 0xF0) >> 4;
+							length = n + 2;
+						} else {
+							const thirdByte = compressedStream.readUInt8();
+							length = thirdByte + 0x12;
+						}
+
+						const backReferenceStart = outputBytePosition - distance - 1;
+
+						for (let i = 0; i < length && outputBytePosition < decompressedSize; i++) {
+							decompressed[outputBytePosition] = decompressed[backReferenceStart + i];
+							outputBytePosition++;
+						}
 					}
 				}
 			}
-		}
 
-		return decompressed;
+			return decompressed;
+		});
 	}
 }
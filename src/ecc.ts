@@ -0,0 +1,35 @@
+import crypto from 'node:crypto';
+
+// * sect233r1 SPKI DER header, up to and including the 0x04 uncompressed point marker
+const SECT233R1_SPKI_HEADER = Buffer.from([
+	0x30, 0x52, 0x30, 0x10, 0x06, 0x07, 0x2A, 0x86, 0x48, 0xCE,
+	0x3D, 0x02, 0x01, 0x06, 0x05, 0x2B, 0x81, 0x04, 0x00, 0x1B,
+	0x03, 0x3E, 0x00, 0x04
+]);
+
+/**
+ * Imports a sect233r1 public key as stored by certificates and tickets
+ *
+ * @param point - The 0x3C byte curve point, X followed by Y
+ * @returns the public key
+ */
+export function importECCPublicKey(point: Buffer): crypto.KeyObject {
+	return crypto.createPublicKey({
+		key: Buffer.concat([SECT233R1_SPKI_HEADER, point.subarray(0x0, 0x3C)]),
+		type: 'spki',
+		format: 'der'
+	});
+}
+
+/**
+ * Exports a sect233r1 key in the format stored by certificates and tickets
+ *
+ * @param key - The public key, or a private key to export the public key of
+ * @returns the 0x3C byte curve point, X followed by Y
+ */
+export function exportECCPublicKey(key: crypto.KeyObject): Buffer {
+	const publicKey = key.type === 'private' ? crypto.createPublicKey(key) : key;
+
+	// * Uncompressed curve point, without the leading 0x04
+	return publicKey.export({ type: 'spki', format: 'der' }).subarray(SECT233R1_SPKI_HEADER.length);
+}
@@ -0,0 +1,108 @@
+export interface OutOfRangeErrorDetails {
+	/**
+	 * The name of the file format being parsed
+	 */
+	format?: string;
+
+	/**
+	 * The name of the field being read
+	 */
+	field?: string;
+
+	/**
+	 * The offset the read started at
+	 */
+	offset: number;
+
+	/**
+	 * The amount of data requested
+	 */
+	length: number;
+
+	/**
+	 * The amount of data available from `offset`
+	 */
+	available: number;
+}
+
+/**
+ * Thrown when a read goes past the bounds of the data, usually
+ * because the input is truncated
+ */
+export class OutOfRangeError extends Error implements OutOfRangeErrorDetails {
+	public format?: string;
+	public field?: string;
+	public offset: number;
+	public length: number;
+	public available: number;
+
+	constructor(details: OutOfRangeErrorDetails) {
+		super();
+
+		this.name = 'OutOfRangeError';
+		this.format = details.format;
+		this.field = details.field;
+		this.offset = details.offset;
+		this.length = details.length;
+		this.available = details.available;
+		this.message = this.buildMessage();
+	}
+
+	/**
+	 * Sets the name of the file format being parsed. Nested
+	 * formats set this first, so existing values are kept
+	 *
+	 * @param format - The name of the file format
+	 */
+	public setFormat(format: string): void {
+		if (!this.format) {
+			this.format = format;
+			this.message = this.buildMessage();
+		}
+	}
+
+	private buildMessage(): string {
+		const prefix = this.format ? `${this.format}: ` : '';
+		const field = this.field ? ` for ${this.field}` : '';
+
+		return `${prefix}Tried to read 0x${this.length.toString(16)} bytes${field} at offset 0x${this.offset.toString(16)}, but only 0x${Math.max(this.available, 0).toString(16)} bytes are available`;
+	}
+}
+
+/**
+ * Adds the file format name to any `OutOfRangeError` thrown by `parse`
+ *
+ * @param format - The name of the file format being parsed
+ * @param parse - Callback which performs the parsing
+ * @returns the result of `parse`
+ */
+export function withFormat<T>(format: string, parse: () => T): T {
+	try {
+		return parse();
+	} catch (error) {
+		if (error instanceof OutOfRangeError) {
+			error.setFormat(format);
+		}
+
+		throw error;
+	}
+}
+
+/**
+ * Async counterpart of `withFormat`, for parsers which read as they go
+ *
+ * @param format - The name of the file format being parsed
+ * @param parse - Callback which performs the parsing
+ * @returns the result of `parse`
+ */
+export async function withFormatAsync<T>(format: string, parse: () => Promise<T>): Promise<T> {
+	try {
+		return await parse();
+	} catch (error) {
+		if (error instanceof OutOfRangeError) {
+			error.setFormat(format);
+		}
+
+		throw error;
+	}
+}
@@ -1,52 +1,232 @@
 import fs from 'node:fs';
 import { Stream } from '@/stream';
+import { OutOfRangeError } from '@/errors';
+import { toBuffer } from '@/bytes';
+
+/**
+ * Default size of the read-ahead window used when reading from an `fd`
+ */
+export const DEFAULT_WINDOW_SIZE = 0x10000; // * 64KiB
+
+export interface FileStreamCacheStats {
+	/**
+	 * Number of reads served from the read-ahead window
+	 */
+	hits: number;
+
+	/**
+	 * Number of reads which had to go to the file
+	 */
+	misses: number;
+
+	/**
+	 * Number of `fs.readSync` calls made
+	 */
+	syscalls: number;
+
+	/**
+	 * Ratio of hits to total reads, from 0 to 1
+	 */
+	hitRate: number;
+}
+
+/**
+ * State of an open `fd`, shared between a stream and its slices
+ */
+interface FileState {
+	closed: boolean;
+}
 
 export class FileStream extends Stream {
+	declare public buffer: Buffer;
 	private fd?: number;
 	private fileSize?: number;
+	private windowSize: number;
+	private window: Buffer = Buffer.alloc(0);
+	private windowStart = 0; // * Position in the file of the first byte in `window`
+	private cacheHits = 0;
+	private cacheMisses = 0;
+	private syscalls = 0;
+
+	/**
+	 * Position in the file that offset 0 maps to. Non-zero for slices
+	 */
+	private base = 0;
+
+	/**
+	 * Only `fd`s opened by this stream from a path are closed by it.
+	 * Caller-supplied `fd`s and slices leave the `fd` open
+	 */
+	private ownsFd = false;
 
-	constructor(fdOrPathOrBufferOrStream: number | string | Buffer | Stream) {
+	/**
+	 * Shared with slices, so they stop reading once the `fd` is closed
+	 * rather than reading whatever file the `fd` number is reused for
+	 */
+	private file: FileState = { closed: false };
+
+	/**
+	 * @param fdOrPathOrBufferOrStream - The data source
+	 * @param windowSize - Optional. How much data to read ahead at once when reading from an `fd`
+	 */
+	constructor(fdOrPathOrBufferOrStream: number | string | Buffer | Stream, windowSize = DEFAULT_WINDOW_SIZE) {
 		if (typeof fdOrPathOrBufferOrStream === 'number') {
 			super(Buffer.alloc(0));
 			this.fd = fdOrPathOrBufferOrStream;
 		} else if (typeof fdOrPathOrBufferOrStream === 'string') {
 			super(Buffer.alloc(0));
 			this.fd = fs.openSync(fdOrPathOrBufferOrStream, 'r');
+			this.ownsFd = true;
+		} else if (fdOrPathOrBufferOrStream instanceof Stream) {
+			super(toBuffer(fdOrPathOrBufferOrStream.buffer));
 		} else {
 			super(fdOrPathOrBufferOrStream);
 		}
 
-		if (this.fd) {
+		this.windowSize = windowSize;
+
+		if (this.fd !== undefined) {
 			const stat = fs.fstatSync(this.fd);
 			this.fileSize = stat.size;
 		}
 	}
 
 	/**
-	 * Checks how much data has been read
+	 * Gets the total size of the stream data
 	 *
-	 * @returns the amount of data in the file that has not been read
+	 * @returns the size of the file
 	 */
-	public remaining(): number {
-		if (this.fileSize) {
-			return this.fileSize - this.offset;
+	public size(): number {
+		if (this.fd !== undefined && this.fileSize !== undefined) {
+			return this.fileSize;
 		} else {
-			return super.remaining();
+			return super.size();
+		}
+	}
+
+	/**
+	 * Creates a view of part of the file. The view shares the
+	 * underlying `fd` or Buffer without copying it, but has its
+	 * own offset starting at 0 and can not read outside of the
+	 * given range. A view of an `fd` can not be read once
+	 * the stream it was created from is closed
+	 *
+	 * @param offset - The offset the view starts at
+	 * @param length - The size of the view
+	 * @returns the new stream
+	 *
+	 * @throws {OutOfRangeError} If the range goes past the end of the file
+	 */
+	public slice(offset: number, length: number): FileStream {
+		this.checkBounds(offset, length, 'slice');
+
+		if (this.fd === undefined) {
+			const slice = new FileStream(this.buffer.subarray(offset, offset + length));
+			slice.bom = this.bom;
+
+			return slice;
+		}
+
+		const slice = new FileStream(Buffer.alloc(0), this.windowSize);
+
+		slice.fd = this.fd;
+		slice.file = this.file;
+		slice.fileSize = length;
+		slice.base = this.base + offset;
+		slice.bom = this.bom;
+
+		return slice;
+	}
+
+	/**
+	 * Creates a view of the given amount of data from the current
+	 * offset, then advances the offset past it
+	 *
+	 * @param length - The size of the view
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the new stream
+	 *
+	 * @throws {OutOfRangeError} If the range goes past the end of the file
+	 */
+	public readSlice(length: number, field?: string): FileStream {
+		this.checkBounds(this.offset, length, field);
+
+		const slice = this.slice(this.offset, length);
+		this.offset += length;
+
+		return slice;
+	}
+
+	/**
+	 * Checks a byte at either the current or given offset
+	 * without advancing the offset
+	 *
+	 * @param offset - Optional. The offset to check
+	 * @returns the byte at the used offset
+	 */
+	public peek(offset?: number): number {
+		if (offset === undefined) {
+			offset = this.offset;
+		}
+
+		// * Out of range offsets behave the same as peeking past the end of a Buffer
+		if (this.fd === undefined || offset < 0 || offset >= this.size()) {
+			return super.peek(offset);
 		}
+
+		this.checkOpen();
+
+		const position = this.base + offset;
+
+		if (!this.windowContains(position, 1)) {
+			this.fillWindow(position);
+		}
+
+		return this.window[position - this.windowStart];
 	}
 
 	/**
 	 * Reads the given amount of data from the file
 	 *
+	 * Reads from an `fd` are served from a read-ahead window
+	 * where possible, to avoid a syscall for every field
+	 *
 	 * @param length - The amount of data to read
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read data
+	 *
+	 * @throws {OutOfRangeError} If the read goes past the end of the file
+	 * @throws {Error} If the `fd` has been closed
 	 */
-	public read(length: number): Buffer {
+	public read(length: number, field?: string): Buffer {
+		this.checkBounds(this.offset, length, field);
+
 		let read: Buffer;
 
-		if (this.fd) {
-			read = Buffer.alloc(length);
-			fs.readSync(this.fd!, read, 0, length, this.offset);
+		if (this.fd !== undefined) {
+			this.checkOpen();
+
+			const position = this.base + this.offset;
+
+			if (this.windowContains(position, length)) {
+				this.cacheHits++;
+			} else {
+				this.cacheMisses++;
+
+				if (length > this.windowSize) {
+					// * Too big to window, read it directly
+					read = this.readFromFile(position, length, field);
+					this.offset += length;
+
+					return read;
+				}
+
+				this.fillWindow(position, field);
+			}
+
+			const start = position - this.windowStart;
+
+			read = this.window.subarray(start, start + length);
 		} else {
 			read = this.buffer.subarray(this.offset, this.offset + length);
 		}
@@ -56,19 +236,114 @@ export class FileStream extends Stream {
 		return read;
 	}
 
+	/**
+	 * Alias of `read`
+	 *
+	 * @param length - The amount of data to read
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read data
+	 */
+	public readBytes(length: number, field?: string): Buffer {
+		return this.read(length, field);
+	}
+
+	/**
+	 * Gets statistics about how well the read-ahead window is working
+	 *
+	 * @returns the cache statistics
+	 */
+	public cacheStats(): FileStreamCacheStats {
+		const total = this.cacheHits + this.cacheMisses;
+
+		return {
+			hits: this.cacheHits,
+			misses: this.cacheMisses,
+			syscalls: this.syscalls,
+			hitRate: total === 0 ? 0 : this.cacheHits / total
+		};
+	}
+
 	/**
 	 * Reads the entire file into memory. This effectively turns FileStream into a Stream
 	 *
 	 * Should not typically be used unless you know the files are safe to read into memory
 	 */
 	public consumeAll(): void {
-		if (this.fd && this.fileSize) {
+		if (this.fd !== undefined && this.fileSize !== undefined) {
+			this.checkOpen();
+
 			this.buffer = Buffer.alloc(this.fileSize);
 
-			fs.readSync(this.fd, this.buffer, 0, this.fileSize, 0);
-			fs.closeSync(this.fd);
+			fs.readSync(this.fd, this.buffer, 0, this.fileSize, this.base);
+			this.syscalls++;
 
+			this.close();
 			this.fd = undefined;
+			this.fileSize = undefined;
+			this.base = 0;
+		}
+	}
+
+	/**
+	 * Closes the underlying `fd` if it was opened by this stream from a path.
+	 * Caller-supplied `fd`s are left open, and slices never close the `fd`
+	 * they share with their parent. Once closed, reading from this stream
+	 * or any of its slices throws
+	 *
+	 * Safe to call more than once
+	 */
+	public close(): void {
+		if (this.fd !== undefined && this.ownsFd && !this.file.closed) {
+			fs.closeSync(this.fd);
+
+			this.file.closed = true;
+			this.window = Buffer.alloc(0);
+		}
+	}
+
+	/**
+	 * Alias of `close`, for use with `using` declarations
+	 */
+	public [Symbol.dispose](): void {
+		this.close();
+	}
+
+	private checkOpen(): void {
+		if (this.file.closed) {
+			throw new Error('Tried to read from a FileStream whose fd has been closed');
+		}
+	}
+
+	private windowContains(position: number, length: number): boolean {
+		return position >= this.windowStart && position + length <= this.windowStart + this.window.length;
+	}
+
+	private fillWindow(position: number, field?: string): void {
+		// * Never read past the end of this stream, slices may not own the rest of the file
+		const end = this.base + this.size();
+		const length = Math.min(this.windowSize, end - position);
+
+		// * A new Buffer is used each time, so data returned from earlier reads is never overwritten
+		this.window = this.readFromFile(position, length, field);
+		this.windowStart = position;
+	}
+
+	private readFromFile(position: number, length: number, field?: string): Buffer {
+		const read = Buffer.alloc(length);
+		const bytesRead = fs.readSync(this.fd!, read, 0, length, position);
+
+		this.syscalls++;
+
+		// * The file may have been truncated since it was opened
+		if (bytesRead !== length) {
+			throw new OutOfRangeError({
+				field,
+				offset: position - this.base,
+				length,
+				available: bytesRead
+			});
 		}
+
+		return read;
 	}
 }
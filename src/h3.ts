@@ -0,0 +1,396 @@
+import crypto from 'node:crypto';
+import { FileStream } from '@/file-stream';
+import { withFormat } from '@/errors';
+import { AsyncFileStream } from '@/async-file-stream';
+import type { ContentChunkRecord, HashMismatch, HashVerificationReport } from '@/tmd';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+
+const HASH_SIZE = 0x14;
+const HASH_TABLE_SIZE = HASH_SIZE * 16;
+const BLOCK_SIZE = 0x10000;
+const BLOCK_HEADER_SIZE = 0x400;
+
+// * Each level of the tree hashes tables of 16 hashes from the level below
+const BLOCKS_PER_H1 = 16;
+const BLOCKS_PER_H2 = 16 * 16;
+const BLOCKS_PER_H3 = 16 * 16 * 16;
+
+function sha1(data: Buffer): Buffer {
+	return crypto.createHash('sha1').update(data).digest();
+}
+
+// * Hash tables are always 16 entries. Unused entries in the last table are zeroed
+function hashTable(hashes: Buffer[]): Buffer {
+	const table = Buffer.alloc(HASH_TABLE_SIZE);
+
+	hashes.forEach((hash, i) => hash.copy(table, i * HASH_SIZE));
+
+	return table;
+}
+
+function countBlocks(decryptedData: Buffer): number {
+	if (decryptedData.length % BLOCK_SIZE !== 0) {
+		throw new Error(`Hashed content size 0x${decryptedData.length.toString(16)} is not a multiple of the 0x${BLOCK_SIZE.toString(16)} byte block size`);
+	}
+
+	return decryptedData.length / BLOCK_SIZE;
+}
+
+function hashTables(hashes: Buffer[]): Buffer[] {
+	const tables: Buffer[] = [];
+
+	for (let i = 0; i < hashes.length; i += 16) {
+		tables.push(hashTable(hashes.slice(i, i + 16)));
+	}
+
+	return tables;
+}
+
+/**
+ * Title hash tree (`.h3` file) of a hashed Wii U content
+ *
+ * Hashed contents are split into 0x10000 byte blocks, each starting with
+ * a 0x400 byte header holding the H0, H1 and H2 hash tables followed by
+ * 0xFC00 bytes of data. H0 hashes are of the block data, and every other
+ * level hashes tables of 16 hashes from the level below. The `.h3` file
+ * is the list of hashes of the H2 tables, one per 4096 blocks
+ */
+export class H3 {
+	private stream: FileStream;
+
+	/**
+	 * SHA1 hashes of the H2 tables
+	 */
+	public hashes: Buffer[] = [];
+
+	/**
+	 * Parses the H3 from the provided `fdOrPath`
+	 *
+	 * A file opened from a path is closed once done, an open `fd` is left open
+	 *
+	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
+	 */
+	public parseFromFile(fdOrPath: number | string): void {
+		this.stream = new FileStream(fdOrPath);
+
+		try {
+			this.parse();
+		} finally {
+			this.stream.close();
+		}
+	}
+
+	/**
+	 * Parses the H3 from the provided `buffer`
+	 *
+	 * @param buffer - H3 data buffer
+	 */
+	public parseFromBuffer(buffer: Buffer): void {
+		this.stream = new FileStream(buffer);
+		this.parse();
+	}
+
+	/**
+	 * Parses the H3 from the provided string
+	 *
+	 * Calls `parseFromBuffer` internally
+	 *
+	 * @param base64 - Base64 encoded H3 data
+	 */
+	public parseFromString(base64: string): void {
+		this.parseFromBuffer(Buffer.from(base64, 'base64'));
+	}
+
+	/**
+	 * Parses the H3 from an existing file stream
+	 *
+	 * @param stream - An existing file stream
+	 */
+	public parseFromFileStream(stream: FileStream): void {
+		this.stream = stream;
+		this.parse();
+	}
+
+	/**
+	 * Parses the H3 from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public async parseFromFileAsync(pathOrHandle: string | FileHandle): Promise<void> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			await this.parseFromAsyncFileStream(stream);
+		} finally {
+			await stream.close();
+		}
+	}
+
+	/**
+	 * Parses the H3 from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of H3 data
+	 */
+	public async parseFromReadableStream(readable: Readable): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(readable));
+	}
+
+	/**
+	 * Parses the H3 from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of H3 data
+	 */
+	public async parseFromWebStream(stream: ReadableStream<Uint8Array>): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(stream));
+	}
+
+	/**
+	 * Parses the H3 from an existing async file stream
+	 *
+	 * The remaining data is read into memory before parsing
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public async parseFromAsyncFileStream(stream: AsyncFileStream): Promise<void> {
+		this.stream = await stream.readAll();
+		this.parse();
+	}
+
+	/**
+	 * Creates a new instance of `H3` and
+	 * parses the H3 from the provided `fdOrPath`
+	 *
+	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
+	 */
+	public static fromFile(fdOrPath: number | string): H3 {
+		const h3 = new H3();
+		h3.parseFromFile(fdOrPath);
+
+		return h3;
+	}
+
+	/**
+	 * Creates a new instance of `H3` and
+	 * parses the H3 from the provided `buffer`
+	 *
+	 * @param buffer - H3 data buffer
+	 */
+	public static fromBuffer(buffer: Buffer): H3 {
+		const h3 = new H3();
+		h3.parseFromBuffer(buffer);
+
+		return h3;
+	}
+
+	/**
+	 * Creates a new instance of `H3` and
+	 * parses the H3 from the provided string
+	 *
+	 * Calls `parseFromBuffer` internally
+	 *
+	 * @param base64 - Base64 encoded H3 data
+	 */
+	public static fromString(base64: string): H3 {
+		const h3 = new H3();
+		h3.parseFromString(base64);
+
+		return h3;
+	}
+
+	/**
+	 * Creates a new instance of `H3` and
+	 * parses the H3 from an existing file stream
+	 *
+	 * @param stream - An existing file stream
+	 */
+	public static fromFileStream(stream: FileStream): H3 {
+		const h3 = new H3();
+		h3.parseFromFileStream(stream);
+
+		return h3;
+	}
+
+	/**
+	 * Creates a new instance of `H3` and
+	 * parses the H3 from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<H3> {
+		const h3 = new H3();
+		await h3.parseFromFileAsync(pathOrHandle);
+
+		return h3;
+	}
+
+	/**
+	 * Creates a new instance of `H3` and
+	 * parses the H3 from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of H3 data
+	 */
+	public static async fromReadableStream(readable: Readable): Promise<H3> {
+		const h3 = new H3();
+		await h3.parseFromReadableStream(readable);
+
+		return h3;
+	}
+
+	/**
+	 * Creates a new instance of `H3` and
+	 * parses the H3 from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of H3 data
+	 */
+	public static async fromWebStream(stream: ReadableStream<Uint8Array>): Promise<H3> {
+		const h3 = new H3();
+		await h3.parseFromWebStream(stream);
+
+		return h3;
+	}
+
+	/**
+	 * Creates a new instance of `H3` and
+	 * parses the H3 from an existing async file stream
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<H3> {
+		const h3 = new H3();
+		await h3.parseFromAsyncFileStream(stream);
+
+		return h3;
+	}
+
+	/**
+	 * Creates a new instance of `H3` from decrypted hashed content, such as when repacking a title
+	 *
+	 * Every hash level is recomputed from the block data. The hash headers in the content are not read
+	 *
+	 * @param decryptedData - The decrypted content
+	 * @returns the hash tree of the content
+	 *
+	 * @throws {Error} If the content is not a whole number of blocks
+	 */
+	public static fromDecryptedContent(decryptedData: Buffer): H3 {
+		const blocks = countBlocks(decryptedData);
+		const H0Hashes: Buffer[] = [];
+
+		for (let i = 0; i < blocks; i++) {
+			const offset = i * BLOCK_SIZE;
+
+			H0Hashes.push(sha1(decryptedData.subarray(offset + BLOCK_HEADER_SIZE, offset + BLOCK_SIZE)));
+		}
+
+		const H1Hashes = hashTables(H0Hashes).map(sha1);
+		const H2Hashes = hashTables(H1Hashes).map(sha1);
+		const h3 = new H3();
+
+		h3.hashes = hashTables(H2Hashes).map(sha1);
+
+		return h3;
+	}
+
+	/**
+	 * Checks the hash tree against the hash in the content chunk record of the content.
+	 * The record hash is the SHA1 hash of the `.h3` file, zero padded to 0x20 bytes
+	 *
+	 * @param record - The content chunk record of the hashed content
+	 * @returns a report of the checked hash
+	 */
+	public verifyRecord(record: ContentChunkRecord): HashVerificationReport {
+		const mismatches: HashMismatch[] = [];
+		const expected = record.hash.subarray(0, HASH_SIZE);
+		const actual = sha1(this.bytes());
+
+		if (!expected.equals(actual)) {
+			mismatches.push({ field: 'hash', expected, actual });
+		}
+
+		return {
+			valid: mismatches.length === 0,
+			mismatches
+		};
+	}
+
+	/**
+	 * Checks the H0, H1 and H2 hash tables in every block of decrypted
+	 * hashed content, and checks the H2 tables against the hash tree
+	 *
+	 * @param decryptedData - The decrypted content
+	 * @returns a report of every hash that did not match. Field names are like `blocks[5].H0`
+	 *
+	 * @throws {Error} If the content is not a whole number of blocks, or the hash tree does not cover every block
+	 */
+	public verifyContent(decryptedData: Buffer): HashVerificationReport {
+		const blocks = countBlocks(decryptedData);
+		const mismatches: HashMismatch[] = [];
+
+		if (this.hashes.length * BLOCKS_PER_H3 < blocks) {
+			throw new Error(`Hash tree covers ${this.hashes.length * BLOCKS_PER_H3} blocks, but the content has ${blocks}`);
+		}
+
+		for (let i = 0; i < blocks; i++) {
+			const offset = i * BLOCK_SIZE;
+			const H0Table = decryptedData.subarray(offset, offset + HASH_TABLE_SIZE);
+			const H1Table = decryptedData.subarray(offset + HASH_TABLE_SIZE, offset + HASH_TABLE_SIZE * 2);
+			const H2Table = decryptedData.subarray(offset + HASH_TABLE_SIZE * 2, offset + HASH_TABLE_SIZE * 3);
+			const data = decryptedData.subarray(offset + BLOCK_HEADER_SIZE, offset + BLOCK_SIZE);
+
+			const H0Index = i % 16;
+			const H1Index = Math.floor(i / BLOCKS_PER_H1) % 16;
+			const H2Index = Math.floor(i / BLOCKS_PER_H2) % 16;
+			const H3Index = Math.floor(i / BLOCKS_PER_H3);
+
+			this.checkHash(mismatches, `blocks[${i}].H0`, H0Table.subarray(H0Index * HASH_SIZE, (H0Index + 1) * HASH_SIZE), sha1(data));
+			this.checkHash(mismatches, `blocks[${i}].H1`, H1Table.subarray(H1Index * HASH_SIZE, (H1Index + 1) * HASH_SIZE), sha1(H0Table));
+			this.checkHash(mismatches, `blocks[${i}].H2`, H2Table.subarray(H2Index * HASH_SIZE, (H2Index + 1) * HASH_SIZE), sha1(H1Table));
+			this.checkHash(mismatches, `blocks[${i}].H3`, this.hashes[H3Index], sha1(H2Table));
+		}
+
+		return {
+			valid: mismatches.length === 0,
+			mismatches
+		};
+	}
+
+	private checkHash(mismatches: HashMismatch[], field: string, expected: Buffer, actual: Buffer): void {
+		if (!expected.equals(actual)) {
+			mismatches.push({ field, expected, actual });
+		}
+	}
+
+	/**
+	 * Gets the size of the H3
+	 *
+	 * @returns H3 size
+	 */
+	public size(): number {
+		return this.hashes.length * HASH_SIZE;
+	}
+
+	/**
+	 * Encodes the H3
+	 *
+	 * @returns encoded H3
+	 */
+	public bytes(): Buffer {
+		return Buffer.concat(this.hashes);
+	}
+
+	private parse(): void {
+		withFormat('H3', () => {
+			const remaining = this.stream.remaining();
+
+			if (remaining % HASH_SIZE !== 0) {
+				throw new Error(`H3 size 0x${remaining.toString(16)} is not a multiple of the 0x${HASH_SIZE.toString(16)} byte hash size`);
+			}
+
+			for (let i = 0; i < remaining / HASH_SIZE; i++) {
+				this.hashes.push(this.stream.readBytes(HASH_SIZE, `hashes[${i}]`));
+			}
+		});
+	}
+}
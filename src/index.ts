@@ -1,8 +1,12 @@
 // * File format classes and exports
 export * from '@/byaml';
 export * from '@/certificate';
+export * from '@/certificate-chain';
+export * from '@/certificate-hierarchy';
+export * from '@/certificate-store';
 export * from '@/cia';
 export * from '@/compression';
+export * from '@/h3';
 export * from '@/me01';
 export * from '@/msbt';
 export * from '@/smdh';
@@ -11,5 +15,13 @@ export * from '@/tmd';
 
 // * Utility classes and exports
 export * from '@/stream';
+export * from '@/stream-writer';
 export * from '@/file-stream';
+export * from '@/async-file-stream';
 export * from '@/signatures';
+export * from '@/signing';
+export * from '@/schema';
+export * from '@/key-scrambler';
+export * from '@/ecc';
+export * from '@/title-id';
+export * from '@/errors';
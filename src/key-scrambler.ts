@@ -0,0 +1,32 @@
+const KEY_SCRAMBLER_CONSTANT = 0x1FF9E9AAC5FE0408024591DC5D52768An;
+const MASK_128 = (1n << 128n) - 1n;
+
+function rotateLeft128(value: bigint, shift: bigint): bigint {
+	return ((value << shift) | (value >> (128n - shift))) & MASK_128;
+}
+
+function toBigInt(key: Buffer): bigint {
+	if (key.length !== 0x10) {
+		throw new Error(`Invalid AES key length. Expected 0x10, got 0x${key.length.toString(16)}`);
+	}
+
+	return BigInt(`0x${key.toString('hex')}`);
+}
+
+/**
+ * Derives a 3DS AES engine normal key from a keyX and keyY,
+ * the same way the hardware key scrambler does
+ *
+ * `NormalKey = ((KeyX ROL 2) XOR KeyY) + C ROL 87`
+ *
+ * @param keyX - The 16 byte keyX of the keyslot
+ * @param keyY - The 16 byte keyY of the keyslot
+ * @returns the 16 byte normal key
+ *
+ * @throws {Error} If either key is not 16 bytes
+ */
+export function scrambleKey(keyX: Buffer, keyY: Buffer): Buffer {
+	const sum = ((rotateLeft128(toBigInt(keyX), 2n) ^ toBigInt(keyY)) + KEY_SCRAMBLER_CONSTANT) & MASK_128;
+
+	return Buffer.from(rotateLeft128(sum, 87n).toString(16).padStart(32, '0'), 'hex');
+}
@@ -1,4 +1,9 @@
 import { FileStream } from '@/file-stream';
+import { withFormat } from '@/errors';
+import { AsyncFileStream } from '@/async-file-stream';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
 
 const ME01_MAGIC = Buffer.from('ME01');
 const SA01_MAGIC = Buffer.from('SA01');
@@ -17,11 +22,18 @@ export class ME01 {
 	/**
 	 * Parses the ME01 from the provided `fdOrPath`
 	 *
+	 * A file opened from a path is closed once done, an open `fd` is left open
+	 *
 	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
 	 */
 	public parseFromFile(fdOrPath: number | string): void {
 		this.stream = new FileStream(fdOrPath);
-		this.parse();
+
+		try {
+			this.parse();
+		} finally {
+			this.stream.close();
+		}
 	}
 
 	/**
@@ -55,6 +67,51 @@ export class ME01 {
 		this.parse();
 	}
 
+	/**
+	 * Parses the ME01 from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public async parseFromFileAsync(pathOrHandle: string | FileHandle): Promise<void> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			await this.parseFromAsyncFileStream(stream);
+		} finally {
+			await stream.close();
+		}
+	}
+
+	/**
+	 * Parses the ME01 from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of ME01 data
+	 */
+	public async parseFromReadableStream(readable: Readable): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(readable));
+	}
+
+	/**
+	 * Parses the ME01 from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of ME01 data
+	 */
+	public async parseFromWebStream(stream: ReadableStream<Uint8Array>): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(stream));
+	}
+
+	/**
+	 * Parses the ME01 from an existing async file stream
+	 *
+	 * The remaining data is read into memory before parsing
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public async parseFromAsyncFileStream(stream: AsyncFileStream): Promise<void> {
+		this.stream = await stream.readAll();
+		this.parse();
+	}
+
 	/**
 	 * Creates a new instance of `ME01` and
 	 * parses the ME01 from the provided `fdOrPath`
@@ -109,61 +166,112 @@ export class ME01 {
 		return me01;
 	}
 
+	/**
+	 * Creates a new instance of `ME01` and
+	 * parses the ME01 from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<ME01> {
+		const me01 = new ME01();
+		await me01.parseFromFileAsync(pathOrHandle);
+
+		return me01;
+	}
+
+	/**
+	 * Creates a new instance of `ME01` and
+	 * parses the ME01 from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of ME01 data
+	 */
+	public static async fromReadableStream(readable: Readable): Promise<ME01> {
+		const me01 = new ME01();
+		await me01.parseFromReadableStream(readable);
+
+		return me01;
+	}
+
+	/**
+	 * Creates a new instance of `ME01` and
+	 * parses the ME01 from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of ME01 data
+	 */
+	public static async fromWebStream(stream: ReadableStream<Uint8Array>): Promise<ME01> {
+		const me01 = new ME01();
+		await me01.parseFromWebStream(stream);
+
+		return me01;
+	}
+
+	/**
+	 * Creates a new instance of `ME01` and
+	 * parses the ME01 from an existing async file stream
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<ME01> {
+		const me01 = new ME01();
+		await me01.parseFromAsyncFileStream(stream);
+
+		return me01;
+	}
+
 	/**
 	 * Parses the ME01 from the input source provided at instantiation
 	 */
 	public parse(): void {
-		// * I couldn't find any docs or wikis about this file format,
-		// * so I'm basing this mostly off Switch-Toolbox
-		// * https://github.com/KillzXGaming/Switch-Toolbox/blob/43c847c85900273dc4ff0366fad8ef29f32db4bd/File_Format_Library/FileFormats/Archives/ME01.cs
-
-		const magic = this.stream.readBytes(0x4);
+		withFormat('ME01', () => {
+			// * I couldn't find any docs or wikis about this file format,
+			// * so I'm basing this mostly off Switch-Toolbox
+			// * https://github.com/KillzXGaming/Switch-Toolbox/blob/43c847c85900273dc4ff0366fad8ef29f32db4bd/File_Format_Library/FileFormats/Archives/ME01.cs
 
-		if (!ME01_MAGIC.equals(magic) && !SA01_MAGIC.equals(magic)) {
-			throw new Error('Invalid ME01 magic');
-		}
+			const magic = this.stream.readBytes(0x4);
 
-		if (SA01_MAGIC.equals(magic)) {
-			this.stream.bom = 'be';
-		}
+			if (!ME01_MAGIC.equals(magic) && !SA01_MAGIC.equals(magic)) {
+				throw new Error('Invalid ME01 magic');
+			}
 
-		const fileCount = this.stream.readUInt32();
-		const fileDataOffset = this.stream.readUInt32(); // * Switch-Toolbox names this "Alignment"?
+			if (SA01_MAGIC.equals(magic)) {
+				this.stream.bom = 'be';
+			}
 
-		const dataOffsets = Array.from({ length: fileCount }, () => this.stream.readUInt32());
-		const dataSizes = Array.from({ length: fileCount }, () => this.stream.readUInt32());
-		const fileNames: string[] = [];
+			const fileCount = this.stream.readUInt32();
+			const fileDataOffset = this.stream.readUInt32(); // * Switch-Toolbox names this "Alignment"?
 
-		// * Switch-Toolbox reads this slightly differently. It reads the padding to find the
-		// * next offset, but it seems like they're always in 0x80 length chunks
-		for (let i = 0; i < fileCount; i++) {
-			const block = this.stream.readBytes(0x80);
-			const fileName = block.toString().split('\0')[0];
+			const dataOffsets = Array.from({ length: fileCount }, () => this.stream.readUInt32());
+			const dataSizes = Array.from({ length: fileCount }, () => this.stream.readUInt32());
+			const fileNames: string[] = [];
 
-			fileNames.push(fileName);
-		}
+			// * Switch-Toolbox reads this slightly differently. It reads the padding to find the
+			// * next offset, but it seems like they're always in 0x80 length chunks
+			for (let i = 0; i < fileCount; i++) {
+				fileNames.push(this.stream.readPaddedString(0x80));
+			}
 
-		// * Switch-Toolbox does this slightly differently. It reads the padding to find the
-		// * file data offset, but this seems like it can be skipped by just jumping right to
-		// * value it calls "Alignment"? Doing so saves reads
-		this.stream.seek(fileDataOffset);
+			// * Switch-Toolbox does this slightly differently. It reads the padding to find the
+			// * file data offset, but this seems like it can be skipped by just jumping right to
+			// * value it calls "Alignment"? Doing so saves reads
+			this.stream.seek(fileDataOffset);
 
-		// * Switch-Toolbox reads this slightly differently. It reads the padding to find the
-		// * next offset, but this seems like it can be skipped by just jumping right to the
-		// * next file, saving reads
-		for (let i = 0; i < fileCount; i++) {
-			const fileOffset = dataOffsets[i];
-			const fileName = fileNames[i];
-			const fileSize = dataSizes[i];
+			// * Switch-Toolbox reads this slightly differently. It reads the padding to find the
+			// * next offset, but this seems like it can be skipped by just jumping right to the
+			// * next file, saving reads
+			for (let i = 0; i < fileCount; i++) {
+				const fileOffset = dataOffsets[i];
+				const fileName = fileNames[i];
+				const fileSize = dataSizes[i];
 
-			this.stream.seek(fileDataOffset + fileOffset);
+				this.stream.seek(fileDataOffset + fileOffset);
 
-			const fileData = this.stream.readBytes(fileSize);
+				const fileData = this.stream.readBytes(fileSize);
 
-			this.files.push({
-				name: fileName,
-				data: fileData
-			});
-		}
+				this.files.push({
+					name: fileName,
+					data: fileData
+				});
+			}
+		});
 	}
 }
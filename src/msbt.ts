@@ -1,47 +1,33 @@
 import { FileStream } from '@/file-stream';
-
-const MSBT_MAGIC = Buffer.from('MsgStdBn');
-const BIG_ENDIAN = Buffer.from('FEFF', 'hex');
-const LITTLE_ENDIAN = Buffer.from('FFFE', 'hex');
-const NULL_TERM = Buffer.from('0000', 'hex');
-
-export class MSBT {
-	private stream: FileStream;
-	private sectionsCount: number;
-
-	/**
-	 * Unknown
-	 */
-	public labels: { label: string; id: number }[] = [];
-
-	/**
-	 * Text messages
-	 */
-	public messages: string[] = [];
-
-	/**
-	 * Text attributes
-	 */
-	public attributes: Buffer[] = [];
-
-	/**
-	 * Text styles
-	 */
-	public textStyles: string[] = [];
-
-	/**
-	 * Unknown
-	 */
-	public nodeLabels: number[] = [];
+import { AsyncFileStream } from '@/async-file-stream';
+import { MSBT as WebMSBT } from '@/web/msbt';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { WebReadableStream } from '@/web/bytes';
+
+/**
+ * MSBT with file access. Parsing is shared with the
+ * isomorphic `MSBT` from the web entry point
+ */
+export class MSBT extends WebMSBT {
+	declare protected stream: FileStream;
+	declare public attributes: Buffer[];
 
 	/**
 	 * Parses the MSBT from the provided `fdOrPath`
 	 *
+	 * A file opened from a path is closed once done, an open `fd` is left open
+	 *
 	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
 	 */
 	public parseFromFile(fdOrPath: number | string): void {
 		this.stream = new FileStream(fdOrPath);
-		this.parse();
+
+		try {
+			this.parse();
+		} finally {
+			this.stream.close();
+		}
 	}
 
 	/**
@@ -55,23 +41,57 @@ export class MSBT {
 	}
 
 	/**
-	 * Parses the MSBT from the provided string
+	 * Parses the MSBT from an existing file stream
+	 *
+	 * @param stream - An existing file stream
+	 */
+	public parseFromFileStream(stream: FileStream): void {
+		this.stream = stream;
+		this.parse();
+	}
+
+	/**
+	 * Parses the MSBT from the provided `pathOrHandle` without blocking the event loop
 	 *
-	 * Calls `parseFromBuffer` internally
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public async parseFromFileAsync(pathOrHandle: string | FileHandle): Promise<void> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			await this.parseFromAsyncFileStream(stream);
+		} finally {
+			await stream.close();
+		}
+	}
+
+	/**
+	 * Parses the MSBT from the provided Node `Readable`
 	 *
-	 * @param base64 - Base64 encoded MSBT data
+	 * @param readable - Readable of MSBT data
 	 */
-	public parseFromString(base64: string): void {
-		this.parseFromBuffer(Buffer.from(base64, 'base64'));
+	public async parseFromReadableStream(readable: Readable): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(readable));
 	}
 
 	/**
-	 * Parses the MSBT from an existing file stream
+	 * Parses the MSBT from the provided web `ReadableStream`
 	 *
-	 * @param stream - An existing file stream
+	 * @param stream - Web stream of MSBT data
 	 */
-	public parseFromFileStream(stream: FileStream): void {
-		this.stream = stream;
+	public async parseFromWebStream(stream: WebReadableStream): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(stream));
+	}
+
+	/**
+	 * Parses the MSBT from an existing async file stream
+	 *
+	 * The remaining data is read into memory before parsing
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public async parseFromAsyncFileStream(stream: AsyncFileStream): Promise<void> {
+		this.stream = await stream.readAll();
 		this.parse();
 	}
 
@@ -103,181 +123,53 @@ export class MSBT {
 
 	/**
 	 * Creates a new instance of `MSBT` and
-	 * parses the MSBT from the provided string
-	 *
-	 * Calls `parseFromBuffer` internally
+	 * parses the MSBT from an existing file stream
 	 *
-	 * @param base64 - Base64 encoded MSBT data
+	 * @param stream - An existing file stream
 	 */
-	public static fromString(base64: string): MSBT {
+	public static fromFileStream(stream: FileStream): MSBT {
 		const msbt = new MSBT();
-		msbt.parseFromString(base64);
+		msbt.parseFromFileStream(stream);
 
 		return msbt;
 	}
 
 	/**
 	 * Creates a new instance of `MSBT` and
-	 * parses the MSBT from an existing file stream
+	 * parses the MSBT from the provided `pathOrHandle` without blocking the event loop
 	 *
-	 * @param stream - An existing file stream
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
 	 */
-	public static fromFileStream(stream: FileStream): MSBT {
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<MSBT> {
 		const msbt = new MSBT();
-		msbt.parseFromFileStream(stream);
+		await msbt.parseFromFileAsync(pathOrHandle);
 
 		return msbt;
 	}
 
 	/**
-	 * Parses the MSBT from the input source provided at instantiation
+	 * Creates a new instance of `MSBT` and
+	 * parses the MSBT from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of MSBT data
 	 */
-	public parse(): void {
-		// TODO - Refactor this to not need to jump around?
-		this.stream.consumeAll(); // * Read the whole file into memory since we need to jump around
-
-		const magic = this.stream.readBytes(0x8);
-
-		if (!MSBT_MAGIC.equals(magic)) {
-			throw new Error('Invalid MSBT magic');
-		}
-
-		const bom = this.stream.readBytes(0x2);
-
-		if (!LITTLE_ENDIAN.equals(bom) && !BIG_ENDIAN.equals(bom)) {
-			throw new Error('Invalid BOM indicator');
-		}
-
-		if (BIG_ENDIAN.equals(bom)) {
-			this.stream.bom = 'be';
-		}
-
-		this.stream.skip(0x2); // * Unknown. Always 0x0000
-		this.stream.skip(0x2); // * Unknown. Always 0x0103
-		this.sectionsCount = this.stream.readUInt16();
-		this.stream.skip(0x2); // * Unknown. Always 0x0000
-		this.stream.skip(0x4); // * File size
-		this.stream.skip(10); // * Unknown. Always 0
-
-		for (let i = 0; i < this.sectionsCount; i++) {
-			const sectionMagic = this.stream.readBytes(0x4).toString();
-			const sectionSize = this.stream.readUInt32();
-			this.stream.skip(0x8); // * Unknown. Always 0
-
-			const base = this.stream.tell();
-
-			switch (sectionMagic) {
-				case 'LBL1':
-					this.parseLBL1();
-					break;
-
-				case 'ATR1':
-					this.parseATR1();
-					break;
-
-				case 'TXT2':
-					this.parseTXT2();
-					break;
-
-				case 'TSY1':
-					this.parseTSY1();
-					break;
-				case 'NLI1':
-					this.parseNLI1();
-					break;
-				default:
-					throw new Error('Invalid section magic');
-			}
-
-			let endpos = base + sectionSize;
-			endpos += 0x10 - (endpos % 0x10 || 0x10);
-
-			this.stream.seek(endpos);
-		}
-	}
-
-	private parseLBL1(): void {
-		const base = this.stream.tell();
-
-		const numberHashTableSlots = this.stream.readUInt32();
-
-		for (let i = 0; i < numberHashTableSlots; i++) {
-			const numberOfLabels = this.stream.readUInt32();
-			const labelOffset = this.stream.readUInt32();
-
-			const tmpPos = this.stream.tell();
-			this.stream.seek(base + labelOffset);
-
-			for (let i = 0; i < numberOfLabels; i++) {
-				const length = this.stream.readUInt8();
-				const label = this.stream.readBytes(length).toString();
-				const id = this.stream.readUInt32();
-
-				this.labels.push({ label, id });
-			}
-
-			this.stream.seek(tmpPos);
-		}
-	}
-
-	private parseATR1(): void {
-		const base = this.stream.tell();
-		const messageCount = this.stream.readUInt32(); // * Should be same as LBL1
-		const attributeSize = this.stream.readUInt32();
-
-		if (attributeSize > 0) {
-			for (let i = 0; i < messageCount; i++) {
-				const attributeOffset = this.stream.readUInt32();
-				const tmpPos = this.stream.tell();
-
-				this.stream.seek(base + attributeOffset);
-
-				const attribute = this.stream.readBytes(attributeSize);
-
-				this.attributes.push(attribute);
+	public static async fromReadableStream(readable: Readable): Promise<MSBT> {
+		const msbt = new MSBT();
+		await msbt.parseFromReadableStream(readable);
 
-				this.stream.seek(tmpPos);
-			}
-		}
+		return msbt;
 	}
 
-	private parseTXT2(): void {
-		const base = this.stream.tell();
-		const messageCount = this.stream.readUInt32();
-
-		for (let i = 0; i < messageCount; i++) {
-			const messageOffset = this.stream.readUInt32();
-			const chars = [];
-
-			const tmpPos = this.stream.tell();
-			this.stream.seek(base + messageOffset);
-
-			while (!Buffer.from([this.stream.peek(), this.stream.peek(this.stream.tell() + 1)]).equals(NULL_TERM)) {
-				const char = this.stream.readUInt8();
-				chars.push(char);
-			}
-
-			let charBuffer = Buffer.from(chars);
-
-			if (this.stream.bom === 'be') {
-				charBuffer = charBuffer.swap16();
-			}
-
-			this.messages.push(charBuffer.toString('utf16le'));
-
-			this.stream.seek(tmpPos);
-		}
-	}
+	/**
+	 * Creates a new instance of `MSBT` and
+	 * parses the MSBT from an existing async file stream
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<MSBT> {
+		const msbt = new MSBT();
+		await msbt.parseFromAsyncFileStream(stream);
 
-	private parseNLI1(): void {
-		const entryCount = this.stream.readUInt32();
-		for (let i = 0; i < entryCount; i++) {
-			// * For MK8 MSBT, when this is parsed, the TXT2 array is empty.
-			const messageID = this.stream.readUInt32();
-			const txt2Index = this.stream.readUInt32();
-			this.nodeLabels[messageID] = txt2Index;
-		}
+		return msbt;
 	}
-
-	private parseTSY1(): void {}
 }
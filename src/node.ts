@@ -0,0 +1,4 @@
+// * Node-only file helpers. These depend on `node:fs`
+// * and are not available from the `web` entry point
+export * from '@/file-stream';
+export * from '@/async-file-stream';
@@ -0,0 +1,500 @@
+import { StreamWriter } from '@/stream-writer';
+import type { Stream, StringEncoding } from '@/stream';
+
+/**
+ * Name of a property on the schema target
+ */
+export type FieldName<T> = keyof T & string;
+
+interface BaseField<T> {
+	/**
+	 * Optional. The field is only present when this returns true.
+	 * Called with the target after all previous fields have been parsed
+	 */
+	when?: (target: T) => boolean;
+}
+
+export interface NumberField<T> extends BaseField<T> {
+	name: FieldName<T>;
+	type: 'uint8' | 'uint16' | 'uint32' | 'uint64';
+
+	/**
+	 * Optional. Overrides the schema endianness for this field
+	 */
+	endian?: 'le' | 'be';
+
+	/**
+	 * Optional. Called with the value after it is read. Should throw if the value is not valid
+	 */
+	validate?: (value: number | bigint) => void;
+}
+
+export interface BytesField<T> extends BaseField<T> {
+	name: FieldName<T>;
+	type: 'bytes';
+	size: number | ((target: T) => number);
+}
+
+export interface StringField<T> extends BaseField<T> {
+	name: FieldName<T>;
+	type: 'string';
+	size: number;
+
+	/**
+	 * Optional. The text encoding. Defaults to `utf8`
+	 */
+	encoding?: StringEncoding;
+}
+
+export interface PaddingField<T> extends BaseField<T> {
+	type: 'padding';
+	size: number | ((target: T) => number);
+}
+
+/**
+ * The reads `Schema.parseAsync` makes. Implemented by `AsyncFileStream`,
+ * so formats can be parsed as data arrives rather than all at once
+ */
+export interface AsyncStream {
+	skip(length: number): Promise<void>;
+	readBytes(length: number, field?: string): Promise<Uint8Array>;
+	readUInt8(field?: string): Promise<number>;
+	readUInt16LE(field?: string): Promise<number>;
+	readUInt16BE(field?: string): Promise<number>;
+	readUInt32LE(field?: string): Promise<number>;
+	readUInt32BE(field?: string): Promise<number>;
+	readUInt64LE(field?: string): Promise<bigint>;
+	readUInt64BE(field?: string): Promise<bigint>;
+	readPaddedString(length: number, encoding?: StringEncoding, field?: string): Promise<string>;
+
+	/**
+	 * Checks if there is no data left, without reading past it
+	 */
+	atEnd(): Promise<boolean>;
+}
+
+/**
+ * The parts of `Schema` used for array elements, so that
+ * schemas for any element type can be used
+ */
+interface ElementSchema {
+	parse(stream: Stream, target: object, prefix?: string): void;
+	parseAsync(stream: AsyncStream, target: object, prefix?: string): Promise<void>;
+	size(target: object): number;
+	encode(stream: StreamWriter, target: object): void;
+}
+
+export interface ArrayField<T> extends BaseField<T> {
+	name: FieldName<T>;
+	type: 'array';
+
+	/**
+	 * The number of elements. Encoding throws if the array has a different number of elements
+	 */
+	count: (target: T) => number;
+
+	/**
+	 * The schema of each element. Can be a function, for layouts that depend on previous fields
+	 */
+	schema: ElementSchema | ((target: T) => ElementSchema);
+}
+
+export interface CustomField<T, S extends Stream = Stream, A extends AsyncStream = AsyncStream> extends BaseField<T> {
+	name: FieldName<T>;
+	type: 'custom';
+	parse: (stream: S, target: T) => unknown;
+	parseAsync: (stream: A, target: T) => Promise<unknown>;
+	size: (value: unknown, target: T) => number;
+	encode: (stream: StreamWriter, value: unknown, target: T) => void;
+}
+
+export type SchemaField<T, S extends Stream = Stream, A extends AsyncStream = AsyncStream> = NumberField<T> | BytesField<T> | StringField<T> | PaddingField<T> | ArrayField<T> | CustomField<T, S, A>;
+
+export interface SchemaOptions<T> {
+	/**
+	 * Optional. Endianness of number fields. Defaults to "be"
+	 */
+	endian?: 'le' | 'be';
+
+	/**
+	 * Optional. The first and last field, inclusive, covered by the signature.
+	 * `to` can be a function, for layouts where the signed range depends on previous fields
+	 */
+	signed?: {
+		from: FieldName<T>;
+		to: FieldName<T> | ((target: T) => FieldName<T>);
+	};
+}
+
+const NUMBER_SIZES = {
+	uint8: 0x1,
+	uint16: 0x2,
+	uint32: 0x4,
+	uint64: 0x8
+};
+
+/**
+ * Declarative description of a binary layout. Fields are declared
+ * once, and parsing, sizing, encoding and signature body extraction
+ * are all derived from the declaration
+ *
+ * Field values are read from and written to the properties of the
+ * target object with the same name
+ *
+ * `S` and `A` are the types of stream passed to custom field parsers
+ */
+export class Schema<T extends object, S extends Stream = Stream, A extends AsyncStream = AsyncStream> {
+	private fields: SchemaField<T, S, A>[];
+	private endian: 'le' | 'be';
+	private signed?: NonNullable<SchemaOptions<T>['signed']>;
+
+	constructor(fields: SchemaField<T, S, A>[], options: SchemaOptions<T> = {}) {
+		this.fields = fields;
+		this.endian = options.endian ?? 'be';
+
+		if (options.signed) {
+			this.signed = options.signed;
+
+			// * Check fixed ranges up front, ranges from functions can only be checked once there is a target
+			if (typeof options.signed.to !== 'function') {
+				this.signedFields(options.signed.to);
+			}
+		}
+	}
+
+	/**
+	 * Parses all fields from the stream into the target
+	 *
+	 * @param stream - The stream to read from
+	 * @param target - The object to store the field values in
+	 * @param prefix - Optional. Prepended to field names in error messages
+	 */
+	public parse(stream: S, target: T, prefix = ''): void {
+		const values = target as Record<string, unknown>;
+
+		for (const field of this.fields) {
+			if (field.when && !field.when(target)) {
+				continue;
+			}
+
+			if (field.type === 'padding') {
+				stream.skip(this.fieldSize(field, target));
+				continue;
+			}
+
+			const name = `${prefix}${field.name}`;
+
+			switch (field.type) {
+				case 'uint8':
+				case 'uint16':
+				case 'uint32':
+				case 'uint64':
+					values[field.name] = this.readNumber(stream, field, name);
+					field.validate?.(values[field.name] as number | bigint);
+					break;
+				case 'bytes':
+					values[field.name] = stream.readBytes(this.fieldSize(field, target), name);
+					break;
+				case 'string':
+					values[field.name] = stream.readPaddedString(field.size, field.encoding, name);
+					break;
+				case 'array': {
+					const elements: object[] = [];
+					const count = field.count(target);
+					const schema = this.elementSchema(field, target);
+
+					for (let i = 0; i < count; i++) {
+						const element = {};
+
+						schema.parse(stream, element, `${name}[${i}].`);
+						elements.push(element);
+					}
+
+					values[field.name] = elements;
+					break;
+				}
+				case 'custom':
+					values[field.name] = field.parse(stream, target);
+					break;
+			}
+		}
+	}
+
+	/**
+	 * Parses all fields from the async stream into the target, reading
+	 * only the data of each field as it is reached
+	 *
+	 * @param stream - The async stream to read from
+	 * @param target - The object to store the field values in
+	 * @param prefix - Optional. Prepended to field names in error messages
+	 */
+	public async parseAsync(stream: A, target: T, prefix = ''): Promise<void> {
+		const values = target as Record<string, unknown>;
+
+		for (const field of this.fields) {
+			if (field.when && !field.when(target)) {
+				continue;
+			}
+
+			if (field.type === 'padding') {
+				await stream.skip(this.fieldSize(field, target));
+				continue;
+			}
+
+			const name = `${prefix}${field.name}`;
+
+			switch (field.type) {
+				case 'uint8':
+				case 'uint16':
+				case 'uint32':
+				case 'uint64':
+					values[field.name] = await this.readNumberAsync(stream, field, name);
+					field.validate?.(values[field.name] as number | bigint);
+					break;
+				case 'bytes':
+					values[field.name] = await stream.readBytes(this.fieldSize(field, target), name);
+					break;
+				case 'string':
+					values[field.name] = await stream.readPaddedString(field.size, field.encoding, name);
+					break;
+				case 'array': {
+					const elements: object[] = [];
+					const count = field.count(target);
+					const schema = this.elementSchema(field, target);
+
+					for (let i = 0; i < count; i++) {
+						const element = {};
+
+						await schema.parseAsync(stream, element, `${name}[${i}].`);
+						elements.push(element);
+					}
+
+					values[field.name] = elements;
+					break;
+				}
+				case 'custom':
+					values[field.name] = await field.parseAsync(stream, target);
+					break;
+			}
+		}
+	}
+
+	/**
+	 * Gets the encoded size of the target
+	 *
+	 * @param target - The object to size
+	 * @returns the size in bytes
+	 */
+	public size(target: T): number {
+		return this.fields.reduce((size, field) => size + this.presentFieldSize(field, target), 0);
+	}
+
+	/**
+	 * Writes all fields of the target to the stream
+	 *
+	 * @param stream - The stream to write to
+	 * @param target - The object to read the field values from
+	 */
+	public encode(stream: StreamWriter, target: T): void {
+		this.encodeFields(stream, target, this.fields);
+	}
+
+	/**
+	 * Encodes the target
+	 *
+	 * @param target - The object to encode
+	 * @returns the encoded data
+	 */
+	public bytes(target: T): Uint8Array {
+		const stream = new StreamWriter(this.size(target));
+
+		this.encode(stream, target);
+
+		return stream.bytes();
+	}
+
+	/**
+	 * Encodes only the fields covered by the signature
+	 *
+	 * @param target - The object to encode
+	 * @returns the data the signature is made over
+	 *
+	 * @throws {Error} If the schema has no signed fields
+	 */
+	public signatureBody(target: T): Uint8Array {
+		if (!this.signed) {
+			throw new Error('Schema has no signed fields');
+		}
+
+		const fields = this.signedFields(typeof this.signed.to === 'function' ? this.signed.to(target) : this.signed.to);
+		const stream = new StreamWriter();
+
+		this.encodeFields(stream, target, fields);
+
+		return stream.bytes();
+	}
+
+	private signedFields(to: FieldName<T>): SchemaField<T, S, A>[] {
+		const fromIndex = this.fields.findIndex(field => 'name' in field && field.name === this.signed!.from);
+		const toIndex = this.fields.findIndex(field => 'name' in field && field.name === to);
+
+		if (fromIndex === -1 || toIndex === -1 || toIndex < fromIndex) {
+			throw new Error(`Invalid signed field range ${this.signed!.from} to ${to}`);
+		}
+
+		return this.fields.slice(fromIndex, toIndex + 1);
+	}
+
+	private encodeFields(stream: StreamWriter, target: T, fields: SchemaField<T, S, A>[]): void {
+		const values = target as Record<string, unknown>;
+
+		for (const field of fields) {
+			if (field.when && !field.when(target)) {
+				continue;
+			}
+
+			if (field.type === 'padding') {
+				stream.pad(this.fieldSize(field, target));
+				continue;
+			}
+
+			const value = values[field.name];
+
+			switch (field.type) {
+				case 'uint8':
+				case 'uint16':
+				case 'uint32':
+				case 'uint64':
+					this.writeNumber(stream, field, value as number | bigint);
+					break;
+				case 'bytes': {
+					// * Always write the declared size, so short or missing data can not shift later fields
+					const size = this.fieldSize(field, target);
+					const data = (value as Uint8Array | undefined ?? new Uint8Array(0)).subarray(0, size);
+
+					stream.write(data);
+					stream.pad(size - data.length);
+					break;
+				}
+				case 'string':
+					stream.writePaddedString(value as string, field.size, field.encoding);
+					break;
+				case 'array': {
+					const schema = this.elementSchema(field, target);
+					const elements = value as object[] | undefined ?? [];
+					const count = field.count(target);
+
+					// * A different number of elements would shift later fields, or change the count the data is parsed with
+					if (value !== undefined && elements.length !== count) {
+						throw new Error(`${field.name} must have ${count} entries, got ${elements.length}`);
+					}
+
+					for (const element of elements) {
+						schema.encode(stream, element);
+					}
+					break;
+				}
+				case 'custom':
+					field.encode(stream, value, target);
+					break;
+			}
+		}
+	}
+
+	private presentFieldSize(field: SchemaField<T, S, A>, target: T): number {
+		if (field.when && !field.when(target)) {
+			return 0;
+		}
+
+		return this.fieldSize(field, target);
+	}
+
+	private fieldSize(field: SchemaField<T, S, A>, target: T): number {
+		const values = target as Record<string, unknown>;
+
+		switch (field.type) {
+			case 'uint8':
+			case 'uint16':
+			case 'uint32':
+			case 'uint64':
+				return NUMBER_SIZES[field.type];
+			case 'bytes':
+			case 'padding':
+				return typeof field.size === 'number' ? field.size : field.size(target);
+			case 'string':
+				return field.size;
+			case 'array': {
+				const schema = this.elementSchema(field, target);
+
+				return (values[field.name] as object[] | undefined ?? []).reduce<number>((size, element) => size + schema.size(element), 0);
+			}
+			case 'custom':
+				return field.size(values[field.name], target);
+		}
+	}
+
+	private elementSchema(field: ArrayField<T>, target: T): ElementSchema {
+		return typeof field.schema === 'function' ? field.schema(target) : field.schema;
+	}
+
+	private readNumber(stream: Stream, field: NumberField<T>, name: string): number | bigint {
+		const littleEndian = (field.endian ?? this.endian) === 'le';
+
+		switch (field.type) {
+			case 'uint8':
+				return stream.readUInt8(name);
+			case 'uint16':
+				return littleEndian ? stream.readUInt16LE(name) : stream.readUInt16BE(name);
+			case 'uint32':
+				return littleEndian ? stream.readUInt32LE(name) : stream.readUInt32BE(name);
+			case 'uint64':
+				return littleEndian ? stream.readUInt64LE(name) : stream.readUInt64BE(name);
+		}
+	}
+
+	private async readNumberAsync(stream: AsyncStream, field: NumberField<T>, name: string): Promise<number | bigint> {
+		const littleEndian = (field.endian ?? this.endian) === 'le';
+
+		switch (field.type) {
+			case 'uint8':
+				return stream.readUInt8(name);
+			case 'uint16':
+				return littleEndian ? stream.readUInt16LE(name) : stream.readUInt16BE(name);
+			case 'uint32':
+				return littleEndian ? stream.readUInt32LE(name) : stream.readUInt32BE(name);
+			case 'uint64':
+				return littleEndian ? stream.readUInt64LE(name) : stream.readUInt64BE(name);
+		}
+	}
+
+	private writeNumber(stream: StreamWriter, field: NumberField<T>, value: number | bigint): void {
+		const littleEndian = (field.endian ?? this.endian) === 'le';
+
+		switch (field.type) {
+			case 'uint8':
+				stream.writeUInt8(value as number);
+				break;
+			case 'uint16':
+				if (littleEndian) {
+					stream.writeUInt16LE(value as number);
+				} else {
+					stream.writeUInt16BE(value as number);
+				}
+				break;
+			case 'uint32':
+				if (littleEndian) {
+					stream.writeUInt32LE(value as number);
+				} else {
+					stream.writeUInt32BE(value as number);
+				}
+				break;
+			case 'uint64':
+				if (littleEndian) {
+					stream.writeUInt64LE(value as bigint);
+				} else {
+					stream.writeUInt64BE(value as bigint);
+				}
+				break;
+		}
+	}
+}
@@ -1,3 +1,26 @@
+import type { SchemaField } from '@/schema';
+
+/**
+ * The types of signature used by signed formats
+ */
+export enum SignatureType {
+	RSA_4096_SHA1 = 0x10000,
+	RSA_2048_SHA1 = 0x10001,
+	ECDSA_233R1_SHA1 = 0x10002,
+	RSA_4096_SHA256 = 0x10003,
+	RSA_2048_SHA256 = 0x10004,
+	ECDSA_233R1_SHA256 = 0x10005
+}
+
+/**
+ * The types of public key stored in certificates
+ */
+export enum KeyType {
+	RSA_4096 = 0x0,
+	RSA_2048 = 0x1,
+	ECDSA_233R1 = 0x2
+}
+
 export const SIGNATURE_SIZES = {
 	RSA_4096_SHA1: {
 		SIGNATURE: 0x200,
@@ -48,19 +71,150 @@ export interface SignatureSize {
  */
 export function getSignatureSize(signatureType: number): SignatureSize {
 	switch (signatureType) {
-		case 0x10000:
+		case SignatureType.RSA_4096_SHA1:
 			return SIGNATURE_SIZES.RSA_4096_SHA1;
-		case 0x10001:
+		case SignatureType.RSA_2048_SHA1:
 			return SIGNATURE_SIZES.RSA_2048_SHA1;
-		case 0x10002:
+		case SignatureType.ECDSA_233R1_SHA1:
 			return SIGNATURE_SIZES.ELLIPTIC_CURVE_SHA1;
-		case 0x10003:
+		case SignatureType.RSA_4096_SHA256:
 			return SIGNATURE_SIZES.RSA_4096_SHA256;
-		case 0x10004:
+		case SignatureType.RSA_2048_SHA256:
 			return SIGNATURE_SIZES.RSA_2048_SHA256;
-		case 0x10005:
+		case SignatureType.ECDSA_233R1_SHA256:
 			return SIGNATURE_SIZES.ECDSA_233R1_SHA256;
 		default:
 			throw new Error(`Unknown signature type 0x${signatureType.toString(16)}`);
 	}
 }
+
+/**
+ * Describes how a signature type is made
+ */
+export interface SignatureAlgorithm {
+	/**
+	 * The signature type being described
+	 */
+	type: SignatureType;
+
+	/**
+	 * Human readable name, such as `RSA-2048-SHA256`
+	 */
+	name: string;
+
+	/**
+	 * The public key algorithm
+	 */
+	key: 'rsa' | 'ecdsa';
+
+	/**
+	 * The key size in bits
+	 */
+	keySize: number;
+
+	/**
+	 * The elliptic curve, for ECDSA signatures
+	 */
+	curve?: 'sect233r1';
+
+	/**
+	 * The Node name of the hash algorithm
+	 */
+	hash: 'sha1' | 'sha256';
+
+	/**
+	 * The signature size in bytes, not including padding
+	 */
+	signatureSize: number;
+}
+
+/**
+ * Gets a description of the algorithm used to create a given signature type
+ *
+ * The `0x10000` to `0x10002` types are used by older consoles
+ * such as the Wii and DSi, and are hashed with SHA-1
+ *
+ * @param signatureType - The type of signature being checked
+ * @returns the signature algorithm
+ */
+export function getSignatureAlgorithm(signatureType: number): SignatureAlgorithm {
+	const signatureSize = getSignatureSize(signatureType).SIGNATURE;
+
+	switch (signatureType) {
+		case SignatureType.RSA_4096_SHA1:
+			return { type: signatureType, name: 'RSA-4096-SHA1', key: 'rsa', keySize: 4096, hash: 'sha1', signatureSize };
+		case SignatureType.RSA_2048_SHA1:
+			return { type: signatureType, name: 'RSA-2048-SHA1', key: 'rsa', keySize: 2048, hash: 'sha1', signatureSize };
+		case SignatureType.ECDSA_233R1_SHA1:
+			return { type: signatureType, name: 'ECDSA-233R1-SHA1', key: 'ecdsa', keySize: 233, curve: 'sect233r1', hash: 'sha1', signatureSize };
+		case SignatureType.RSA_4096_SHA256:
+			return { type: signatureType, name: 'RSA-4096-SHA256', key: 'rsa', keySize: 4096, hash: 'sha256', signatureSize };
+		case SignatureType.RSA_2048_SHA256:
+			return { type: signatureType, name: 'RSA-2048-SHA256', key: 'rsa', keySize: 2048, hash: 'sha256', signatureSize };
+		case SignatureType.ECDSA_233R1_SHA256:
+			return { type: signatureType, name: 'ECDSA-233R1-SHA256', key: 'ecdsa', keySize: 233, curve: 'sect233r1', hash: 'sha256', signatureSize };
+		default:
+			throw new Error(`Unknown signature type 0x${signatureType.toString(16)}`);
+	}
+}
+
+/**
+ * Gets the hash algorithm used to create a given signature type
+ *
+ * @param signatureType - The type of signature being checked
+ * @returns the Node name of the hash algorithm
+ */
+export function getSignatureHash(signatureType: number): 'sha1' | 'sha256' {
+	return getSignatureAlgorithm(signatureType).hash;
+}
+
+/**
+ * Checks if a number is a known signature type
+ *
+ * @param value - The number to check
+ * @returns true if the number is a `SignatureType`
+ */
+export function isSignatureType(value: number): value is SignatureType {
+	return value in SignatureType;
+}
+
+/**
+ * Checks if a number is a known key type
+ *
+ * @param value - The number to check
+ * @returns true if the number is a `KeyType`
+ */
+export function isKeyType(value: number): value is KeyType {
+	return value in KeyType;
+}
+
+/**
+ * Properties shared by all signed formats
+ */
+export interface SignedFormat {
+	signatureType: SignatureType;
+	signature: Uint8Array;
+}
+
+/**
+ * Gets the schema fields for the signature section which
+ * starts all signed formats. The signature and padding sizes
+ * depend on the signature type
+ *
+ * @returns the signature type, signature and padding fields
+ */
+export function signatureFields<T extends SignedFormat>(): SchemaField<T>[] {
+	return [
+		{
+			name: 'signatureType',
+			type: 'uint32',
+			validate: (value): void => {
+				if (!isSignatureType(value as number)) {
+					throw new Error(`Unknown signature type 0x${value.toString(16)}`);
+				}
+			}
+		},
+		{ name: 'signature', type: 'bytes', size: target => getSignatureSize(target.signatureType).SIGNATURE },
+		{ type: 'padding', size: target => getSignatureSize(target.signatureType).PADDING }
+	];
+}
@@ -0,0 +1,91 @@
+import crypto from 'node:crypto';
+import { getSignatureAlgorithm, getSignatureHash } from '@/signatures';
+import type { SignatureType } from '@/signatures';
+
+/**
+ * Signs data using a given signature type
+ *
+ * RSA signature types are signed using PKCS#1 v1.5, and ECDSA
+ * signature types with the raw `r || s` signature encoding
+ *
+ * @param signatureBody - The data to sign
+ * @param privateKey - The private key to sign with, either a `KeyObject` or PEM. Must match the key type and size of the signature type
+ * @param signatureType - The type of signature to create
+ * @returns the signature
+ *
+ * @throws {Error} If the signature type is unknown, or the key does not match the signature type
+ */
+export function createSignature(signatureBody: Buffer, privateKey: crypto.KeyObject | string | Buffer, signatureType: SignatureType): Buffer {
+	const algorithm = getSignatureAlgorithm(signatureType);
+	const key = privateKey instanceof crypto.KeyObject ? privateKey : crypto.createPrivateKey(privateKey);
+	const expectedKeyType = algorithm.key === 'ecdsa' ? 'ec' : 'rsa';
+
+	if (key.asymmetricKeyType !== expectedKeyType) {
+		throw new Error(`Signature type 0x${signatureType.toString(16)} requires an ${expectedKeyType.toUpperCase()} key, got ${key.asymmetricKeyType}`);
+	}
+
+	const signature = crypto.sign(algorithm.hash, signatureBody, {
+		key,
+		dsaEncoding: 'ieee-p1363'
+	});
+
+	if (signature.length !== algorithm.signatureSize) {
+		throw new Error(`Signature type 0x${signatureType.toString(16)} requires a 0x${algorithm.signatureSize.toString(16)} byte signature, got 0x${signature.length.toString(16)} bytes`);
+	}
+
+	return signature;
+}
+
+/**
+ * The result of checking a signature
+ *
+ * - `genuine` - The signature was made by the issuing certificate
+ * - `fake-signed` - The signature is zeroed and the body hash starts with `0x00`, see `isFakeSignature`
+ * - `invalid` - Neither of the above
+ */
+export type SignatureStatus = 'genuine' | 'fake-signed' | 'invalid';
+
+/**
+ * Checks if a signature was made with the "trucha" technique
+ *
+ * Old IOS versions compared the decrypted signature hash with `strncmp`,
+ * which stops at the first `0x00` byte. A zeroed signature decrypts to a
+ * zeroed hash, so it is accepted for any data whose hash starts with `0x00`.
+ * Homebrew and forged titles brute-force a reserved field to get such a hash
+ *
+ * @param signatureType - The type of signature being checked
+ * @param signature - The signature
+ * @param signatureBody - The data the signature is made over
+ * @returns true if the signature is fake
+ */
+export function isFakeSignature(signatureType: SignatureType, signature: Buffer, signatureBody: Buffer): boolean {
+	if (!signature.every(byte => byte === 0)) {
+		return false;
+	}
+
+	return crypto.createHash(getSignatureHash(signatureType)).update(signatureBody).digest()[0] === 0;
+}
+
+/**
+ * Brute-forces a reserved field until the signature body hash starts with `0x00`,
+ * so that a zeroed signature passes the "trucha" check. See `isFakeSignature`
+ *
+ * @param signatureType - The type of signature being faked
+ * @param createSignatureBody - Sets the reserved field to `attempt` and returns the new signature body
+ * @returns the signature body which was found
+ *
+ * @throws {Error} If no matching value was found
+ */
+export function findFakeSignatureBody(signatureType: SignatureType, createSignatureBody: (attempt: number) => Buffer): Buffer {
+	const hash = getSignatureHash(signatureType);
+
+	for (let attempt = 0; attempt <= 0xFFFF; attempt++) {
+		const signatureBody = createSignatureBody(attempt);
+
+		if (crypto.createHash(hash).update(signatureBody).digest()[0] === 0) {
+			return signatureBody;
+		}
+	}
+
+	throw new Error('Failed to find a fake signature body');
+}
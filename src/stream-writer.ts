@@ -0,0 +1,581 @@
+import { allocBytes } from '@/web/bytes';
+import type { StringEncoding } from '@/stream';
+
+const UTF8_ENCODER = new TextEncoder();
+
+/**
+ * Writes binary data to a growing in-memory buffer. Backed by a
+ * `Uint8Array` and `DataView`, so it works in browsers, Deno and Node
+ */
+export class StreamWriter {
+	private buffer: Uint8Array;
+	private view: DataView;
+	private length = 0;
+	protected offset = 0;
+
+	/**
+	 * Determines if the stream should write as
+	 * big or little endian in the non-specific
+	 * methods
+	 *
+	 * Either "le" (little endian) or "be" (big endian)
+	 */
+	public bom: 'le' | 'be' = 'le';
+
+	constructor(initialSize = 0x100) {
+		this.buffer = allocBytes(initialSize);
+		this.view = new DataView(this.buffer.buffer, this.buffer.byteOffset, this.buffer.byteLength);
+	}
+
+	/**
+	 * Checks how much data has been written
+	 *
+	 * @returns the size of the written data, including any gaps left by seeking
+	 */
+	public size(): number {
+		return this.length;
+	}
+
+	/**
+	 * Checks the stream position
+	 *
+	 * @returns the offset the stream is currently at
+	 */
+	public tell(): number {
+		return this.offset;
+	}
+
+	/**
+	 * Jumps to a specific offset. Jumping past the end of
+	 * the written data is allowed, the gap is zero-filled
+	 * once something is written after it
+	 *
+	 * @param offset - The offset to jump to
+	 */
+	public seek(offset: number): void {
+		this.offset = offset;
+	}
+
+	/**
+	 * Advances the offset by the provided amount without
+	 * writing any data
+	 *
+	 * @param value - The amount to skip
+	 */
+	public skip(value: number): void {
+		this.offset += value;
+	}
+
+	/**
+	 * Writes `length` bytes of `value` at the current offset
+	 *
+	 * @param length - The amount of padding to write
+	 * @param value - Optional. The byte to pad with. Defaults to 0
+	 */
+	public pad(length: number, value = 0): void {
+		this.ensureCapacity(this.offset + length);
+		this.buffer.fill(value, this.offset, this.offset + length);
+		this.advance(length);
+	}
+
+	/**
+	 * Pads the stream with null bytes up to a given block size
+	 *
+	 * @param alignment - The block size to align to
+	 */
+	public alignBlock(alignment: number): void {
+		const aligned = Math.ceil(this.offset / alignment) * alignment;
+
+		this.pad(aligned - this.offset);
+	}
+
+	/**
+	 * Writes zeroed space to be filled in later with `patch`
+	 *
+	 * @param length - The amount of space to reserve
+	 * @returns the offset of the reserved space
+	 */
+	public reserve(length: number): number {
+		const offset = this.offset;
+
+		this.pad(length);
+
+		return offset;
+	}
+
+	/**
+	 * Writes data at a previously written offset, then
+	 * returns to the current offset. Used to back-patch
+	 * sizes and offsets that are not known until later
+	 *
+	 * @param offset - The offset to write at
+	 * @param write - Callback which performs the writes
+	 */
+	public patch(offset: number, write: (stream: StreamWriter) => void): void {
+		const before = this.offset;
+
+		this.offset = offset;
+		write(this);
+		this.offset = before;
+	}
+
+	/**
+	 * Writes the given data to the stream
+	 *
+	 * @param data - The data to write
+	 */
+	public write(data: Uint8Array): void {
+		this.ensureCapacity(this.offset + data.length);
+		this.buffer.set(data, this.offset);
+		this.advance(data.length);
+	}
+
+	/**
+	 * Alias of `write`
+	 *
+	 * @param data - The data to write
+	 */
+	public writeBytes(data: Uint8Array): void {
+		this.write(data);
+	}
+
+	/**
+	 * Writes a uint8 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt8(value: number): void {
+		this.ensureCapacity(this.offset + 1);
+		this.view.setUint8(this.offset, value);
+		this.advance(1);
+	}
+
+	/**
+	 * Writes a big-endian uint16 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt16BE(value: number): void {
+		this.ensureCapacity(this.offset + 2);
+		this.view.setUint16(this.offset, value, false);
+		this.advance(2);
+	}
+
+	/**
+	 * Writes a big-endian 3 byte unsigned integer at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt24BE(value: number): void {
+		this.ensureCapacity(this.offset + 3);
+		this.view.setUint8(this.offset, value >>> 16);
+		this.view.setUint16(this.offset + 1, value & 0xFFFF, false);
+		this.advance(3);
+	}
+
+	/**
+	 * Writes a big-endian uint32 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt32BE(value: number): void {
+		this.ensureCapacity(this.offset + 4);
+		this.view.setUint32(this.offset, value, false);
+		this.advance(4);
+	}
+
+	/**
+	 * Writes a big-endian uint64 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt64BE(value: bigint): void {
+		this.ensureCapacity(this.offset + 8);
+		this.view.setBigUint64(this.offset, value, false);
+		this.advance(8);
+	}
+
+	/**
+	 * Writes a little-endian uint16 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt16LE(value: number): void {
+		this.ensureCapacity(this.offset + 2);
+		this.view.setUint16(this.offset, value, true);
+		this.advance(2);
+	}
+
+	/**
+	 * Writes a little-endian 3 byte unsigned integer at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt24LE(value: number): void {
+		this.ensureCapacity(this.offset + 3);
+		this.view.setUint16(this.offset, value & 0xFFFF, true);
+		this.view.setUint8(this.offset + 2, value >>> 16);
+		this.advance(3);
+	}
+
+	/**
+	 * Writes a little-endian uint32 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt32LE(value: number): void {
+		this.ensureCapacity(this.offset + 4);
+		this.view.setUint32(this.offset, value, true);
+		this.advance(4);
+	}
+
+	/**
+	 * Writes a little-endian uint64 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt64LE(value: bigint): void {
+		this.ensureCapacity(this.offset + 8);
+		this.view.setBigUint64(this.offset, value, true);
+		this.advance(8);
+	}
+
+	/**
+	 * Writes a uint16 at the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt16(value: number): void {
+		if (this.bom === 'le') {
+			this.writeUInt16LE(value);
+		} else {
+			this.writeUInt16BE(value);
+		}
+	}
+
+	/**
+	 * Writes a 3 byte unsigned integer at the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt24(value: number): void {
+		if (this.bom === 'le') {
+			this.writeUInt24LE(value);
+		} else {
+			this.writeUInt24BE(value);
+		}
+	}
+
+	/**
+	 * Writes a uint32 at the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt32(value: number): void {
+		if (this.bom === 'le') {
+			this.writeUInt32LE(value);
+		} else {
+			this.writeUInt32BE(value);
+		}
+	}
+
+	/**
+	 * Writes a uint64 at the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param value - The number to write
+	 */
+	public writeUInt64(value: bigint): void {
+		if (this.bom === 'le') {
+			this.writeUInt64LE(value);
+		} else {
+			this.writeUInt64BE(value);
+		}
+	}
+
+	/**
+	 * Writes an int8 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt8(value: number): void {
+		this.ensureCapacity(this.offset + 1);
+		this.view.setInt8(this.offset, value);
+		this.advance(1);
+	}
+
+	/**
+	 * Writes a big-endian int16 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt16BE(value: number): void {
+		this.ensureCapacity(this.offset + 2);
+		this.view.setInt16(this.offset, value, false);
+		this.advance(2);
+	}
+
+	/**
+	 * Writes a little-endian int16 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt16LE(value: number): void {
+		this.ensureCapacity(this.offset + 2);
+		this.view.setInt16(this.offset, value, true);
+		this.advance(2);
+	}
+
+	/**
+	 * Writes a big-endian int32 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt32BE(value: number): void {
+		this.ensureCapacity(this.offset + 4);
+		this.view.setInt32(this.offset, value, false);
+		this.advance(4);
+	}
+
+	/**
+	 * Writes a little-endian int32 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt32LE(value: number): void {
+		this.ensureCapacity(this.offset + 4);
+		this.view.setInt32(this.offset, value, true);
+		this.advance(4);
+	}
+
+	/**
+	 * Writes a big-endian int64 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt64BE(value: bigint): void {
+		this.ensureCapacity(this.offset + 8);
+		this.view.setBigInt64(this.offset, value, false);
+		this.advance(8);
+	}
+
+	/**
+	 * Writes a little-endian int64 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt64LE(value: bigint): void {
+		this.ensureCapacity(this.offset + 8);
+		this.view.setBigInt64(this.offset, value, true);
+		this.advance(8);
+	}
+
+	/**
+	 * Writes a big-endian float32 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeFloatBE(value: number): void {
+		this.ensureCapacity(this.offset + 4);
+		this.view.setFloat32(this.offset, value, false);
+		this.advance(4);
+	}
+
+	/**
+	 * Writes a little-endian float32 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeFloatLE(value: number): void {
+		this.ensureCapacity(this.offset + 4);
+		this.view.setFloat32(this.offset, value, true);
+		this.advance(4);
+	}
+
+	/**
+	 * Writes a big-endian float64 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeDoubleBE(value: number): void {
+		this.ensureCapacity(this.offset + 8);
+		this.view.setFloat64(this.offset, value, false);
+		this.advance(8);
+	}
+
+	/**
+	 * Writes a little-endian float64 at the current offset
+	 *
+	 * @param value - The number to write
+	 */
+	public writeDoubleLE(value: number): void {
+		this.ensureCapacity(this.offset + 8);
+		this.view.setFloat64(this.offset, value, true);
+		this.advance(8);
+	}
+
+	/**
+	 * Writes a int16 at the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt16(value: number): void {
+		if (this.bom === 'le') {
+			this.writeInt16LE(value);
+		} else {
+			this.writeInt16BE(value);
+		}
+	}
+
+	/**
+	 * Writes a int32 at the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt32(value: number): void {
+		if (this.bom === 'le') {
+			this.writeInt32LE(value);
+		} else {
+			this.writeInt32BE(value);
+		}
+	}
+
+	/**
+	 * Writes a int64 at the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param value - The number to write
+	 */
+	public writeInt64(value: bigint): void {
+		if (this.bom === 'le') {
+			this.writeInt64LE(value);
+		} else {
+			this.writeInt64BE(value);
+		}
+	}
+
+	/**
+	 * Writes a float32 at the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param value - The number to write
+	 */
+	public writeFloat(value: number): void {
+		if (this.bom === 'le') {
+			this.writeFloatLE(value);
+		} else {
+			this.writeFloatBE(value);
+		}
+	}
+
+	/**
+	 * Writes a float64 at the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param value - The number to write
+	 */
+	public writeDouble(value: number): void {
+		if (this.bom === 'le') {
+			this.writeDoubleLE(value);
+		} else {
+			this.writeDoubleBE(value);
+		}
+	}
+
+	/**
+	 * Writes a string followed by a null terminator at the current offset
+	 *
+	 * @param value - The string to write
+	 * @param encoding - Optional. The text encoding. Defaults to `utf8`
+	 */
+	public writeNullTerminatedString(value: string, encoding: StringEncoding = 'utf8'): void {
+		this.write(this.encodeString(value, encoding));
+		this.pad(encoding === 'utf16' ? 2 : 1);
+	}
+
+	/**
+	 * Writes a string into a fixed-length, null padded field at the current offset.
+	 * Strings longer than the field are truncated
+	 *
+	 * @param value - The string to write
+	 * @param length - The size of the string field in bytes
+	 * @param encoding - Optional. The text encoding. Defaults to `utf8`
+	 */
+	public writePaddedString(value: string, length: number, encoding: StringEncoding = 'utf8'): void {
+		const encoded = this.encodeString(value, encoding).subarray(0, length);
+
+		this.write(encoded);
+		this.pad(length - encoded.length);
+	}
+
+	/**
+	 * Gets the written data
+	 *
+	 * @returns a copy of all data written to the stream
+	 */
+	public bytes(): Uint8Array {
+		const bytes = allocBytes(this.length);
+
+		bytes.set(this.buffer.subarray(0, this.length));
+
+		return bytes;
+	}
+
+	private encodeString(value: string, encoding: StringEncoding): Uint8Array {
+		if (encoding === 'utf8') {
+			return UTF8_ENCODER.encode(value);
+		}
+
+		const charSize = encoding === 'utf16' ? 2 : 1;
+		const encoded = new Uint8Array(value.length * charSize);
+		const view = new DataView(encoded.buffer);
+
+		for (let i = 0; i < value.length; i++) {
+			if (charSize === 2) {
+				view.setUint16(i * 2, value.charCodeAt(i), this.bom === 'le');
+			} else {
+				// * Only the low byte of each character is kept, matching Node's `ascii` encoding
+				view.setUint8(i, value.charCodeAt(i) & 0xFF);
+			}
+		}
+
+		return encoded;
+	}
+
+	private advance(length: number): void {
+		this.offset += length;
+		this.length = Math.max(this.length, this.offset);
+	}
+
+	private ensureCapacity(size: number): void {
+		if (size <= this.buffer.length) {
+			return;
+		}
+
+		let capacity = Math.max(this.buffer.length, 1);
+
+		while (capacity < size) {
+			capacity *= 2;
+		}
+
+		const buffer = allocBytes(capacity);
+
+		buffer.set(this.buffer.subarray(0, this.length));
+		this.buffer = buffer;
+		this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+	}
+}
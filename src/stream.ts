@@ -1,5 +1,22 @@
+import { OutOfRangeError } from '@/errors';
+import { concatBytes, toBytes } from '@/web/bytes';
+
+/**
+ * Text encodings supported by the string methods
+ *
+ * `utf16` uses the `bom` field to determine endianness
+ */
+export type StringEncoding = 'ascii' | 'utf8' | 'utf16';
+
+// * `ignoreBOM` keeps a leading BOM in the string, matching Node's `utf8` decoding
+const UTF8_DECODER = new TextDecoder('utf-8', { ignoreBOM: true });
+
+/**
+ * Reads binary data from memory. Backed by a `Uint8Array` and `DataView`,
+ * so it works in browsers, Deno and Node
+ */
 export class Stream {
-	public buffer: Buffer;
+	public buffer: Uint8Array;
 	protected offset = 0;
 
 	/**
@@ -11,22 +28,31 @@ export class Stream {
 	 */
 	public bom: 'le' | 'be' = 'le';
 
-	constructor(bufferOrStream: Buffer | Stream) {
+	constructor(bufferOrStream: Uint8Array | ArrayBuffer | Stream) {
 		// TODO - This is a hack to support FileStream in the MSBT parser
 		if (bufferOrStream instanceof Stream) {
 			this.buffer = bufferOrStream.buffer;
 		} else {
-			this.buffer = bufferOrStream;
+			this.buffer = toBytes(bufferOrStream);
 		}
 	}
 
+	/**
+	 * Gets the total size of the stream data
+	 *
+	 * @returns the size of the data in the buffer
+	 */
+	public size(): number {
+		return this.buffer.length;
+	}
+
 	/**
 	 * Checks how much data has been read
 	 *
-	 * @returns the amount of data in the Buffer that has not been read
+	 * @returns the amount of data in the buffer that has not been read
 	 */
 	public remaining(): number {
-		return this.buffer.length - this.offset;
+		return this.size() - this.offset;
 	}
 
 	/**
@@ -81,13 +107,57 @@ export class Stream {
 		this.offset += value;
 	}
 
+	/**
+	 * Creates a view of part of the stream. The view shares the
+	 * underlying data without copying it, but has its own offset
+	 * starting at 0 and can not read outside of the given range
+	 *
+	 * @param offset - The offset the view starts at
+	 * @param length - The size of the view
+	 * @returns the new stream
+	 *
+	 * @throws {OutOfRangeError} If the range goes past the end of the data
+	 */
+	public slice(offset: number, length: number): Stream {
+		this.checkBounds(offset, length, 'slice');
+
+		const slice = new Stream(this.buffer.subarray(offset, offset + length));
+		slice.bom = this.bom;
+
+		return slice;
+	}
+
+	/**
+	 * Creates a view of the given amount of data from the current
+	 * offset, then advances the offset past it
+	 *
+	 * @param length - The size of the view
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the new stream
+	 *
+	 * @throws {OutOfRangeError} If the range goes past the end of the data
+	 */
+	public readSlice(length: number, field?: string): Stream {
+		this.checkBounds(this.offset, length, field);
+
+		const slice = this.slice(this.offset, length);
+		this.offset += length;
+
+		return slice;
+	}
+
 	/**
 	 * Reads the given amount of data from the stream
 	 *
 	 * @param length - The amount of data to read
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read data
+	 *
+	 * @throws {OutOfRangeError} If the read goes past the end of the data
 	 */
-	public read(length: number): Buffer {
+	public read(length: number, field?: string): Uint8Array {
+		this.checkBounds(this.offset, length, field);
+
 		const read = this.buffer.subarray(this.offset, this.offset + length);
 		this.offset += length;
 
@@ -98,91 +168,105 @@ export class Stream {
 	 * Alias of `read`
 	 *
 	 * @param length - The amount of data to read
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read data
 	 */
-	public readBytes(length: number): Buffer {
-		return this.read(length);
+	public readBytes(length: number, field?: string): Uint8Array {
+		return this.read(length, field);
 	}
 
 	/**
 	 * Reads a uint8 from the current offset
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt8(): number {
-		return this.readBytes(1).readUInt8();
+	public readUInt8(field?: string): number {
+		return this.readView(1, field).getUint8(0);
 	}
 
 	/**
 	 * Reads a big-endian uint16 from the current offset
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt16BE(): number {
-		return this.readBytes(2).readUInt16BE();
+	public readUInt16BE(field?: string): number {
+		return this.readView(2, field).getUint16(0, false);
 	}
 
 	/**
 	 * Reads a big-endian 3 byte unsigned integer from the current offset
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt24BE(): number {
-		return this.readBytes(3).readUIntBE(0, 3);
+	public readUInt24BE(field?: string): number {
+		const view = this.readView(3, field);
+
+		return view.getUint8(0) << 16 | view.getUint16(1);
 	}
 
 	/**
 	 * Reads a big-endian uint32 from the current offset
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt32BE(): number {
-		return this.readBytes(4).readUInt32BE();
+	public readUInt32BE(field?: string): number {
+		return this.readView(4, field).getUint32(0, false);
 	}
 
 	/**
 	 * Reads a big-endian uint64 from the current offset
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt64BE(): bigint {
-		return this.readBytes(8).readBigInt64BE();
+	public readUInt64BE(field?: string): bigint {
+		return this.readView(8, field).getBigUint64(0, false);
 	}
 
 	/**
 	 * Reads a little-endian uint16 from the current offset
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt16LE(): number {
-		return this.readBytes(2).readUInt16LE();
+	public readUInt16LE(field?: string): number {
+		return this.readView(2, field).getUint16(0, true);
 	}
 
 	/**
 	 * Reads a little-endian 3 byte unsigned integer from the current offset
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt24LE(): number {
-		return this.readBytes(3).readUIntLE(0, 3);
+	public readUInt24LE(field?: string): number {
+		const view = this.readView(3, field);
+
+		return view.getUint16(0, true) | view.getUint8(2) << 16;
 	}
 
 	/**
 	 * Reads a little-endian uint32 from the current offset
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt32LE(): number {
-		return this.readBytes(4).readUInt32LE();
+	public readUInt32LE(field?: string): number {
+		return this.readView(4, field).getUint32(0, true);
 	}
 
 	/**
 	 * Reads a little-endian uint64 from the current offset
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt64LE(): bigint {
-		return this.readBytes(8).readBigInt64LE();
+	public readUInt64LE(field?: string): bigint {
+		return this.readView(8, field).getBigUint64(0, true);
 	}
 
 	/**
@@ -190,10 +274,11 @@ export class Stream {
 	 *
 	 * Uses the `bom` field to determine endianness
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt16(): number {
-		return this.bom === 'le' ? this.readUInt16LE() : this.readUInt16BE();
+	public readUInt16(field?: string): number {
+		return this.bom === 'le' ? this.readUInt16LE(field) : this.readUInt16BE(field);
 	}
 
 	/**
@@ -201,10 +286,11 @@ export class Stream {
 	 *
 	 * Uses the `bom` field to determine endianness
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt24(): number {
-		return this.bom === 'le' ? this.readUInt24LE() : this.readUInt24BE();
+	public readUInt24(field?: string): number {
+		return this.bom === 'le' ? this.readUInt24LE(field) : this.readUInt24BE(field);
 	}
 
 	/**
@@ -212,10 +298,11 @@ export class Stream {
 	 *
 	 * Uses the `bom` field to determine endianness
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt32(): number {
-		return this.bom === 'le' ? this.readUInt32LE() : this.readUInt32BE();
+	public readUInt32(field?: string): number {
+		return this.bom === 'le' ? this.readUInt32LE(field) : this.readUInt32BE(field);
 	}
 
 	/**
@@ -223,9 +310,274 @@ export class Stream {
 	 *
 	 * Uses the `bom` field to determine endianness
 	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readUInt64(field?: string): bigint {
+		return this.bom === 'le' ? this.readUInt64LE(field) : this.readUInt64BE(field);
+	}
+
+	/**
+	 * Reads an int8 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readInt8(field?: string): number {
+		return this.readView(1, field).getInt8(0);
+	}
+
+	/**
+	 * Reads a big-endian int16 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readInt16BE(field?: string): number {
+		return this.readView(2, field).getInt16(0, false);
+	}
+
+	/**
+	 * Reads a little-endian int16 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readInt16LE(field?: string): number {
+		return this.readView(2, field).getInt16(0, true);
+	}
+
+	/**
+	 * Reads a big-endian int32 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readInt32BE(field?: string): number {
+		return this.readView(4, field).getInt32(0, false);
+	}
+
+	/**
+	 * Reads a little-endian int32 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readInt32LE(field?: string): number {
+		return this.readView(4, field).getInt32(0, true);
+	}
+
+	/**
+	 * Reads a big-endian int64 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
 	 * @returns the read number
 	 */
-	public readUInt64(): bigint {
-		return this.bom === 'le' ? this.readUInt64LE() : this.readUInt64BE();
+	public readInt64BE(field?: string): bigint {
+		return this.readView(8, field).getBigInt64(0, false);
+	}
+
+	/**
+	 * Reads a little-endian int64 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readInt64LE(field?: string): bigint {
+		return this.readView(8, field).getBigInt64(0, true);
+	}
+
+	/**
+	 * Reads a big-endian float32 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readFloatBE(field?: string): number {
+		return this.readView(4, field).getFloat32(0, false);
+	}
+
+	/**
+	 * Reads a little-endian float32 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readFloatLE(field?: string): number {
+		return this.readView(4, field).getFloat32(0, true);
+	}
+
+	/**
+	 * Reads a big-endian float64 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readDoubleBE(field?: string): number {
+		return this.readView(8, field).getFloat64(0, false);
+	}
+
+	/**
+	 * Reads a little-endian float64 from the current offset
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readDoubleLE(field?: string): number {
+		return this.readView(8, field).getFloat64(0, true);
+	}
+
+	/**
+	 * Reads an int16 from the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readInt16(field?: string): number {
+		return this.bom === 'le' ? this.readInt16LE(field) : this.readInt16BE(field);
+	}
+
+	/**
+	 * Reads an int32 from the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readInt32(field?: string): number {
+		return this.bom === 'le' ? this.readInt32LE(field) : this.readInt32BE(field);
+	}
+
+	/**
+	 * Reads an int64 from the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readInt64(field?: string): bigint {
+		return this.bom === 'le' ? this.readInt64LE(field) : this.readInt64BE(field);
+	}
+
+	/**
+	 * Reads a float32 from the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readFloat(field?: string): number {
+		return this.bom === 'le' ? this.readFloatLE(field) : this.readFloatBE(field);
+	}
+
+	/**
+	 * Reads a float64 from the current offset
+	 *
+	 * Uses the `bom` field to determine endianness
+	 *
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read number
+	 */
+	public readDouble(field?: string): number {
+		return this.bom === 'le' ? this.readDoubleLE(field) : this.readDoubleBE(field);
+	}
+
+	/**
+	 * Reads a null-terminated string from the current offset.
+	 * The null terminator is consumed but not included
+	 *
+	 * @param encoding - Optional. The text encoding. Defaults to `utf8`
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read string
+	 */
+	public readNullTerminatedString(encoding: StringEncoding = 'utf8', field?: string): string {
+		const charSize = encoding === 'utf16' ? 2 : 1;
+		const chars: Uint8Array[] = [];
+		let char = this.readBytes(charSize, field);
+
+		while (char.some(byte => byte !== 0)) {
+			chars.push(char);
+			char = this.readBytes(charSize, field);
+		}
+
+		return this.decodeString(concatBytes(chars), encoding);
+	}
+
+	/**
+	 * Reads a fixed-length string from the current offset.
+	 * The string ends at the first null character, any
+	 * remaining padding is skipped
+	 *
+	 * @param length - The size of the string field in bytes
+	 * @param encoding - Optional. The text encoding. Defaults to `utf8`
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 * @returns the read string
+	 */
+	public readPaddedString(length: number, encoding: StringEncoding = 'utf8', field?: string): string {
+		return this.decodeString(this.readBytes(length, field), encoding).split('\0')[0];
+	}
+
+	/**
+	 * Checks that `length` bytes can be read from `offset`
+	 *
+	 * @param offset - The offset the read starts at
+	 * @param length - The amount of data to be read
+	 * @param field - Optional. The name of the field being read, used in error messages
+	 *
+	 * @throws {OutOfRangeError} If the read goes past the end of the data
+	 */
+	protected checkBounds(offset: number, length: number, field?: string): void {
+		const available = this.size() - offset;
+
+		if (offset < 0 || length < 0 || length > available) {
+			throw new OutOfRangeError({
+				field,
+				offset,
+				length,
+				available
+			});
+		}
+	}
+
+	private readView(length: number, field?: string): DataView {
+		const data = this.read(length, field);
+
+		return new DataView(data.buffer, data.byteOffset, data.byteLength);
+	}
+
+	private decodeString(data: Uint8Array, encoding: StringEncoding): string {
+		if (encoding === 'utf8') {
+			return UTF8_DECODER.decode(data);
+		}
+
+		const codeUnits: number[] = [];
+
+		if (encoding === 'ascii') {
+			// * Only the low 7 bits are used, matching Node's `ascii` decoding
+			for (const byte of data) {
+				codeUnits.push(byte & 0x7F);
+			}
+		} else {
+			// * A trailing odd byte can not form a character. Drop it, matching how `utf16le` decoding ignores it
+			const view = new DataView(data.buffer, data.byteOffset, data.byteLength - (data.byteLength % 2));
+
+			for (let i = 0; i < view.byteLength; i += 2) {
+				codeUnits.push(view.getUint16(i, this.bom === 'le'));
+			}
+		}
+
+		// * Built in chunks, spreading very long strings into one call can overflow the stack
+		let decoded = '';
+
+		for (let i = 0; i < codeUnits.length; i += 0x1000) {
+			decoded += String.fromCharCode(...codeUnits.slice(i, i + 0x1000));
+		}
+
+		return decoded;
 	}
 }
@@ -1,6 +1,270 @@
+import crypto from 'node:crypto';
 import { FileStream } from '@/file-stream';
-import { Certificate } from '@/certificate';
-import { getSignatureSize } from '@/signatures';
+import { trailingCertificateField } from '@/certificate';
+import { CertificateChain } from '@/certificate-chain';
+import { getSignatureAlgorithm, getSignatureSize, signatureFields } from '@/signatures';
+import { createSignature, findFakeSignatureBody, isFakeSignature } from '@/signing';
+import { Schema } from '@/schema';
+import { withFormat, withFormatAsync } from '@/errors';
+import { AsyncFileStream } from '@/async-file-stream';
+import { toBuffer } from '@/bytes';
+import { scrambleKey } from '@/key-scrambler';
+import { importECCPublicKey } from '@/ecc';
+import { getTitlePlatform } from '@/title-id';
+import type { StreamWriter } from '@/stream-writer';
+import type { Certificate } from '@/certificate';
+import type { SignatureAlgorithm, SignatureType } from '@/signatures';
+import type { SignatureStatus } from '@/signing';
+import type { AsyncStream } from '@/schema';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+
+export interface CommonKeys {
+	/**
+	 * Optional. The Wii U common key
+	 */
+	wiiU?: Buffer;
+
+	/**
+	 * Optional. The 3DS common keys for keyslot 0x3D
+	 */
+	ctr?: {
+		/**
+		 * The keyX of keyslot 0x3D
+		 */
+		keyX: Buffer;
+
+		/**
+		 * The keyYs of keyslot 0x3D, indexed by `commonKeyYIndex`
+		 */
+		keyYs: Buffer[];
+	};
+}
+
+/**
+ * Known ticket limit types. Unused limits have the type `NONE`
+ */
+export enum TicketLimitType {
+	NONE = 0x0,
+	TIME_LIMIT = 0x1, // * Value is the play time in minutes
+	PLAY_COUNT = 0x4 // * Value is the number of launches
+}
+
+export interface TicketLimit {
+	type: TicketLimitType | number;
+	value: number;
+}
+
+/**
+ * Grants access to the contents at `offset` to `offset + bitmap.length * 8`
+ */
+export interface TicketContentIndexRecord {
+	/**
+	 * The content index of the first bit in `bitmap`
+	 */
+	offset: number;
+
+	/**
+	 * One bit per content index, lowest bit first. Set if the ticket grants the content
+	 */
+	bitmap: Buffer;
+}
+
+export interface TicketContentIndexSection {
+	/**
+	 * The section type. Content index sections, which have decoded `records`, are type `3`
+	 */
+	type: number;
+
+	flags: number;
+
+	/**
+	 * The size of each record in the section
+	 */
+	recordSize: number;
+
+	/**
+	 * Decoded records, for content index sections
+	 */
+	records: TicketContentIndexRecord[];
+
+	/**
+	 * Raw record data, for all other section types
+	 */
+	data?: Buffer;
+}
+
+export interface TicketContentIndex {
+	/**
+	 * Content index format version. Always `1`
+	 */
+	version: number;
+
+	flags: number;
+
+	sections: TicketContentIndexSection[];
+}
+
+const TICKET_LIMIT_SCHEMA = new Schema<TicketLimit>([
+	{ name: 'type', type: 'uint32' },
+	{ name: 'value', type: 'uint32' }
+]);
+
+const CONTENT_INDEX_SECTION_TYPE = 0x3;
+const CONTENT_INDEX_HEADER_SIZE = 0x14;
+const CONTENT_INDEX_SECTION_HEADER_SIZE = 0x14;
+
+function parseContentIndex(stream: FileStream): TicketContentIndex {
+	const start = stream.tell();
+	const version = stream.readUInt16BE('contentIndex version');
+	const headerSize = stream.readUInt16BE('contentIndex headerSize');
+	const size = stream.readUInt32BE('contentIndex size');
+	const sectionHeadersOffset = stream.readUInt32BE('contentIndex sectionHeadersOffset');
+	const sectionCount = stream.readUInt16BE('contentIndex sectionCount');
+	const sectionHeaderSize = stream.readUInt16BE('contentIndex sectionHeaderSize');
+	const flags = stream.readUInt32BE('contentIndex flags');
+	const sections: TicketContentIndexSection[] = [];
+
+	for (let i = 0; i < sectionCount; i++) {
+		stream.seek(start + sectionHeadersOffset + (i * sectionHeaderSize));
+
+		const recordsOffset = stream.readUInt32BE(`contentIndex sections[${i}].recordsOffset`);
+		const recordCount = stream.readUInt32BE(`contentIndex sections[${i}].recordCount`);
+		const recordSize = stream.readUInt32BE(`contentIndex sections[${i}].recordSize`);
+
+		stream.skip(0x4); // * Section size, always recordCount * recordSize
+
+		const type = stream.readUInt16BE(`contentIndex sections[${i}].type`);
+		const section: TicketContentIndexSection = {
+			type,
+			flags: stream.readUInt16BE(`contentIndex sections[${i}].flags`),
+			recordSize,
+			records: []
+		};
+
+		stream.seek(start + recordsOffset);
+
+		if (type === CONTENT_INDEX_SECTION_TYPE) {
+			for (let j = 0; j < recordCount; j++) {
+				section.records.push({
+					offset: stream.readUInt32BE(`contentIndex sections[${i}].records[${j}].offset`),
+					bitmap: stream.readBytes(recordSize - 0x4, `contentIndex sections[${i}].records[${j}].bitmap`)
+				});
+			}
+		} else {
+			section.data = stream.readBytes(recordCount * recordSize, `contentIndex sections[${i}].data`);
+		}
+
+		sections.push(section);
+	}
+
+	stream.seek(start + Math.max(size, headerSize));
+
+	return { version, flags, sections };
+}
+
+/**
+ * Reads the content index from an async stream. Its size is in its header,
+ * so the rest is read in one go and parsed from memory
+ *
+ * @param stream - The async stream to read from
+ * @returns the content index
+ */
+async function parseContentIndexAsync(stream: AsyncStream): Promise<TicketContentIndex> {
+	const header = toBuffer(await stream.readBytes(0x8, 'contentIndex header'));
+	const headerSize = header.readUInt16BE(0x2);
+	const size = header.readUInt32BE(0x4);
+	const data = await stream.readBytes(Math.max(size, headerSize, CONTENT_INDEX_HEADER_SIZE) - header.length, 'contentIndex');
+
+	return parseContentIndex(new FileStream(Buffer.concat([header, data])));
+}
+
+function getContentIndexSectionSize(section: TicketContentIndexSection): number {
+	return section.type === CONTENT_INDEX_SECTION_TYPE ? section.records.length * section.recordSize : section.data?.length ?? 0;
+}
+
+function getContentIndexSize(contentIndex: TicketContentIndex): number {
+	const sectionsSize = contentIndex.sections.reduce((size, section) => size + getContentIndexSectionSize(section), 0);
+
+	return CONTENT_INDEX_HEADER_SIZE + (contentIndex.sections.length * CONTENT_INDEX_SECTION_HEADER_SIZE) + sectionsSize;
+}
+
+function encodeContentIndex(stream: StreamWriter, contentIndex: TicketContentIndex): void {
+	stream.writeUInt16BE(contentIndex.version);
+	stream.writeUInt16BE(CONTENT_INDEX_HEADER_SIZE);
+	stream.writeUInt32BE(getContentIndexSize(contentIndex));
+	stream.writeUInt32BE(CONTENT_INDEX_HEADER_SIZE);
+	stream.writeUInt16BE(contentIndex.sections.length);
+	stream.writeUInt16BE(CONTENT_INDEX_SECTION_HEADER_SIZE);
+	stream.writeUInt32BE(contentIndex.flags);
+
+	// * Records are stored directly after all of the section headers, in section order
+	let recordsOffset = CONTENT_INDEX_HEADER_SIZE + (contentIndex.sections.length * CONTENT_INDEX_SECTION_HEADER_SIZE);
+
+	for (const section of contentIndex.sections) {
+		const sectionSize = getContentIndexSectionSize(section);
+
+		stream.writeUInt32BE(recordsOffset);
+		stream.writeUInt32BE(sectionSize / section.recordSize);
+		stream.writeUInt32BE(section.recordSize);
+		stream.writeUInt32BE(sectionSize);
+		stream.writeUInt16BE(section.type);
+		stream.writeUInt16BE(section.flags);
+
+		recordsOffset += sectionSize;
+	}
+
+	for (const section of contentIndex.sections) {
+		if (section.type !== CONTENT_INDEX_SECTION_TYPE) {
+			stream.write(section.data ?? Buffer.alloc(0));
+			continue;
+		}
+
+		for (const record of section.records) {
+			stream.writeUInt32BE(record.offset);
+			stream.write(record.bitmap);
+			stream.pad(section.recordSize - 0x4 - record.bitmap.length);
+		}
+	}
+}
+
+const TICKET_SCHEMA = new Schema<Ticket, FileStream>([
+	...signatureFields<Ticket>(),
+	{ name: 'issuer', type: 'string', size: 0x40 },
+	{ name: 'publicECCKey', type: 'bytes', size: 0x3C },
+	{ name: 'version', type: 'uint8' },
+	{ name: 'caVersion', type: 'uint8' },
+	{ name: 'signerVersion', type: 'uint8' },
+	{ name: 'encryptedTitleKey', type: 'bytes', size: 0x10 },
+	{ name: 'reserved1', type: 'uint8' },
+	{ name: 'ticketID', type: 'uint64' },
+	{ name: 'consoleID', type: 'uint32' },
+	{ name: 'titleID', type: 'uint64' },
+	{ name: 'reserved2', type: 'uint16' },
+	{ name: 'titleVersion', type: 'uint16' },
+	{ name: 'reserved3', type: 'uint64' },
+	{ name: 'licenseType', type: 'uint8' },
+	{ name: 'commonKeyYIndex', type: 'uint8' },
+	{ name: 'reserved4', type: 'bytes', size: 0x2A },
+	{ name: 'eShopAccountID', type: 'uint32' },
+	{ name: 'reserved5', type: 'uint8' },
+	{ name: 'audit', type: 'uint8' },
+	{ name: 'reserved6', type: 'bytes', size: 0x42 },
+	{ name: 'limits', type: 'array', count: (): number => 8, schema: TICKET_LIMIT_SCHEMA },
+	{
+		name: 'contentIndex',
+		type: 'custom',
+		parse: (stream): TicketContentIndex => parseContentIndex(stream),
+		parseAsync: (stream): Promise<TicketContentIndex> => parseContentIndexAsync(stream),
+		size: (contentIndex): number => getContentIndexSize(contentIndex as TicketContentIndex),
+		encode: (stream, contentIndex): void => encodeContentIndex(stream, contentIndex as TicketContentIndex)
+	},
+	trailingCertificateField<Ticket>('selfCertificate'),
+	trailingCertificateField<Ticket>('CACertificate')
+], {
+	signed: { from: 'issuer', to: 'contentIndex' }
+});
 
 export class Ticket {
 	private stream: FileStream;
@@ -8,7 +272,7 @@ export class Ticket {
 	/**
 	 * The type of signature the data is signed with
 	 */
-	public signatureType: number;
+	public signatureType: SignatureType;
 
 	/**
 	 * The signature data
@@ -21,7 +285,8 @@ export class Ticket {
 	public issuer: string;
 
 	/**
-	 * Public ECC key data
+	 * Public sect233r1 key used with the consoles private key to personalize
+	 * the title key. Zeroed for common tickets. See `getPublicECCKey`
 	 */
 	public publicECCKey: Buffer;
 
@@ -116,14 +381,15 @@ export class Ticket {
 	public reserved6: Buffer; // * 0x42 reserved bytes
 
 	/**
-	 * Unknown
+	 * Play limits, such as for demos. Always 8 entries, unused entries have the type `NONE`.
+	 * Encoding throws if there are more or fewer
 	 */
-	public limits: Buffer; // * What is this?
+	public limits: TicketLimit[];
 
 	/**
-	 * Unknown
+	 * Which contents of the title the ticket grants access to
 	 */
-	public contentIndex: Buffer; // * Is this the same data in the TMD?
+	public contentIndex: TicketContentIndex;
 
 	/**
 	 * Certificate used to verify the ticket signature
@@ -147,11 +413,18 @@ export class Ticket {
 	/**
 	 * Parses the ticket from the provided `fdOrPath`
 	 *
+	 * A file opened from a path is closed once done, an open `fd` is left open
+	 *
 	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
 	 */
 	public parseFromFile(fdOrPath: number | string): void {
 		this.stream = new FileStream(fdOrPath);
-		this.parse();
+
+		try {
+			this.parse();
+		} finally {
+			this.stream.close();
+		}
 	}
 
 	/**
@@ -185,6 +458,54 @@ export class Ticket {
 		this.parse();
 	}
 
+	/**
+	 * Parses the ticket from the provided `pathOrHandle` without blocking the event loop
+	 *
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
+	 */
+	public async parseFromFileAsync(pathOrHandle: string | FileHandle): Promise<void> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			await this.parseFromAsyncFileStream(stream);
+		} finally {
+			await stream.close();
+		}
+	}
+
+	/**
+	 * Parses the ticket from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of ticket data
+	 */
+	public async parseFromReadableStream(readable: Readable): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(readable));
+	}
+
+	/**
+	 * Parses the ticket from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of ticket data
+	 */
+	public async parseFromWebStream(stream: ReadableStream<Uint8Array>): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(stream));
+	}
+
+	/**
+	 * Parses the ticket from an existing async file stream
+	 *
+	 * Fields are read as they are reached. Trailing certificates
+	 * are parsed if there is data left, like the other sources
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public async parseFromAsyncFileStream(stream: AsyncFileStream): Promise<void> {
+		await withFormatAsync('Ticket', async () => {
+			await TICKET_SCHEMA.parseAsync(stream, this);
+			this.signatureBody = toBuffer(TICKET_SCHEMA.signatureBody(this));
+		});
+	}
+
 	/**
 	 * Creates a new instance of `Ticket` and
 	 * parses the ticket from the provided `fdOrPath`
@@ -240,47 +561,227 @@ export class Ticket {
 	}
 
 	/**
-	 * Gets the size of the Ticket
+	 * Creates a new instance of `Ticket` and
+	 * parses the ticket from the provided `pathOrHandle` without blocking the event loop
 	 *
-	 * @returns Ticket size
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
 	 */
-	public size(): number {
-		let bufferSize = 0;
-
-		bufferSize += 0x4; // * Signature type
-		bufferSize += getSignatureSize(this.signatureType).TOTAL; // * Signature + padding
-		bufferSize += 0x40; // * issuer
-		bufferSize += 0x3C; // * publicECCKey
-		bufferSize += 0x1; // * version
-		bufferSize += 0x1; // * caVersion
-		bufferSize += 0x1; // * signerVersion
-		bufferSize += 0x10; // * encryptedTitleKey
-		bufferSize += 0x1; // * reserved1
-		bufferSize += 0x8; // * ticketID
-		bufferSize += 0x4; // * consoleID
-		bufferSize += 0x8; // * titleID
-		bufferSize += 0x2; // * reserved2
-		bufferSize += 0x2; // * titleVersion
-		bufferSize += 0x8; // * reserved3
-		bufferSize += 0x1; // * licenseType
-		bufferSize += 0x1; // * commonKeyYIndex
-		bufferSize += 0x2A; // * reserved4
-		bufferSize += 0x4; // * eShopAccountID
-		bufferSize += 0x1; // * reserved5
-		bufferSize += 0x1; // * audit
-		bufferSize += 0x42; // * reserved6
-		bufferSize += 0x40; // * limits
-		bufferSize += this.contentIndex.length;
-
-		if (this.selfCertificate) {
-			bufferSize += this.selfCertificate.size();
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<Ticket> {
+		const ticket = new Ticket();
+		await ticket.parseFromFileAsync(pathOrHandle);
+
+		return ticket;
+	}
+
+	/**
+	 * Creates a new instance of `Ticket` and
+	 * parses the ticket from the provided Node `Readable`
+	 *
+	 * @param readable - Readable of ticket data
+	 */
+	public static async fromReadableStream(readable: Readable): Promise<Ticket> {
+		const ticket = new Ticket();
+		await ticket.parseFromReadableStream(readable);
+
+		return ticket;
+	}
+
+	/**
+	 * Creates a new instance of `Ticket` and
+	 * parses the ticket from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of ticket data
+	 */
+	public static async fromWebStream(stream: ReadableStream<Uint8Array>): Promise<Ticket> {
+		const ticket = new Ticket();
+		await ticket.parseFromWebStream(stream);
+
+		return ticket;
+	}
+
+	/**
+	 * Creates a new instance of `Ticket` and
+	 * parses the ticket from an existing async file stream
+	 *
+	 * @param stream - An existing async file stream
+	 */
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<Ticket> {
+		const ticket = new Ticket();
+		await ticket.parseFromAsyncFileStream(stream);
+
+		return ticket;
+	}
+
+	/**
+	 * Checks if the ticket grants access to a content
+	 *
+	 * @param index - The content index, as found in the TMD content chunk records
+	 * @returns true if the content is granted
+	 */
+	public hasContent(index: number): boolean {
+		return this.contentIndex.sections.some(section => section.type === CONTENT_INDEX_SECTION_TYPE && section.records.some((record) => {
+			const bit = index - record.offset;
+
+			if (bit < 0 || bit >= record.bitmap.length * 8) {
+				return false;
+			}
+
+			return (record.bitmap[bit >> 3] & (1 << (bit & 0x7))) !== 0;
+		}));
+	}
+
+	/**
+	 * Checks if the ticket is personalized, meaning it is bound to a console
+	 * and account rather than being a common ticket
+	 *
+	 * @returns true if the ticket has a console ID, eShop account ID or public ECC key
+	 */
+	public isPersonalized(): boolean {
+		return this.consoleID !== 0 || this.eShopAccountID !== 0 || this.hasPublicECCKey();
+	}
+
+	/**
+	 * Gets the public ECC key of a personalized ticket
+	 *
+	 * @returns the sect233r1 public key, or `undefined` if the ticket has none
+	 */
+	public getPublicECCKey(): crypto.KeyObject | undefined {
+		if (!this.hasPublicECCKey()) {
+			return;
+		}
+
+		return importECCPublicKey(this.publicECCKey);
+	}
+
+	/**
+	 * Creates a common copy of a personalized ticket, for archival. The console ID
+	 * and eShop account ID are zeroed. The new ticket must be signed
+	 *
+	 * The title key of a personalized ticket is encrypted a second time, with a key
+	 * shared between the console and the ticket. When the consoles private key is
+	 * provided, this layer is removed so that only the common key is needed, and the
+	 * public ECC key is zeroed. Otherwise the title key and public ECC key are copied
+	 * as is, since the title key can not be decrypted without them
+	 *
+	 * @param consolePrivateKey - Optional. The sect233r1 private key of the console the ticket is personalized for
+	 * @returns the new ticket
+	 */
+	public depersonalize(consolePrivateKey?: crypto.KeyObject): Ticket {
+		const ticket = Ticket.fromBuffer(this.bytes());
+
+		if (consolePrivateKey && this.hasPublicECCKey()) {
+			const sharedSecret = crypto.diffieHellman({
+				privateKey: consolePrivateKey,
+				publicKey: importECCPublicKey(this.publicECCKey)
+			});
+
+			const key = crypto.createHash('sha1').update(sharedSecret).digest().subarray(0x0, 0x10);
+			const iv = Buffer.alloc(0x10);
+
+			iv.writeBigUInt64BE(this.ticketID); // * The IV is the ticket ID, followed by 8 zero bytes
+
+			const decipher = crypto.createDecipheriv('aes-128-cbc', key, iv);
+
+			decipher.setAutoPadding(false);
+
+			ticket.encryptedTitleKey = Buffer.concat([decipher.update(this.encryptedTitleKey), decipher.final()]);
+			ticket.publicECCKey = Buffer.alloc(0x3C);
+		}
+
+		ticket.consoleID = 0;
+		ticket.eShopAccountID = 0;
+		ticket.signatureBody = toBuffer(TICKET_SCHEMA.signatureBody(ticket));
+
+		return ticket;
+	}
+
+	private hasPublicECCKey(): boolean {
+		return this.publicECCKey.some(byte => byte !== 0);
+	}
+
+	/**
+	 * Decrypts the title key using the platforms common key. 3DS tickets are
+	 * detected by their title ID, all others are treated as Wii U tickets
+	 *
+	 * Common keys are not included, and must be provided
+	 *
+	 * @param commonKeys - The common keys to decrypt with. Only the keys for the tickets platform are required
+	 * @returns the decrypted title key
+	 *
+	 * @throws {Error} If the common key for the platform is not provided
+	 */
+	public decryptTitleKey(commonKeys: CommonKeys): Buffer {
+		const decipher = crypto.createDecipheriv('aes-128-cbc', this.getCommonKey(commonKeys), this.getTitleKeyIV());
+
+		decipher.setAutoPadding(false);
+
+		return Buffer.concat([decipher.update(this.encryptedTitleKey), decipher.final()]);
+	}
+
+	/**
+	 * Encrypts a title key using the platforms common key, and stores it in `encryptedTitleKey`.
+	 * The ticket must be signed again afterwards
+	 *
+	 * @param titleKey - The decrypted title key
+	 * @param commonKeys - The common keys to encrypt with. Only the keys for the tickets platform are required
+	 *
+	 * @throws {Error} If the common key for the platform is not provided
+	 */
+	public encryptTitleKey(titleKey: Buffer, commonKeys: CommonKeys): void {
+		const cipher = crypto.createCipheriv('aes-128-cbc', this.getCommonKey(commonKeys), this.getTitleKeyIV());
+
+		cipher.setAutoPadding(false);
+
+		this.encryptedTitleKey = Buffer.concat([cipher.update(titleKey), cipher.final()]);
+	}
+
+	private getCommonKey(commonKeys: CommonKeys): Buffer {
+		if (getTitlePlatform(this.titleID) !== '3ds') {
+			if (!commonKeys.wiiU) {
+				throw new Error('No Wii U common key provided');
+			}
+
+			return commonKeys.wiiU;
 		}
 
-		if (this.CACertificate) {
-			bufferSize += this.CACertificate.size();
+		if (!commonKeys.ctr) {
+			throw new Error('No 3DS common keys provided');
 		}
 
-		return bufferSize;
+		const keyY = commonKeys.ctr.keyYs[this.commonKeyYIndex];
+
+		if (!keyY) {
+			throw new Error(`No 3DS common keyY provided for index ${this.commonKeyYIndex}`);
+		}
+
+		return scrambleKey(commonKeys.ctr.keyX, keyY);
+	}
+
+	private getTitleKeyIV(): Buffer {
+		// * The IV is the title ID, followed by 8 zero bytes
+		const iv = Buffer.alloc(0x10);
+
+		iv.writeBigUInt64BE(this.titleID);
+
+		return iv;
+	}
+
+	/**
+	 * Describes the algorithm of the `signatureType`, such as the hash, key size and curve
+	 *
+	 * @throws {Error} If the signature type is unknown
+	 */
+	public get signatureAlgorithm(): SignatureAlgorithm {
+		return getSignatureAlgorithm(this.signatureType);
+	}
+
+	/**
+	 * Gets the size of the Ticket
+	 *
+	 * @returns Ticket size
+	 */
+	public size(): number {
+		return TICKET_SCHEMA.size(this);
 	}
 
 	/**
@@ -289,126 +790,82 @@ export class Ticket {
 	 * @returns encoded Ticket
 	 */
 	public bytes(): Buffer {
-		const bytes = Buffer.alloc(this.size());
-
-		// * Offset to the data after the signature + padding
-		const dataOffset = 0x4 + getSignatureSize(this.signatureType).TOTAL;
-
-		bytes.writeUInt32BE(this.signatureType, 0x0);
-		this.signature.copy(bytes, 0x4);
-		bytes.write(this.issuer, dataOffset + 0x00);
-		this.publicECCKey.copy(bytes, dataOffset + 0x40);
-		bytes.writeUInt8(this.version, dataOffset + 0x7C);
-		bytes.writeUInt8(this.caVersion, dataOffset + 0x7D);
-		bytes.writeUInt8(this.signerVersion, dataOffset + 0x7E);
-		this.encryptedTitleKey.copy(bytes, dataOffset + 0x7F);
-		bytes.writeUInt8(this.reserved1, dataOffset + 0x8F);
-		bytes.writeBigUInt64BE(this.ticketID, dataOffset + 0x90);
-		bytes.writeUInt32BE(this.consoleID, dataOffset + 0x98);
-		bytes.writeBigUInt64BE(this.titleID, dataOffset + 0x9C);
-		bytes.writeUInt16BE(this.reserved2, dataOffset + 0xA4);
-		bytes.writeUInt16BE(this.titleVersion, dataOffset + 0xA6);
-		bytes.writeBigUInt64BE(this.reserved3, dataOffset + 0xA8);
-		bytes.writeUInt8(this.licenseType, dataOffset + 0xB0);
-		bytes.writeUInt8(this.commonKeyYIndex, dataOffset + 0xB1);
-		this.reserved4.copy(bytes, dataOffset + 0xB2);
-		bytes.writeUInt32BE(this.eShopAccountID, dataOffset + 0xDC);
-		bytes.writeUInt8(this.reserved5, dataOffset + 0xE0);
-		bytes.writeUInt8(this.audit, dataOffset + 0xE1);
-		this.reserved6.copy(bytes, dataOffset + 0xE2);
-		this.limits.copy(bytes, dataOffset + 0x124);
-		this.contentIndex.copy(bytes, dataOffset + 0x164);
-
-		// * The offset can differ here, time to store it
-		let offset = dataOffset + 0x164 + this.contentIndex.length;
-
-		if (this.selfCertificate) {
-			this.selfCertificate.bytes().copy(bytes, offset);
-			offset += this.selfCertificate.size();
+		return toBuffer(TICKET_SCHEMA.bytes(this));
+	}
+
+	/**
+	 * Signs the Ticket. The signature body is recomputed from the
+	 * current field values, and `signatureType` is set to the given type
+	 *
+	 * @param privateKey - The private key of the issuer, either a `KeyObject` or PEM
+	 * @param signatureType - The type of signature to create, such as `SignatureType.RSA_2048_SHA256`
+	 *
+	 * @throws {Error} If the signature type is unknown, or the key does not match the signature type
+	 */
+	public sign(privateKey: crypto.KeyObject | string | Buffer, signatureType: SignatureType): void {
+		this.signatureType = signatureType;
+		this.signatureBody = toBuffer(TICKET_SCHEMA.signatureBody(this));
+		this.signature = createSignature(this.signatureBody, privateKey, signatureType);
+	}
+
+	/**
+	 * Fake-signs the Ticket using the "trucha" technique, for testing modified data
+	 * on consoles which accept it. The signature is zeroed, and the first 2 bytes of `reserved6`
+	 * is brute-forced until the signature body hash starts with `0x00`
+	 *
+	 * @param signatureType - Optional. The type of signature to fake. Defaults to the current `signatureType`
+	 *
+	 * @throws {Error} If the signature type is unknown
+	 */
+	public fakeSign(signatureType = this.signatureType): void {
+		this.signatureType = signatureType;
+		this.signature = Buffer.alloc(getSignatureSize(signatureType).SIGNATURE);
+		this.reserved6 = Buffer.from(this.reserved6); // * Copy, so the parsed input data is not modified
+		this.signatureBody = findFakeSignatureBody(signatureType, (attempt) => {
+			this.reserved6.writeUInt16BE(attempt, 0x0);
+			return toBuffer(TICKET_SCHEMA.signatureBody(this));
+		});
+	}
+
+	/**
+	 * Checks if the Ticket is fake-signed. See `isFakeSignature`
+	 *
+	 * @returns true if the Ticket is fake-signed
+	 */
+	public isFakeSigned(): boolean {
+		return isFakeSignature(this.signatureType, this.signature, this.signatureBody);
+	}
+
+	/**
+	 * Checks if the Ticket signature is genuine, fake-signed or invalid
+	 *
+	 * @param issuer - Optional. The certificate which issued the Ticket, or a chain to verify the full chain of trust with. Defaults to `selfCertificate`
+	 * @returns the signature status
+	 *
+	 * @throws {Error} If the Ticket is not fake-signed and no certificate is available
+	 */
+	public getSignatureStatus(issuer: Certificate | CertificateChain | undefined = this.selfCertificate): SignatureStatus {
+		if (this.isFakeSigned()) {
+			return 'fake-signed';
 		}
 
-		if (this.CACertificate) {
-			this.CACertificate.bytes().copy(bytes, offset);
+		if (!issuer) {
+			throw new Error('No certificate provided to verify the Ticket signature with');
 		}
 
-		return bytes;
-	}
+		try {
+			const valid = issuer instanceof CertificateChain ? issuer.verify(this).valid : issuer.verifySignature(this);
 
-	private parse(): void {
-		this.parseSignature();
-
-		this.issuer = this.stream.readBytes(0x40).toString().split('\0')[0];
-		this.publicECCKey = this.stream.readBytes(0x3C); // * What is this?
-		this.version = this.stream.readUInt8();
-		this.caVersion = this.stream.readUInt8();
-		this.signerVersion = this.stream.readUInt8();
-		this.encryptedTitleKey = this.stream.readBytes(0x10);
-		this.reserved1 = this.stream.readUInt8();
-		this.ticketID = this.stream.readUInt64BE();
-		this.consoleID = this.stream.readUInt32BE();
-		this.titleID = this.stream.readUInt64BE();
-		this.reserved2 = this.stream.readUInt16BE();
-		this.titleVersion = this.stream.readUInt16BE();
-		this.reserved3 = this.stream.readUInt64BE();
-		this.licenseType = this.stream.readUInt8();
-		this.commonKeyYIndex = this.stream.readUInt8();
-		this.reserved4 = this.stream.readBytes(0x2A);
-		this.eShopAccountID = this.stream.readUInt32BE();
-		this.reserved5 = this.stream.readUInt8();
-		this.audit = this.stream.readUInt8();
-		this.reserved6 = this.stream.readBytes(0x42);
-		this.limits = this.stream.readBytes(0x40);
-
-		this.stream.skip(0x4); // * Unknown
-
-		const contentIndexSize = this.stream.readUInt32BE();
-
-		this.stream.skip(-0x4); // * Skip back to the number just read
-		this.stream.skip(-0x4); // * Skip back to the unknown number
-
-		this.contentIndex = this.stream.readBytes(contentIndexSize);
-
-		if (this.stream.remaining() !== 0) {
-			this.selfCertificate = Certificate.fromFileStream(this.stream);
-			this.CACertificate = Certificate.fromFileStream(this.stream);
+			return valid ? 'genuine' : 'invalid';
+		} catch {
+			return 'invalid';
 		}
+	}
 
-		this.constructSignatureData();
-	}
-
-	private parseSignature(): void {
-		this.signatureType = this.stream.readUInt32BE();
-
-		const signatureSize = getSignatureSize(this.signatureType);
-
-		this.signature = this.stream.readBytes(signatureSize.SIGNATURE);
-		this.stream.skip(signatureSize.PADDING);
-	}
-
-	private constructSignatureData(): void {
-		this.signatureBody = Buffer.alloc(0x164 + this.contentIndex.length);
-
-		this.signatureBody.write(this.issuer, 0x00);
-		this.publicECCKey.copy(this.signatureBody, 0x40);
-		this.signatureBody.writeUInt8(this.version, 0x7C);
-		this.signatureBody.writeUInt8(this.caVersion, 0x7D);
-		this.signatureBody.writeUInt8(this.signerVersion, 0x7E);
-		this.encryptedTitleKey.copy(this.signatureBody, 0x7F);
-		this.signatureBody.writeUInt8(this.reserved1, 0x8F);
-		this.signatureBody.writeBigUInt64BE(this.ticketID, 0x90);
-		this.signatureBody.writeUInt32BE(this.consoleID, 0x98);
-		this.signatureBody.writeBigUInt64BE(this.titleID, 0x9C);
-		this.signatureBody.writeUInt16BE(this.reserved2, 0xA4);
-		this.signatureBody.writeUInt16BE(this.titleVersion, 0xA6);
-		this.signatureBody.writeBigUInt64BE(this.reserved3, 0xA8);
-		this.signatureBody.writeUInt8(this.licenseType, 0xB0);
-		this.signatureBody.writeUInt8(this.commonKeyYIndex, 0xB1);
-		this.reserved4.copy(this.signatureBody, 0xB2);
-		this.signatureBody.writeUInt32BE(this.eShopAccountID, 0xDC);
-		this.signatureBody.writeUInt8(this.reserved5, 0xE0);
-		this.signatureBody.writeUInt8(this.audit, 0xE1);
-		this.reserved6.copy(this.signatureBody, 0xE2);
-		this.limits.copy(this.signatureBody, 0x124);
-		this.contentIndex.copy(this.signatureBody, 0x164);
+	private parse(): void {
+		withFormat('Ticket', () => {
+			TICKET_SCHEMA.parse(this.stream, this);
+			this.signatureBody = toBuffer(TICKET_SCHEMA.signatureBody(this));
+		});
 	}
 }
@@ -0,0 +1,163 @@
+/**
+ * The console a title is for, from the upper bits of the title ID
+ */
+export type TitlePlatform = 'wii' | 'dsi' | '3ds' | 'wiiu' | 'vwii' | 'unknown';
+
+/**
+ * The kind of title, from the category bits of the title ID
+ */
+export type TitleCategory = 'application' | 'demo' | 'update' | 'dlc' | 'system';
+
+export interface TitleIDInfo {
+	titleID: bigint;
+	platform: TitlePlatform;
+	category: TitleCategory;
+
+	/**
+	 * Upper 32 bits of the title ID, such as `0x00050000`
+	 */
+	high: number;
+
+	/**
+	 * Lower 32 bits of the title ID
+	 */
+	low: number;
+
+	/**
+	 * Unique ID shared by a title and its update and DLC. 3DS and Wii U only
+	 */
+	uniqueID?: number;
+}
+
+export interface RelatedTitleIDs {
+	base: bigint;
+	update: bigint;
+	dlc: bigint;
+}
+
+const PLATFORMS: Record<number, TitlePlatform> = {
+	0x0001: 'wii',
+	0x0003: 'dsi',
+	0x0004: '3ds',
+	0x0005: 'wiiu',
+	0x0007: 'vwii'
+};
+
+const CATEGORY_APPLICATION = 0x0000;
+const CATEGORY_DEMO = 0x0002;
+const CATEGORY_UPDATE = 0x000E;
+const CATEGORY_DLC_WIIU = 0x000C;
+const CATEGORY_DLC_3DS = 0x008C;
+const CATEGORY_SYSTEM = 0x0010; // * Set for all system titles, such as system apps, applets and data archives
+
+// * IOS, boot2 and the System Menu use these as the whole upper 32 bits
+const WII_SYSTEM_HIGH = 0x00000001;
+const VWII_SYSTEM_HIGH = 0x00000007;
+
+const WII_CATEGORY_DLC = 0x0005;
+const WII_SYSTEM_CATEGORIES = [0x0002, 0x0008]; // * System channels and hidden titles
+const DSI_CATEGORY_SYSTEM = 0x0001; // * Set for system apps and system data
+
+/**
+ * Gets the platform of a title ID
+ *
+ * @param titleID - The title ID
+ * @returns the platform, or `unknown`
+ */
+export function getTitlePlatform(titleID: bigint): TitlePlatform {
+	const high = Number(titleID >> 32n);
+
+	if (high === WII_SYSTEM_HIGH) {
+		return 'wii';
+	}
+
+	if (high === VWII_SYSTEM_HIGH) {
+		return 'vwii';
+	}
+
+	return PLATFORMS[Number(titleID >> 48n)] ?? 'unknown';
+}
+
+/**
+ * Decomposes a title ID into its platform, category and unique ID
+ *
+ * @param titleID - The title ID
+ * @returns the title ID parts
+ */
+export function parseTitleID(titleID: bigint): TitleIDInfo {
+	const high = Number(titleID >> 32n);
+	const low = Number(titleID & 0xFFFFFFFFn);
+	const platform = getTitlePlatform(titleID);
+	const category = high & 0xFFFF;
+
+	if (platform === '3ds' || platform === 'wiiu') {
+		let titleCategory: TitleCategory;
+
+		if (category === CATEGORY_DEMO) {
+			titleCategory = 'demo';
+		} else if (category === CATEGORY_UPDATE) {
+			titleCategory = 'update';
+		} else if (category === CATEGORY_DLC_WIIU || category === CATEGORY_DLC_3DS) {
+			titleCategory = 'dlc';
+		} else if ((category & CATEGORY_SYSTEM) !== 0) {
+			titleCategory = 'system';
+		} else {
+			titleCategory = 'application';
+		}
+
+		return {
+			titleID,
+			platform,
+			category: titleCategory,
+			high,
+			low,
+			uniqueID: (low >>> 8) & 0xFFFFF
+		};
+	}
+
+	let titleCategory: TitleCategory = 'application';
+
+	if (platform === 'dsi') {
+		if ((category & DSI_CATEGORY_SYSTEM) !== 0) {
+			titleCategory = 'system';
+		}
+	} else if (high === WII_SYSTEM_HIGH || high === VWII_SYSTEM_HIGH || WII_SYSTEM_CATEGORIES.includes(category)) {
+		titleCategory = 'system';
+	} else if (category === WII_CATEGORY_DLC) {
+		titleCategory = 'dlc';
+	}
+
+	return {
+		titleID,
+		platform,
+		category: titleCategory,
+		high,
+		low
+	};
+}
+
+/**
+ * Gets the title IDs of the base title, update and DLC which belong to the same title
+ *
+ * @param titleID - Any title ID of the title
+ * @returns the related title IDs
+ *
+ * @throws {Error} If the title is not a 3DS or Wii U title
+ */
+export function getRelatedTitleIDs(titleID: bigint): RelatedTitleIDs {
+	const platform = getTitlePlatform(titleID);
+
+	if (platform !== '3ds' && platform !== 'wiiu') {
+		throw new Error(`Related title IDs are only known for 3DS and Wii U titles, got ${platform}`);
+	}
+
+	const platformBits = titleID & 0xFFFF000000000000n;
+	const low = titleID & 0xFFFFFFFFn;
+	const dlcCategory = platform === '3ds' ? CATEGORY_DLC_3DS : CATEGORY_DLC_WIIU;
+
+	return {
+		base: platformBits | (BigInt(CATEGORY_APPLICATION) << 32n) | low,
+		update: platformBits | (BigInt(CATEGORY_UPDATE) << 32n) | low,
+		dlc: platformBits | (BigInt(dlcCategory) << 32n) | low
+	};
+}
@@ -1,208 +1,175 @@
+import crypto from 'node:crypto';
 import { FileStream } from '@/file-stream';
 import { Certificate } from '@/certificate';
+import { CertificateChain } from '@/certificate-chain';
 import { getSignatureSize } from '@/signatures';
-
-export interface ContentInfoRecord {
-	offset: number;
-	count: number;
+import { createSignature, findFakeSignatureBody, isFakeSignature } from '@/signing';
+import { AsyncFileStream } from '@/async-file-stream';
+import { toBuffer } from '@/bytes';
+import { TMD as WebTMD } from '@/web/tmd';
+import type { SignatureType } from '@/signatures';
+import type { SignatureStatus } from '@/signing';
+import type { H3 } from '@/h3';
+import type { FileHandle } from 'node:fs/promises';
+import type { Readable } from 'node:stream';
+import type { WebReadableStream } from '@/web/bytes';
+import type { AsyncStream } from '@/schema';
+import type { ContentChunkRecord as WebContentChunkRecord, ContentInfoRecord as WebContentInfoRecord } from '@/web/tmd';
+
+export { AccessRightsFlags, ContentTypeFlags, TitleTypeFlags } from '@/web/tmd';
+export type { AccessRights, ContentType, TitleType } from '@/web/tmd';
+
+export interface ContentInfoRecord extends WebContentInfoRecord {
 	recordsHash: Buffer;
 }
 
-export interface ContentChunkRecord {
-	id: number;
-	index: number;
-	type: number;
-	size: bigint;
-	hash: Buffer;
-}
-
-export class TMD {
-	private stream: FileStream;
-
-	/**
-	 * The type of signature the data is signed with
-	 */
-	public signatureType: number;
-
-	/**
-	 * The signature data
-	 */
-	public signature: Buffer;
-
-	/**
-	 * The name of the issuer
-	 */
-	public issuer: string;
-
-	/**
-	 * TMD version
-	 */
-	public version: number;
-
-	/**
-	 * Version of the certificate used to verify the `selfCertificate` signature?
-	 */
-	public caVersion: number;
-
-	/**
-	 * `selfCertificate` certificate version?
-	 */
-	public signerVersion: number;
-
+export interface ContentChunkRecord extends WebContentChunkRecord {
 	/**
-	 * Unused
+	 * SHA1 hash in version 0 TMDs, SHA256 hash in version 1 TMDs
 	 */
-	public reserved1: number; // * 1 byte
-
-	/**
-	 * Minimum system version?
-	 */
-	public systemVersion: bigint;
-
-	/**
-	 * Title ID of the title the TMD is for
-	 */
-	public titleID: bigint;
-
-	/**
-	 * Type of the title the TMD is for
-	 */
-	public titleType: number;
-
-	/**
-	 * Unknown
-	 */
-	public groupID: number;
-
-	/**
-	 * Unknown
-	 */
-	public saveDataSize: number;
-
-	/**
-	 * Unknown
-	 */
-	public SRLPrivateSaveDataSize: number;
+	hash: Buffer;
+}
 
+export interface HashMismatch {
 	/**
-	 * Unused
+	 * The field holding the expected hash, such as `contentInfoRecords[0].recordsHash`
 	 */
-	public reserved2: number; // * 4 bytes
+	field: string;
 
-	/**
-	 * Unknown
-	 */
-	public SRLFlag: number;
+	expected: Buffer;
+	actual: Buffer;
+}
 
+export interface HashVerificationReport {
 	/**
-	 * Unused
+	 * Whether every checked hash matched
 	 */
-	public reserved3: Buffer; // * 0x31 bytes
+	valid: boolean;
 
-	/**
-	 * Unknown
-	 */
-	public accessRights: number;
+	mismatches: HashMismatch[];
+}
 
+export interface ContentVerificationReport extends HashVerificationReport {
 	/**
-	 * Version of the title the TMD is for
+	 * The content chunk record of the checked content
 	 */
-	public titleVersion: number;
+	record: ContentChunkRecord;
 
 	/**
-	 * Number of content records
+	 * The hash algorithm used. SHA-256 for 3DS contents, SHA-1 for Wii, DSi and Wii U contents
 	 */
-	public contentCount: number;
+	hash: 'sha1' | 'sha256';
 
 	/**
-	 * Unknown
+	 * Set if the data is smaller than the size in the content chunk record
 	 */
-	public bootIndex: number;
+	sizeMismatch?: {
+		expected: bigint;
+		actual: number;
+	};
+}
 
-	/**
-	 * Unknown
-	 */
-	public minorVersion: number;
+/**
+ * TMD with file access, hashing and signing using `node:crypto`. Parsing,
+ * encoding and inspection are shared with the isomorphic `TMD` from the
+ * web entry point
+ */
+export class TMD extends WebTMD {
+	declare protected stream: FileStream;
+	declare public signature: Buffer;
+	declare public customDataReserved?: Buffer;
+	declare public reserved3?: Buffer;
+	declare public ratings?: Buffer;
+	declare public reserved5?: Buffer;
+	declare public IPCMask?: Buffer;
+	declare public reserved6?: Buffer;
+	declare public contentInfoRecordsHash?: Buffer;
+	declare public contentInfoRecords?: ContentInfoRecord[];
+	declare public contentChunkRecords: ContentChunkRecord[];
+	declare public selfCertificate?: Certificate;
+	declare public CACertificate?: Certificate;
+	declare public signatureBody: Buffer;
 
 	/**
-	 * SHA256 has of the content info records
+	 * Parses the TMD from the provided `fdOrPath`
 	 *
-	 * Optional. Only seen if version is <= 1
-	 */
-	public contentInfoRecordsHash?: Buffer;
-
-	/**
-	 * List of content info records.
-	 * If present, this will always contain
-	 * 64 entries
+	 * A file opened from a path is closed once done, an open `fd` is left open
 	 *
-	 * Optional. Only seen if version is <= 1
+	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
 	 */
-	public contentInfoRecords?: ContentInfoRecord[];
+	public parseFromFile(fdOrPath: number | string): void {
+		this.stream = new FileStream(fdOrPath);
 
-	/**
-	 * List of content records
-	 */
-	public contentChunkRecords: ContentChunkRecord[] = [];
+		try {
+			this.parse();
+		} finally {
+			this.stream.close();
+		}
+	}
 
 	/**
-	 * Certificate used to verify the TMD signature
+	 * Parses the TMD from the provided `buffer`
 	 *
-	 * Optional. Only seen if TMD came from the CDN
+	 * @param buffer - TMD data buffer
 	 */
-	public selfCertificate?: Certificate;
+	public parseFromBuffer(buffer: Buffer): void {
+		this.stream = new FileStream(buffer);
+		this.parse();
+	}
 
 	/**
-	 * Certificate used to verify the `selfCertificate` signature
+	 * Parses the TMD from an existing file stream
 	 *
-	 * Optional.  Only seen if TMD came from the CDN
-	 */
-	public CACertificate?: Certificate;
-
-	/**
-	 * The data used to create the TMD signature
+	 * @param stream - An existing file stream
 	 */
-	public signatureBody: Buffer;
+	public parseFromFileStream(stream: FileStream): void {
+		this.stream = stream;
+		this.parse();
+	}
 
 	/**
-	 * Parses the TMD from the provided `fdOrPath`
+	 * Parses the TMD from the provided `pathOrHandle` without blocking the event loop
 	 *
-	 * @param fdOrPath - Either an open `fd` or a path to a file on disk
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
 	 */
-	public parseFromFile(fdOrPath: number | string): void {
-		this.stream = new FileStream(fdOrPath);
-		this.parse();
+	public async parseFromFileAsync(pathOrHandle: string | FileHandle): Promise<void> {
+		const stream = new AsyncFileStream(pathOrHandle);
+
+		try {
+			await this.parseFromAsyncFileStream(stream);
+		} finally {
+			await stream.close();
+		}
 	}
 
 	/**
-	 * Parses the TMD from the provided `buffer`
+	 * Parses the TMD from the provided Node `Readable`
 	 *
-	 * @param buffer - TMD data buffer
+	 * @param readable - Readable of TMD data
 	 */
-	public parseFromBuffer(buffer: Buffer): void {
-		this.stream = new FileStream(buffer);
-		this.parse();
+	public async parseFromReadableStream(readable: Readable): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(readable));
 	}
 
 	/**
-	 * Parses the TMD from the provided string
-	 *
-	 * Calls `parseFromBuffer` internally
+	 * Parses the TMD from the provided web `ReadableStream`
 	 *
-	 * @param base64 - Base64 encoded TMD data
+	 * @param stream - Web stream of TMD data
 	 */
-	public parseFromString(base64: string): void {
-		this.parseFromBuffer(Buffer.from(base64, 'base64'));
+	public async parseFromWebStream(stream: WebReadableStream): Promise<void> {
+		await this.parseFromAsyncFileStream(new AsyncFileStream(stream));
 	}
 
 	/**
-	 * Parses the TMD from an existing file stream
+	 * Parses the TMD from an existing async file stream
 	 *
-	 * @param stream - An existing file stream
+	 * Fields are read as they are reached. Trailing certificates
+	 * are parsed if there is data left, like the other sources
+	 *
+	 * @param stream - An existing async file stream
 	 */
-	public parseFromFileStream(stream: FileStream): void {
-		this.stream = stream;
-		this.parse();
+	public async parseFromAsyncFileStream(stream: AsyncFileStream): Promise<void> {
+		await this.parseFromAsyncStream(stream);
 	}
 
 	/**
@@ -233,255 +200,295 @@ export class TMD {
 
 	/**
 	 * Creates a new instance of `TMD` and
-	 * parses the TMD from the provided string
+	 * parses the TMD from an existing file stream
 	 *
-	 * Calls `parseFromBuffer` internally
+	 * @param stream - An existing file stream
+	 */
+	public static fromFileStream(stream: FileStream): TMD {
+		const tmd = new TMD();
+		tmd.parseFromFileStream(stream);
+
+		return tmd;
+	}
+
+	/**
+	 * Creates a new instance of `TMD` and
+	 * parses the TMD from the provided `pathOrHandle` without blocking the event loop
 	 *
-	 * @param base64 - Base64 encoded TMD data
+	 * @param pathOrHandle - Either an open `FileHandle` or a path to a file on disk
 	 */
-	public static fromString(base64: string): TMD {
+	public static async fromFileAsync(pathOrHandle: string | FileHandle): Promise<TMD> {
 		const tmd = new TMD();
-		tmd.parseFromString(base64);
+		await tmd.parseFromFileAsync(pathOrHandle);
 
 		return tmd;
 	}
 
 	/**
 	 * Creates a new instance of `TMD` and
-	 * parses the TMD from an existing file stream
+	 * parses the TMD from the provided Node `Readable`
 	 *
-	 * @param stream - An existing file stream
+	 * @param readable - Readable of TMD data
 	 */
-	public static fromFileStream(stream: FileStream): TMD {
+	public static async fromReadableStream(readable: Readable): Promise<TMD> {
 		const tmd = new TMD();
-		tmd.parseFromFileStream(stream);
+		await tmd.parseFromReadableStream(readable);
 
 		return tmd;
 	}
 
 	/**
-	 * Gets the size of the TMD
+	 * Creates a new instance of `TMD` and
+	 * parses the TMD from an existing async file stream
 	 *
-	 * @returns TMD size
+	 * @param stream - An existing async file stream
 	 */
-	public size(): number {
-		let bufferSize = 0;
-
-		bufferSize += 0x4; // * Signature type
-		bufferSize += getSignatureSize(this.signatureType).TOTAL; // * Signature + padding
-		bufferSize += 0x40; // * issuer
-		bufferSize += 0x1; // * version
-		bufferSize += 0x1; // * caVersion
-		bufferSize += 0x1; // * signerVersion
-		bufferSize += 0x1; // * reserved1
-		bufferSize += 0x8; // * systemVersion
-		bufferSize += 0x8; // * titleID
-		bufferSize += 0x4; // * titleType
-		bufferSize += 0x2; // * groupID
-		bufferSize += 0x4; // * saveDataSize
-		bufferSize += 0x4; // * SRLPrivateSaveDataSize
-		bufferSize += 0x4; // * reserved2
-		bufferSize += 0x1; // * SRLFlag
-		bufferSize += 0x31; // * reserved3
-		bufferSize += 0x4; // * accessRights
-		bufferSize += 0x2; // * titleVersion
-		bufferSize += 0x2; // * contentCount
-		bufferSize += 0x2; // * bootIndex
-		bufferSize += 0x2; // * minorVersion
+	public static async fromAsyncFileStream(stream: AsyncFileStream): Promise<TMD> {
+		const tmd = new TMD();
+		await tmd.parseFromAsyncFileStream(stream);
+
+		return tmd;
+	}
+
+	/**
+	 * Rebuilds all fields derived from the content chunk records, so that an
+	 * edited TMD encodes consistently. Call this after adding, removing or
+	 * changing content chunk records, then sign the TMD
+	 *
+	 * - `contentCount` is set to the number of content chunk records
+	 * - For version 1 TMDs, the content info records are rebuilt with the first
+	 *   record covering every content chunk record, as in retail TMDs. The
+	 *   record hashes and `contentInfoRecordsHash` are then recomputed
+	 * - `signatureBody` is rebuilt from the current fields
+	 */
+	public rehash(): void {
+		this.contentCount = this.contentChunkRecords.length;
 
 		if (this.version === 1) {
-			bufferSize += 0x20; // * contentInfoRecordsHash
-			bufferSize += (0x2 + 0x2 + 0x20) * 64; // * 64 contentInfoRecords
-		}
+			this.contentInfoRecords = [{
+				offset: 0,
+				count: this.contentCount,
+				recordsHash: this.hashContentChunkRecords(this.contentChunkRecords)
+			}];
 
-		bufferSize += (0x4 + 0x2 + 0x2 + 0x8 + 0x20) * this.contentCount; // * X contentChunkRecords
+			while (this.contentInfoRecords.length < 64) {
+				this.contentInfoRecords.push({
+					offset: 0,
+					count: 0,
+					recordsHash: Buffer.alloc(0x20)
+				});
+			}
 
-		if (this.selfCertificate) {
-			bufferSize += this.selfCertificate.size();
+			this.contentInfoRecordsHash = this.hashContentInfoRecords(this.contentInfoRecords);
 		}
 
-		if (this.CACertificate) {
-			bufferSize += this.CACertificate.size();
+		this.signatureBody = toBuffer(this.computeSignatureBody());
+	}
+
+	/**
+	 * Verifies the hash over the content info records, and the hash each
+	 * content info record has over its range of content chunk records
+	 *
+	 * @returns a report of every hash which did not match
+	 *
+	 * @throws {Error} If the TMD is not version 1, as only version 1 has content info records
+	 */
+	public verifyContentInfoRecords(): HashVerificationReport {
+		if (this.version !== 1 || !this.contentInfoRecords || !this.contentInfoRecordsHash) {
+			throw new Error('Content info records are only present in version 1 TMDs');
 		}
 
-		return bufferSize;
+		const mismatches: HashMismatch[] = [];
+
+		this.checkHash(mismatches, 'contentInfoRecordsHash', this.contentInfoRecordsHash, this.hashContentInfoRecords(this.contentInfoRecords));
+
+		this.contentInfoRecords.forEach((infoRecord, i) => {
+			// * Unused records have no range, and a zeroed hash
+			if (infoRecord.count === 0) {
+				return;
+			}
+
+			const chunkRecords = this.contentChunkRecords.slice(infoRecord.offset, infoRecord.offset + infoRecord.count);
+
+			this.checkHash(mismatches, `contentInfoRecords[${i}].recordsHash`, infoRecord.recordsHash, this.hashContentChunkRecords(chunkRecords));
+		});
+
+		return {
+			valid: mismatches.length === 0,
+			mismatches
+		};
 	}
 
 	/**
-	 * Encodes the TMD data into a Buffer
+	 * Verifies the hash of a decrypted content. 3DS contents, detected by the
+	 * title ID, are hashed with SHA-256. All others are treated as Wii U
+	 * contents, which are hashed with SHA-1
 	 *
-	 * @returns encoded TMD
+	 * Data past the size in the content chunk record, such as encryption padding, is not hashed
+	 *
+	 * Hashed Wii U contents (see `getContentType`) are not hashed as a whole. Their
+	 * record hash is of the H3 hash tree, so `h3` must be given. The tree is checked
+	 * against the record with `H3.verifyRecord`, and the content against the tree
+	 * with `H3.verifyContent`
+	 *
+	 * @param index - The content index, as found in the content chunk records
+	 * @param decryptedData - The decrypted content data
+	 * @param h3 - Optional. The hash tree of the content. Required for hashed Wii U contents
+	 * @returns a report of the content size and hash
+	 *
+	 * @throws {Error} If the TMD has no content with the given index, or the content is hashed and `h3` is not given
 	 */
-	public bytes(): Buffer {
-		const bytes = Buffer.alloc(this.size());
-
-		// * Offset to the data after the signature + padding
-		const dataOffset = 0x4 + getSignatureSize(this.signatureType).TOTAL;
-
-		bytes.writeUInt32BE(this.signatureType, 0x0);
-		this.signature.copy(bytes, 0x4);
-		bytes.write(this.issuer, dataOffset + 0x00);
-		bytes.writeUInt8(this.version, dataOffset + 0x40);
-		bytes.writeUInt8(this.caVersion, dataOffset + 0x41);
-		bytes.writeUInt8(this.signerVersion, dataOffset + 0x42);
-		bytes.writeUInt8(this.reserved1, dataOffset + 0x43);
-		bytes.writeBigUInt64BE(this.systemVersion, dataOffset + 0x44);
-		bytes.writeBigUInt64BE(this.titleID, dataOffset + 0x4C);
-		bytes.writeUInt32BE(this.titleType, dataOffset + 0x54);
-		bytes.writeUInt16BE(this.groupID, dataOffset + 0x58);
-		bytes.writeUInt32BE(this.saveDataSize, dataOffset + 0x5A);
-		bytes.writeUInt32BE(this.SRLPrivateSaveDataSize, dataOffset + 0x5E);
-		bytes.writeUInt32BE(this.reserved2, dataOffset + 0x62);
-		bytes.writeUInt8(this.SRLFlag, dataOffset + 0x66);
-		this.reserved3.copy(bytes, dataOffset + 0x67);
-		bytes.writeUInt32BE(this.accessRights, dataOffset + 0x98);
-		bytes.writeUInt16BE(this.titleVersion, dataOffset + 0x9C);
-		bytes.writeUInt16BE(this.contentCount, dataOffset + 0x9E);
-		bytes.writeUInt16BE(this.bootIndex, dataOffset + 0xA0);
-		bytes.writeUInt16BE(this.minorVersion, dataOffset + 0xA2);
-
-		// * The offset can differ here, time to store it
-		let offset = dataOffset + 0xA4;
-
-		if (this.version === 1 && this.contentInfoRecordsHash && this.contentInfoRecords) {
-			this.contentInfoRecordsHash.copy(bytes, offset);
-			offset += 0x20;
-
-			for (const record of this.contentInfoRecords) {
-				bytes.writeUInt16BE(record.offset, offset);
-				offset += 2;
-
-				bytes.writeUInt16BE(record.count, offset);
-				offset += 2;
-
-				record.recordsHash.copy(bytes, offset);
-				offset += 0x20;
-			}
+	public verifyContent(index: number, decryptedData: Buffer, h3?: H3): ContentVerificationReport {
+		const chunkIndex = this.contentChunkRecords.findIndex(record => record.index === index);
+
+		if (chunkIndex === -1) {
+			throw new Error(`TMD has no content with index ${index}`);
+		}
+
+		const record = this.contentChunkRecords[chunkIndex];
+		const hash = this.platform === '3ds' ? 'sha256' : 'sha1';
+		const mismatches: HashMismatch[] = [];
+		const report: ContentVerificationReport = { valid: true, mismatches, record, hash };
+
+		if (BigInt(decryptedData.length) < record.size) {
+			report.sizeMismatch = {
+				expected: record.size,
+				actual: decryptedData.length
+			};
 		}
 
-		for (const record of this.contentChunkRecords) {
-			bytes.writeUInt32BE(record.id, offset);
-			offset += 4;
+		const data = decryptedData.subarray(0, Number(record.size));
 
-			bytes.writeUInt16BE(record.index, offset);
-			offset += 2;
+		if (this.getContentType(record).hashed) {
+			if (!h3) {
+				throw new Error(`Content ${index} is hashed, and its record hash is of the H3 hash tree. Pass its H3, or check it with H3.verifyRecord and H3.verifyContent`);
+			}
 
-			bytes.writeUInt16BE(record.type, offset);
-			offset += 2;
+			for (const mismatch of h3.verifyRecord(record).mismatches) {
+				mismatches.push({ ...mismatch, field: `contentChunkRecords[${chunkIndex}].hash` });
+			}
 
-			bytes.writeBigUInt64BE(record.size, offset);
-			offset += 8;
+			mismatches.push(...h3.verifyContent(data).mismatches);
+		} else {
+			const actual = crypto.createHash(hash).update(data).digest();
 
-			record.hash.copy(bytes, offset);
-			offset += 0x20;
+			// * SHA-1 hashes are stored zero padded to 0x20 bytes
+			this.checkHash(mismatches, `contentChunkRecords[${chunkIndex}].hash`, record.hash.subarray(0, actual.length), actual);
 		}
 
-		if (this.selfCertificate) {
-			this.selfCertificate.bytes().copy(bytes, offset);
-			offset += this.selfCertificate.size();
-		}
+		report.valid = mismatches.length === 0 && !report.sizeMismatch;
+
+		return report;
+	}
 
-		if (this.CACertificate) {
-			this.CACertificate.bytes().copy(bytes, offset);
+	private checkHash(mismatches: HashMismatch[], field: string, expected: Buffer, actual: Buffer): void {
+		if (!expected.equals(actual)) {
+			mismatches.push({ field, expected, actual });
 		}
+	}
 
-		return bytes;
+	/**
+	 * Encodes the TMD data into a Buffer, including any certificates
+	 *
+	 * @returns encoded TMD
+	 */
+	public bytes(): Buffer {
+		return toBuffer(super.bytes());
 	}
 
-	private parse(): void {
-		this.parseSignature();
-		this.issuer = this.stream.readBytes(0x40).toString().split('\0')[0];
-		this.version = this.stream.readUInt8();
-		this.caVersion = this.stream.readUInt8();
-		this.signerVersion = this.stream.readUInt8();
-		this.reserved1 = this.stream.readUInt8();
-		this.systemVersion = this.stream.readUInt64BE();
-		this.titleID = this.stream.readUInt64BE();
-		this.titleType = this.stream.readUInt32BE();
-		this.groupID = this.stream.readUInt16BE();
-		this.saveDataSize = this.stream.readUInt32BE();
-		this.SRLPrivateSaveDataSize = this.stream.readUInt32BE();
-		this.reserved2 = this.stream.readUInt32BE();
-		this.SRLFlag = this.stream.readUInt8();
-		this.reserved3 = this.stream.readBytes(0x31);
-		this.accessRights = this.stream.readUInt32BE();
-		this.titleVersion = this.stream.readUInt16BE();
-		this.contentCount = this.stream.readUInt16BE();
-		this.bootIndex = this.stream.readUInt16BE();
-		this.minorVersion = this.stream.readUInt16BE();
+	/**
+	 * Signs the TMD. The signature body is recomputed from the
+	 * current field values, and `signatureType` is set to the given type
+	 *
+	 * @param privateKey - The private key of the issuer, either a `KeyObject` or PEM
+	 * @param signatureType - The type of signature to create, such as `SignatureType.RSA_2048_SHA256`
+	 *
+	 * @throws {Error} If the signature type is unknown, or the key does not match the signature type
+	 */
+	public sign(privateKey: crypto.KeyObject | string | Buffer, signatureType: SignatureType): void {
+		this.signatureType = signatureType;
+		this.signatureBody = toBuffer(this.computeSignatureBody());
+		this.signature = createSignature(this.signatureBody, privateKey, signatureType);
+	}
 
-		if (this.version === 1) {
-			this.contentInfoRecordsHash = this.stream.readBytes(0x20);
-			this.contentInfoRecords = [];
+	/**
+	 * Fake-signs the TMD using the "trucha" technique, for testing modified data
+	 * on consoles which accept it. The signature is zeroed, and `minorVersion`, which is unused by consoles
+	 * is brute-forced until the signature body hash starts with `0x00`
+	 *
+	 * @param signatureType - Optional. The type of signature to fake. Defaults to the current `signatureType`
+	 *
+	 * @throws {Error} If the signature type is unknown
+	 */
+	public fakeSign(signatureType = this.signatureType): void {
+		this.signatureType = signatureType;
+		this.signature = Buffer.alloc(getSignatureSize(signatureType).SIGNATURE);
+		this.signatureBody = findFakeSignatureBody(signatureType, (attempt) => {
+			this.minorVersion = attempt;
+			return toBuffer(this.computeSignatureBody());
+		});
+	}
 
-			// * Always 64, even if not all are used
-			for (let i = 0; i < 64; i++) {
-				this.contentInfoRecords.push({
-					offset: this.stream.readUInt16BE(),
-					count: this.stream.readUInt16BE(),
-					recordsHash: this.stream.readBytes(0x20)
-				});
-			}
+	/**
+	 * Checks if the TMD is fake-signed. See `isFakeSignature`
+	 *
+	 * @returns true if the TMD is fake-signed
+	 */
+	public isFakeSigned(): boolean {
+		return isFakeSignature(this.signatureType, this.signature, this.signatureBody);
+	}
+
+	/**
+	 * Checks if the TMD signature is genuine, fake-signed or invalid
+	 *
+	 * @param issuer - Optional. The certificate which issued the TMD, or a chain to verify the full chain of trust with. Defaults to `selfCertificate`
+	 * @returns the signature status
+	 *
+	 * @throws {Error} If the TMD is not fake-signed and no certificate is available
+	 */
+	public getSignatureStatus(issuer: Certificate | CertificateChain | undefined = this.selfCertificate): SignatureStatus {
+		if (this.isFakeSigned()) {
+			return 'fake-signed';
 		}
 
-		for (let i = 0; i < this.contentCount; i++) {
-			this.contentChunkRecords.push({
-				id: this.stream.readUInt32BE(),
-				index: this.stream.readUInt16BE(),
-				type: this.stream.readUInt16BE(),
-				size: this.stream.readUInt64BE(),
-				hash: this.stream.readBytes(0x20)
-			});
+		if (!issuer) {
+			throw new Error('No certificate provided to verify the TMD signature with');
 		}
 
-		if (this.stream.remaining() !== 0) {
-			this.selfCertificate = Certificate.fromFileStream(this.stream);
-			this.CACertificate = Certificate.fromFileStream(this.stream);
+		try {
+			const valid = issuer instanceof CertificateChain ? issuer.verify(this).valid : issuer.verifySignature(this);
+
+			return valid ? 'genuine' : 'invalid';
+		} catch {
+			return 'invalid';
 		}
+	}
 
-		this.constructSignatureData();
+	protected parseTrailingCertificate(): Certificate | undefined {
+		return this.stream.remaining() !== 0 ? Certificate.fromFileStream(this.stream) : undefined;
 	}
 
-	private parseSignature(): void {
-		this.signatureType = this.stream.readUInt32BE();
+	protected async parseTrailingCertificateAsync(stream: AsyncStream): Promise<Certificate | undefined> {
+		return await stream.atEnd() ? undefined : Certificate.fromAsyncStream(stream);
+	}
+
+	private hashContentInfoRecords(records: ContentInfoRecord[]): Buffer {
+		const hash = crypto.createHash('sha256');
 
-		const signatureSize = getSignatureSize(this.signatureType);
+		for (const record of records) {
+			hash.update(this.encodeContentInfoRecord(record));
+		}
 
-		this.signature = this.stream.readBytes(signatureSize.SIGNATURE);
-		this.stream.skip(signatureSize.PADDING);
+		return hash.digest();
 	}
 
-	private constructSignatureData(): void {
-		let size = 0xA4;
+	private hashContentChunkRecords(records: ContentChunkRecord[]): Buffer {
+		const hash = crypto.createHash('sha256');
 
-		if (this.version === 1) {
-			size += 0x20;
+		for (const record of records) {
+			hash.update(this.encodeContentChunkRecord(record));
 		}
 
-		this.signatureBody = Buffer.alloc(size);
-
-		this.signatureBody.write(this.issuer, 0x00);
-		this.signatureBody.writeUInt8(this.version, 0x40);
-		this.signatureBody.writeUInt8(this.caVersion, 0x41);
-		this.signatureBody.writeUInt8(this.signerVersion, 0x42);
-		this.signatureBody.writeUInt8(this.reserved1, 0x43);
-		this.signatureBody.writeBigUInt64BE(this.systemVersion, 0x44);
-		this.signatureBody.writeBigUInt64BE(this.titleID, 0x4C);
-		this.signatureBody.writeUInt32BE(this.titleType, 0x54);
-		this.signatureBody.writeUInt16BE(this.groupID, 0x58);
-		this.signatureBody.writeUInt32BE(this.saveDataSize, 0x5A);
-		this.signatureBody.writeUInt32BE(this.SRLPrivateSaveDataSize, 0x5E);
-		this.signatureBody.writeUInt32BE(this.reserved2, 0x62);
-		this.signatureBody.writeUInt8(this.SRLFlag, 0x66);
-		this.reserved3.copy(this.signatureBody, 0x67);
-		this.signatureBody.writeUInt32BE(this.accessRights, 0x98);
-		this.signatureBody.writeUInt16BE(this.titleVersion, 0x9C);
-		this.signatureBody.writeUInt16BE(this.contentCount, 0x9E);
-		this.signatureBody.writeUInt16BE(this.bootIndex, 0xA0);
-		this.signatureBody.writeUInt16BE(this.minorVersion, 0xA2);
-
-		if (this.version === 1 && this.contentInfoRecordsHash) {
-			this.contentInfoRecordsHash.copy(this.signatureBody, 0xA4);
-		}
+		return hash.digest();
 	}
 }
@@ -0,0 +1,517 @@
+import { Stream } from '@/stream';
+import { allocBytes, bytesEqual, fromBase64, readWebStream } from '@/web/bytes';
+import { withFormat } from '@/errors';
+import type { WebReadableStream } from '@/web/bytes';
+
+const MAGIC_BE = new TextEncoder().encode('BY');
+const MAGIC_LE = new TextEncoder().encode('YB');
+
+enum NodeTypes {
+	STRING = 0xA0, // * Any version
+	BINARY_DATA = 0xA1, // * Versions 1 and 4+
+	BINARY_DATA_WITH_PARAM = 0xA2, // * Version 5
+	ARRAY = 0xC0, // * Any version
+	DICTIONARY = 0xC1, // * Any version
+	STRING_TABLE = 0xC2, // * Any version
+	BINARY_TABLE = 0xC3, // * Version 1
+	BOOL = 0xD0, // * Any version
+	INT32 = 0xD1, // * Any version
+	FLOAT = 0xD2, // * Any version
+	UINT32 = 0xD3, // * Versions 2+
+	INT64 = 0xD4, // * Versions 3+
+	UINT64 = 0xD5, // * Versions 3+
+	DOUBLE = 0xD6, // * Versions 3+
+	NULL = 0xFF // * Any version
+}
+
+interface Node {
+	type: NodeTypes.STRING | NodeTypes.BINARY_DATA | NodeTypes.BINARY_DATA_WITH_PARAM | NodeTypes.ARRAY | NodeTypes.DICTIONARY | NodeTypes.STRING_TABLE | NodeTypes.BINARY_TABLE | NodeTypes.BOOL | NodeTypes.INT32 | NodeTypes.FLOAT | NodeTypes.UINT32 | NodeTypes.INT64 | NodeTypes.UINT64 | NodeTypes.DOUBLE | NodeTypes.NULL;
+	value: unknown;
+}
+
+type StringNode = {
+	type: 0xA0;
+	value: string;
+};
+
+type BinaryDataNode = {
+	type: 0xA1;
+	value: Uint8Array;
+};
+
+type BinaryDataWithParamNode = {
+	type: 0xA2;
+	value: Uint8Array; // TODO - What is the param?
+};
+
+type ArrayNode = {
+	type: 0xC0;
+	value: Node[];
+};
+
+type DictionaryNode = {
+	type: 0xC1;
+	value: Record<string, Node>;
+};
+
+type StringTableNode = {
+	type: 0xC2;
+	value: string[];
+};
+
+type BinaryTableNode = {
+	type: 0xC3;
+	value: Uint8Array[];
+};
+
+type BoolNode = {
+	type: 0xD0;
+	value: boolean;
+};
+
+type IntegerNode = {
+	type: 0xD1;
+	value: number;
+};
+
+type FloatNode = {
+	type: 0xD2;
+	value: number;
+};
+
+type UnsignedIntegerNode = {
+	type: 0xD3;
+	value: number;
+};
+
+type Integer64Node = {
+	type: 0xD4;
+	value: bigint;
+};
+
+type UnsignedInteger64Node = {
+	type: 0xD5;
+	value: bigint;
+};
+
+type DoubleNode = {
+	type: 0xD6;
+	value: number;
+};
+
+type NullNode = {
+	type: 0xFF;
+	value: null;
+};
+
+type RootNode = DictionaryNode | ArrayNode;
+
+/**
+ * BYAML parsing. Works in browsers, Deno and Node
+ *
+ * The Node entry point extends this with file access
+ */
+export class BYAML {
+	protected stream: Stream;
+	private dictionaryKeyTable: StringTableNode;
+	private stringTable: StringTableNode;
+	private binaryDataTable: BinaryTableNode; // * Only seen in older versions
+	private rootNodeOffset: number;
+
+	/**
+	 * BYAML version number
+	 */
+	public version: number;
+
+	/**
+	 * Root node of the file
+	 */
+	public rootNode: RootNode;
+
+	/**
+	 * Parses the byaml from the provided `data`
+	 *
+	 * @param data - BYAML data
+	 */
+	public parseFromBytes(data: Uint8Array | ArrayBuffer): void {
+		this.stream = new Stream(data);
+		this.parse();
+	}
+
+	/**
+	 * Parses the byaml from the provided string
+	 *
+	 * Calls `parseFromBytes` internally
+	 *
+	 * @param base64 - Base64 encoded BYAML data
+	 */
+	public parseFromString(base64: string): void {
+		this.parseFromBytes(fromBase64(base64));
+	}
+
+	/**
+	 * Parses the byaml from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public parseFromStream(stream: Stream): void {
+		this.stream = stream;
+		this.parse();
+	}
+
+	/**
+	 * Parses the byaml from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of BYAML data
+	 */
+	public async parseFromWebStream(stream: WebReadableStream): Promise<void> {
+		this.parseFromBytes(await readWebStream(stream));
+	}
+
+	/**
+	 * Creates a new instance of `BYAML` and
+	 * parses the byaml from the provided `data`
+	 *
+	 * @param data - BYAML data
+	 */
+	public static fromBytes<T extends BYAML>(this: new () => T, data: Uint8Array | ArrayBuffer): T {
+		const byaml = new this();
+		byaml.parseFromBytes(data);
+
+		return byaml;
+	}
+
+	/**
+	 * Creates a new instance of `BYAML` and
+	 * parses the byaml from the provided string
+	 *
+	 * @param base64 - Base64 encoded BYAML data
+	 */
+	public static fromString<T extends BYAML>(this: new () => T, base64: string): T {
+		const byaml = new this();
+		byaml.parseFromString(base64);
+
+		return byaml;
+	}
+
+	/**
+	 * Creates a new instance of `BYAML` and
+	 * parses the byaml from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public static fromStream<T extends BYAML>(this: new () => T, stream: Stream): T {
+		const byaml = new this();
+		byaml.parseFromStream(stream);
+
+		return byaml;
+	}
+
+	/**
+	 * Creates a new instance of `BYAML` and
+	 * parses the byaml from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of BYAML data
+	 */
+	public static async fromWebStream<T extends BYAML>(this: new () => T, stream: WebReadableStream): Promise<T> {
+		const byaml = new this();
+		await byaml.parseFromWebStream(stream);
+
+		return byaml;
+	}
+
+	protected parse(): void {
+		withFormat('BYAML', () => {
+			this.parseHeader();
+
+			this.stream.seek(this.rootNodeOffset);
+			const rootNode = this.readNode();
+
+			if (rootNode.type !== NodeTypes.ARRAY && rootNode.type !== NodeTypes.DICTIONARY) {
+				throw new Error(`Invalid root node type. Expected either 0xC0 (Array) or 0xC1 (Dictionary). Got 0x${rootNode.type.toString(16).toUpperCase()}`);
+			}
+
+			this.rootNode = rootNode as RootNode; // TODO - Can this "as" call be removed?
+		});
+	}
+
+	private parseHeader(): void {
+		const magic = this.stream.readBytes(2);
+
+		if (!bytesEqual(magic, MAGIC_BE) && !bytesEqual(magic, MAGIC_LE)) {
+			throw new Error(`Invalid BYAML magic. Expected either BY (big endian) or YB (little endian). Got ${new TextDecoder().decode(magic)}`);
+		}
+
+		if (bytesEqual(magic, MAGIC_BE)) {
+			this.stream.bom = 'be';
+		}
+
+		this.version = this.stream.readUInt16();
+
+		const dictionaryKeyTableOffset = this.stream.readUInt32();
+		const stringTableOffset = this.stream.readUInt32();
+		let binaryDataTableOffset = 0;
+
+		// * Binary data table offset only exists in versions before v4
+		if (this.version > 4) {
+			// * Some games, like Splatoon, do not update the BYAML version number.
+			// * To account for these cases check the offset of this table.
+			if (dictionaryKeyTableOffset !== 0x10) {
+				binaryDataTableOffset = this.stream.readUInt32();
+			}
+		}
+
+		this.rootNodeOffset = this.stream.readUInt32();
+
+		this.stream.seek(dictionaryKeyTableOffset + 1); // * Skip the type byte
+		this.dictionaryKeyTable = this.readStringTableNode();
+
+		this.stream.seek(stringTableOffset + 1); // * Skip the type byte
+		this.stringTable = this.readStringTableNode();
+
+		if (binaryDataTableOffset) {
+			this.stream.seek(binaryDataTableOffset + 1); // * Skip the type byte
+			this.binaryDataTable = this.readBinaryTableNode();
+		}
+	}
+
+	private readNode(): Node {
+		const nodeType = this.stream.readUInt8();
+
+		return this.readTypedNode(nodeType);
+	}
+
+	private readTypedNode(nodeType: number): Node {
+		switch (nodeType) {
+			case NodeTypes.STRING:
+				return this.readStringNode();
+			case NodeTypes.BINARY_DATA:
+				return this.readBinaryDataNode();
+			case NodeTypes.BINARY_DATA_WITH_PARAM:
+				return this.readBinaryDataWithParamNode();
+			case NodeTypes.ARRAY:
+				return this.readArrayNode();
+			case NodeTypes.DICTIONARY:
+				return this.readDictionaryNode();
+			case NodeTypes.STRING_TABLE:
+				return this.readStringTableNode();
+			case NodeTypes.BINARY_TABLE:
+				return this.readBinaryTableNode();
+			case NodeTypes.BOOL:
+				return this.readBoolNode();
+			case NodeTypes.INT32:
+				return this.readIntegerNode();
+			case NodeTypes.FLOAT:
+				return this.readFloatNode();
+			case NodeTypes.UINT32:
+				return this.readUnsignedIntegerNode();
+			case NodeTypes.INT64:
+				return this.readInteger64Node();
+			case NodeTypes.UINT64:
+				return this.readUnsignedInteger64Node();
+			case NodeTypes.DOUBLE:
+				return this.readDoubleNode();
+			case NodeTypes.NULL:
+				return this.readNullNode();
+			default:
+				throw new Error(`Invalid node type. Got 0x${nodeType.toString(16).toUpperCase()}`);
+		}
+	}
+
+	private readContainerValue(nodeType: number): Node {
+		// * Values for container nodes, and new number nodes, are offsets to the node relative to the start of the file
+		if (
+			nodeType === NodeTypes.ARRAY ||
+			nodeType === NodeTypes.DICTIONARY ||
+			nodeType === NodeTypes.INT64 ||
+			nodeType === NodeTypes.UINT64 ||
+			nodeType === NodeTypes.DOUBLE
+		) {
+			const offset = this.stream.readUInt32();
+			const before = this.stream.tell();
+
+			this.stream.seek(offset);
+
+			// * Container nodes start with their own type byte, number nodes do not
+			const node = nodeType === NodeTypes.ARRAY || nodeType === NodeTypes.DICTIONARY ? this.readNode() : this.readTypedNode(nodeType);
+
+			this.stream.seek(before);
+
+			return node;
+		}
+
+		// * All other nodes store their value inline
+		return this.readTypedNode(nodeType);
+	}
+
+	private readStringNode(): StringNode {
+		// * Values for string nodes are indexes into the string table
+		const index = this.stream.readUInt32();
+
+		return {
+			type: NodeTypes.STRING,
+			value: this.stringTable.value[index]
+		};
+	}
+
+	private readBinaryDataNode(): BinaryDataNode {
+		// TODO - Implement this
+		throw new Error('BinaryDataNodes not implemented');
+
+		return {
+			type: NodeTypes.BINARY_DATA,
+			value: allocBytes(0)
+		};
+	}
+
+	private readBinaryDataWithParamNode(): BinaryDataWithParamNode {
+		// TODO - Implement this
+		throw new Error('BinaryDataWithParamNodes not implemented');
+
+		return {
+			type: NodeTypes.BINARY_DATA_WITH_PARAM,
+			value: allocBytes(0)
+		};
+	}
+
+	private readArrayNode(): ArrayNode {
+		const count = this.stream.readUInt24();
+		const typeTable: number[] = [];
+
+		for (let i = 0; i < count; i++) {
+			const nodeType = this.stream.readUInt8();
+
+			typeTable.push(nodeType);
+		}
+
+		this.stream.alignBlock(4); // * Types table is padded to a multiple of 4 using null bytes
+
+		const elements: Node[] = [];
+
+		for (const nodeType of typeTable) {
+			elements.push(this.readContainerValue(nodeType));
+		}
+
+		return {
+			type: NodeTypes.ARRAY,
+			value: elements
+		};
+	}
+
+	private readDictionaryNode(): DictionaryNode {
+		const count = this.stream.readUInt24();
+		const map: Record<string, Node> = {};
+
+		for (let i = 0; i < count; i++) {
+			const keyIndex = this.stream.readUInt24();
+			const nodeType = this.stream.readUInt8();
+			const key = this.dictionaryKeyTable.value[keyIndex];
+
+			map[key] = this.readContainerValue(nodeType);
+		}
+
+		return {
+			type: NodeTypes.DICTIONARY,
+			value: map
+		};
+	}
+
+	private readStringTableNode(): StringTableNode {
+		const count = this.stream.readUInt24() + 1;
+		const offsetStart = this.stream.tell() - 4; // * Addresses of strings are relative to the start of the node
+
+		const addressTable: number[] = [];
+
+		for (let i = 0; i < count; i++) {
+			const offset = this.stream.readUInt32();
+			const address = offsetStart + offset;
+
+			addressTable.push(address);
+		}
+
+		const strings: string[] = [];
+
+		for (const address of addressTable) {
+			this.stream.seek(address);
+
+			strings.push(this.stream.readNullTerminatedString());
+		}
+
+		return {
+			type: NodeTypes.STRING_TABLE,
+			value: strings
+		};
+	}
+
+	private readBinaryTableNode(): BinaryTableNode {
+		// TODO - Implement this
+		throw new Error('BinaryTableNodes not implemented');
+
+		return {
+			type: NodeTypes.BINARY_TABLE,
+			value: []
+		};
+	}
+
+	private readBoolNode(): BoolNode {
+		return {
+			type: NodeTypes.BOOL,
+			value: !!this.stream.readUInt32()
+		};
+	}
+
+	private readIntegerNode(): IntegerNode {
+		return {
+			type: NodeTypes.INT32,
+			value: this.stream.readInt32()
+		};
+	}
+
+	private readFloatNode(): FloatNode {
+		return {
+			type: NodeTypes.FLOAT,
+			value: this.stream.readFloat()
+		};
+	}
+
+	private readUnsignedIntegerNode(): UnsignedIntegerNode {
+		return {
+			type: NodeTypes.UINT32,
+			value: this.stream.readUInt32()
+		};
+	}
+
+	private readInteger64Node(): Integer64Node {
+		return {
+			type: NodeTypes.INT64,
+			value: this.stream.readInt64()
+		};
+	}
+
+	private readUnsignedInteger64Node(): UnsignedInteger64Node {
+		return {
+			type: NodeTypes.UINT64,
+			value: this.stream.readUInt64()
+		};
+	}
+
+	private readDoubleNode(): DoubleNode {
+		return {
+			type: NodeTypes.DOUBLE,
+			value: this.stream.readDouble()
+		};
+	}
+
+	private readNullNode(): NullNode {
+		this.stream.skip(4); // * Null nodes still take up a value slot, which is always 0
+
+		return {
+			type: NodeTypes.NULL,
+			value: null
+		};
+	}
+
+	public toJSON(): RootNode {
+		return this.rootNode;
+	}
+}
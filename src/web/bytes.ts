@@ -0,0 +1,154 @@
+/**
+ * The parts of Node's `Buffer` constructor used when it is available
+ */
+interface BufferConstructorLike {
+	alloc(size: number): Uint8Array;
+	from(data: ArrayBufferLike, byteOffset?: number, length?: number): Uint8Array;
+	isBuffer(data: unknown): boolean;
+}
+
+/**
+ * A web `ReadableStream` of bytes. Only the parts that are used are
+ * described, so both the DOM and `node:stream/web` stream types are accepted
+ */
+export interface WebReadableStream {
+	getReader(): {
+		read(): Promise<{ done: boolean; value?: Uint8Array }>;
+		releaseLock(): void;
+	};
+}
+
+// * Only present in Node. Bytes are created as Buffers there, so data parsed
+// * through the isomorphic classes can still be used with Node APIs
+const NodeBuffer = (globalThis as { Buffer?: BufferConstructorLike }).Buffer;
+
+/**
+ * Allocates zero-filled data. Uses `Buffer` when running in Node
+ *
+ * @param size - The size of the data
+ * @returns the allocated data
+ */
+export function allocBytes(size: number): Uint8Array {
+	return NodeBuffer ? NodeBuffer.alloc(size) : new Uint8Array(size);
+}
+
+/**
+ * Views data as bytes without copying it. Uses `Buffer` when running in Node
+ *
+ * @param data - The data to view
+ * @returns the viewed data
+ */
+export function toBytes(data: Uint8Array | ArrayBuffer): Uint8Array {
+	if (data instanceof ArrayBuffer) {
+		return NodeBuffer ? NodeBuffer.from(data) : new Uint8Array(data);
+	}
+
+	if (!NodeBuffer || NodeBuffer.isBuffer(data)) {
+		return data;
+	}
+
+	return NodeBuffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
+
+/**
+ * Joins pieces of data together
+ *
+ * @param chunks - The data to join
+ * @returns a copy of all the data
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+	const data = allocBytes(chunks.reduce((size, chunk) => size + chunk.length, 0));
+	let offset = 0;
+
+	for (const chunk of chunks) {
+		data.set(chunk, offset);
+		offset += chunk.length;
+	}
+
+	return data;
+}
+
+/**
+ * Decodes base64 encoded data without using `Buffer`
+ *
+ * @param base64 - Base64 encoded data
+ * @returns the decoded data
+ */
+export function fromBase64(base64: string): Uint8Array {
+	const binary = atob(base64);
+	const data = allocBytes(binary.length);
+
+	for (let i = 0; i < binary.length; i++) {
+		data[i] = binary.charCodeAt(i);
+	}
+
+	return data;
+}
+
+/**
+ * Encodes data as unpadded base64url, as used by JWKs
+ *
+ * @param data - The data to encode
+ * @returns the encoded data
+ */
+export function toBase64URL(data: Uint8Array): string {
+	let binary = '';
+
+	for (const byte of data) {
+		binary += String.fromCharCode(byte);
+	}
+
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Checks if two pieces of data contain the same bytes
+ *
+ * @param a - The first piece of data
+ * @param b - The second piece of data
+ * @returns true if the data is equal
+ */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+
+	return a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Reads a web `ReadableStream` to the end
+ *
+ * @param stream - The stream to read
+ * @returns all of the data in the stream
+ */
+export async function readWebStream(stream: WebReadableStream): Promise<Uint8Array> {
+	const chunks: Uint8Array[] = [];
+
+	for await (const chunk of iterateWebStream(stream)) {
+		chunks.push(chunk);
+	}
+
+	return concatBytes(chunks);
+}
+
+/**
+ * Iterates over the chunks of a web `ReadableStream`. The stream
+ * is unlocked once iteration finishes or is stopped early
+ *
+ * @param stream - The stream to read
+ * @returns the chunks of the stream
+ */
+export async function* iterateWebStream(stream: WebReadableStream): AsyncGenerator<Uint8Array> {
+	const reader = stream.getReader();
+
+	try {
+		for (let result = await reader.read(); !result.done; result = await reader.read()) {
+			if (result.value) {
+				yield result.value;
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
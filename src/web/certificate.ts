@@ -0,0 +1,381 @@
+import { Stream } from '@/stream';
+import { fromBase64, readWebStream, toBase64URL } from '@/web/bytes';
+import { KeyType, getSignatureAlgorithm, getSignatureHash, isKeyType, signatureFields } from '@/signatures';
+import { Schema } from '@/schema';
+import { withFormat, withFormatAsync } from '@/errors';
+import type { SignatureAlgorithm, SignatureType } from '@/signatures';
+import type { WebReadableStream } from '@/web/bytes';
+import type { AsyncStream } from '@/schema';
+
+export interface SignedData {
+	signatureType: SignatureType;
+	signature: Uint8Array;
+	signatureBody: Uint8Array;
+}
+
+export interface RSAPublicKeyComponents {
+	modulus: Uint8Array;
+
+	/**
+	 * Fixed 4 byte exponent, usually with leading zeros
+	 */
+	exponent: Uint8Array;
+}
+
+export interface ECDSAPublicKeyComponents {
+	x: Uint8Array;
+	y: Uint8Array;
+}
+
+export type PublicKeyComponents = RSAPublicKeyComponents | ECDSAPublicKeyComponents;
+
+const CERTIFICATE_SCHEMA = new Schema<Certificate>([
+	...signatureFields<Certificate>(),
+	{ name: 'issuer', type: 'string', size: 0x40 },
+	{
+		name: 'keyType',
+		type: 'uint32',
+		validate: (value): void => {
+			if (!isKeyType(value as number)) {
+				throw new Error(`Unknown certificate key type 0x${value.toString(16)}`);
+			}
+		}
+	},
+	{ name: 'name', type: 'string', size: 0x40 },
+	{ name: 'expiration', type: 'uint32' },
+	{ name: 'publicKeyData', type: 'bytes', size: (certificate): number => getPublicKeyDataSize(certificate.keyType) }
+], {
+	signed: { from: 'issuer', to: 'publicKeyData' }
+});
+
+/**
+ * Gets the size of the key data for a given key type
+ *
+ * @param keyType - The type of key
+ * @returns the size of the key data, including padding
+ *
+ * @throws {Error} If the key type is unknown
+ */
+export function getPublicKeyDataSize(keyType: number): number {
+	switch (keyType) {
+		case KeyType.RSA_4096:
+			return 0x200 + 0x4 + 0x34;
+		case KeyType.RSA_2048:
+			return 0x100 + 0x4 + 0x34;
+		case KeyType.ECDSA_233R1:
+			return 0x3C + 0x3C;
+		default:
+			throw new Error(`Unknown certificate key type 0x${keyType.toString(16)}`);
+	}
+}
+
+/**
+ * Gets the size of the RSA modulus for a given key type
+ *
+ * @param keyType - The type of key
+ * @returns the modulus size in bytes
+ */
+export function getRSAModulusSize(keyType: KeyType.RSA_4096 | KeyType.RSA_2048): number {
+	return keyType === KeyType.RSA_4096 ? 0x200 : 0x100;
+}
+
+/**
+ * Certificate parsing and encoding. Works in browsers, Deno and Node.
+ * Signatures are verified using WebCrypto
+ *
+ * The Node entry point extends this with file access, signing
+ * and synchronous verification using `node:crypto`
+ */
+export class Certificate {
+	protected stream: Stream;
+
+	/**
+	 * The type of signature used to sign the certificate
+	 */
+	public signatureType: SignatureType;
+
+	/**
+	 * The certificate data signature
+	 */
+	public signature: Uint8Array;
+
+	/**
+	 * The name of the issuer of the certificate
+	 */
+	public issuer: string;
+
+	/**
+	 * The type of key inside the certificate
+	 */
+	public keyType: KeyType;
+
+	/**
+	 * Certificate name
+	 */
+	public name: string;
+
+	/**
+	 * Certificate expiration time?
+	 */
+	public expiration: number;
+
+	/**
+	 * Internal certificate key data
+	 */
+	public publicKeyData: Uint8Array;
+
+	/**
+	 * The data used to create the certificate signature
+	 */
+	public signatureBody: Uint8Array; // * Used to verify the signature
+
+	/**
+	 * Parses the certificate from the provided `data`
+	 *
+	 * @param data - Certificate data
+	 */
+	public parseFromBytes(data: Uint8Array | ArrayBuffer): void {
+		this.stream = new Stream(data);
+		this.parse();
+	}
+
+	/**
+	 * Parses the certificate from the provided string
+	 *
+	 * Calls `parseFromBytes` internally
+	 *
+	 * @param base64 - Base64 encoded certificate data
+	 */
+	public parseFromString(base64: string): void {
+		this.parseFromBytes(fromBase64(base64));
+	}
+
+	/**
+	 * Parses the certificate from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public parseFromStream(stream: Stream): void {
+		this.stream = stream;
+		this.parse();
+	}
+
+	/**
+	 * Parses the certificate from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of certificate data
+	 */
+	public async parseFromWebStream(stream: WebReadableStream): Promise<void> {
+		this.parseFromBytes(await readWebStream(stream));
+	}
+
+	/**
+	 * Parses the certificate from an existing async stream, such as an `AsyncFileStream`.
+	 * Fields are read as they are reached, and data after the certificate is left unread
+	 *
+	 * @param stream - An existing async stream
+	 */
+	public async parseFromAsyncStream(stream: AsyncStream): Promise<void> {
+		await withFormatAsync('Certificate', async () => {
+			await CERTIFICATE_SCHEMA.parseAsync(stream, this);
+			this.signatureBody = this.computeSignatureBody();
+		});
+	}
+
+	/**
+	 * Creates a new instance of `Certificate` and
+	 * parses the certificate from the provided `data`
+	 *
+	 * @param data - Certificate data
+	 */
+	public static fromBytes<T extends Certificate>(this: new () => T, data: Uint8Array | ArrayBuffer): T {
+		const certificate = new this();
+		certificate.parseFromBytes(data);
+
+		return certificate;
+	}
+
+	/**
+	 * Creates a new instance of `Certificate` and
+	 * parses the certificate from the provided string
+	 *
+	 * @param base64 - Base64 encoded certificate data
+	 */
+	public static fromString<T extends Certificate>(this: new () => T, base64: string): T {
+		const certificate = new this();
+		certificate.parseFromString(base64);
+
+		return certificate;
+	}
+
+	/**
+	 * Creates a new instance of `Certificate` and
+	 * parses the certificate from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public static fromStream<T extends Certificate>(this: new () => T, stream: Stream): T {
+		const certificate = new this();
+		certificate.parseFromStream(stream);
+
+		return certificate;
+	}
+
+	/**
+	 * Creates a new instance of `Certificate` and
+	 * parses the certificate from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of certificate data
+	 */
+	public static async fromWebStream<T extends Certificate>(this: new () => T, stream: WebReadableStream): Promise<T> {
+		const certificate = new this();
+		await certificate.parseFromWebStream(stream);
+
+		return certificate;
+	}
+
+	/**
+	 * Creates a new instance of `Certificate` and
+	 * parses the certificate from an existing async stream
+	 *
+	 * @param stream - An existing async stream
+	 */
+	public static async fromAsyncStream<T extends Certificate>(this: new () => T, stream: AsyncStream): Promise<T> {
+		const certificate = new this();
+		await certificate.parseFromAsyncStream(stream);
+
+		return certificate;
+	}
+
+	/**
+	 * Describes the algorithm of the `signatureType`, such as the hash, key size and curve
+	 *
+	 * @throws {Error} If the signature type is unknown
+	 */
+	public get signatureAlgorithm(): SignatureAlgorithm {
+		return getSignatureAlgorithm(this.signatureType);
+	}
+
+	/**
+	 * Gets the size of the Certificate
+	 *
+	 * @returns Certificate size
+	 */
+	public size(): number {
+		return CERTIFICATE_SCHEMA.size(this);
+	}
+
+	/**
+	 * Encodes the Certificate data
+	 *
+	 * @returns encoded Certificate
+	 */
+	public bytes(): Uint8Array {
+		return CERTIFICATE_SCHEMA.bytes(this);
+	}
+
+	/**
+	 * Gets the name other data uses to refer to this certificate as its issuer
+	 *
+	 * @returns the issuer and name joined with a dash, e.g. `Root-CA00000003-XS0000000c`
+	 */
+	public getFullName(): string {
+		return this.issuer ? `${this.issuer}-${this.name}` : this.name;
+	}
+
+	/**
+	 * Validates the input signature using the Certificates internal key data
+	 * and WebCrypto. The hash algorithm is picked from the signature type of the input
+	 *
+	 * @returns true if the signature was valid for the input data
+	 *
+	 * @throws {Error} If the key type is not supported by WebCrypto, or the signature type is unknown
+	 */
+	public async verifySignatureAsync(signedData: SignedData): Promise<boolean> {
+		const key = await this.importKey(getSignatureHash(signedData.signatureType) === 'sha1' ? 'SHA-1' : 'SHA-256');
+
+		// * WebCrypto only accepts data backed by an ArrayBuffer, so copy out of any shared views
+		const signature = new Uint8Array(signedData.signature);
+		const signatureBody = new Uint8Array(signedData.signatureBody);
+
+		return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signatureBody);
+	}
+
+	/**
+	 * Imports the Certificates internal key data as a WebCrypto key
+	 *
+	 * Only RSA keys are supported. WebCrypto does not support
+	 * the sect233r1 curve used by ECDSA certificates
+	 *
+	 * @param hash - Optional. The hash algorithm the key verifies with. Defaults to `SHA-256`
+	 * @returns the public key
+	 *
+	 * @throws {Error} If the key type is not supported by WebCrypto
+	 */
+	public async importKey(hash: 'SHA-1' | 'SHA-256' = 'SHA-256'): Promise<CryptoKey> {
+		if (this.keyType === KeyType.ECDSA_233R1) {
+			throw new Error('ECDSA sect233r1 keys are not supported by WebCrypto');
+		}
+
+		const { modulus, exponent } = this.exportKeyRaw() as RSAPublicKeyComponents;
+		let exponentStart = 0;
+
+		// * JWKs do not allow leading zeros, which the fixed size exponent usually has
+		while (exponentStart < exponent.length - 1 && exponent[exponentStart] === 0) {
+			exponentStart++;
+		}
+
+		const jwk: JsonWebKey = {
+			kty: 'RSA',
+			n: toBase64URL(modulus),
+			e: toBase64URL(exponent.subarray(exponentStart)),
+			ext: true
+		};
+
+		return crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash }, true, ['verify']);
+	}
+
+	/**
+	 * Exports the Certificates internal key data without any encoding
+	 *
+	 * @returns the RSA modulus and exponent, or the ECDSA curve point
+	 *
+	 * @throws {Error} If the key type is unknown
+	 */
+	public exportKeyRaw(): PublicKeyComponents {
+		switch (this.keyType) {
+			case KeyType.RSA_4096:
+			case KeyType.RSA_2048: {
+				const modulusSize = getRSAModulusSize(this.keyType);
+
+				return {
+					modulus: this.publicKeyData.subarray(0x0, modulusSize),
+					exponent: this.publicKeyData.subarray(modulusSize, modulusSize + 0x4)
+				};
+			}
+			case KeyType.ECDSA_233R1:
+				return {
+					x: this.publicKeyData.subarray(0x0, 0x1E),
+					y: this.publicKeyData.subarray(0x1E, 0x3C)
+				};
+			default:
+				throw new Error(`Unknown certificate key type 0x${(this.keyType as number).toString(16)}`);
+		}
+	}
+
+	/**
+	 * Encodes the fields covered by the signature
+	 *
+	 * @returns the data the signature is made over
+	 */
+	protected computeSignatureBody(): Uint8Array {
+		return CERTIFICATE_SCHEMA.signatureBody(this);
+	}
+
+	protected parse(): void {
+		withFormat('Certificate', () => {
+			CERTIFICATE_SCHEMA.parse(this.stream, this);
+			this.signatureBody = this.computeSignatureBody();
+		});
+	}
+}
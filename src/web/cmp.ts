@@ -0,0 +1,152 @@
+import { Stream } from '@/stream';
+import { fromBase64, readWebStream } from '@/web/bytes';
+import { withFormat } from '@/errors';
+import type { WebReadableStream } from '@/web/bytes';
+
+/**
+ * The parts of a CMP file
+ */
+export interface CMPData {
+	decompressedSize: number;
+	compressed: Uint8Array;
+}
+
+/**
+ * Reads the CMP header and the compressed data following it
+ *
+ * @param stream - Stream positioned at the start of the CMP data
+ * @returns the expected decompressed size and the compressed data
+ */
+export function readCMP(stream: Stream): CMPData {
+	return withFormat('CMP', () => {
+		const decompressedSize = stream.readUInt32BE();
+		const compressed = stream.readBytes(stream.remaining());
+
+		return { decompressedSize, compressed };
+	});
+}
+
+/**
+ * Checks that decompressed CMP data has the size given in its header
+ *
+ * @param cmp - The parsed CMP data
+ * @param decompressed - The decompressed data
+ *
+ * @throws {Error} If the sizes do not match
+ */
+export function checkCMPSize(cmp: CMPData, decompressed: Uint8Array): void {
+	if (decompressed.length !== cmp.decompressedSize) {
+		throw new Error(`Invalid decompressed size. Expected ${cmp.decompressedSize}, got ${decompressed.length}`);
+	}
+}
+
+/**
+ * CMP handles the decompression of files using ZLIB. Files of this type usually end
+ * with `*.cmp`
+ *
+ * Uses `DecompressionStream`, so all methods are async
+ */
+export class CMP {
+	private stream: Stream;
+
+	/**
+	 * Decompresses the CMP-compressed data from the provided `data`
+	 *
+	 * @param data - CMP-compressed data
+	 */
+	public async decompressFromBytes(data: Uint8Array | ArrayBuffer): Promise<Uint8Array> {
+		this.stream = new Stream(data);
+		return this.decompress();
+	}
+
+	/**
+	 * Decompresses the CMP-compressed data from the provided string
+	 *
+	 * Calls `decompressFromBytes` internally
+	 *
+	 * @param base64 - Base64 encoded CMP-compressed data
+	 */
+	public async decompressFromString(base64: string): Promise<Uint8Array> {
+		return this.decompressFromBytes(fromBase64(base64));
+	}
+
+	/**
+	 * Decompresses the CMP-compressed data from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public async decompressFromStream(stream: Stream): Promise<Uint8Array> {
+		this.stream = stream;
+		return this.decompress();
+	}
+
+	/**
+	 * Decompresses the CMP-compressed data from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of CMP-compressed data
+	 */
+	public async decompressFromWebStream(stream: WebReadableStream): Promise<Uint8Array> {
+		return this.decompressFromBytes(await readWebStream(stream));
+	}
+
+	/**
+	 * Creates a new instance of `CMP` and
+	 * parses the CMP-compressed data from the provided `data`
+	 *
+	 * @param data - CMP-compressed data
+	 */
+	public static async fromBytes(data: Uint8Array | ArrayBuffer): Promise<Uint8Array> {
+		const cmp = new CMP();
+		return cmp.decompressFromBytes(data);
+	}
+
+	/**
+	 * Creates a new instance of `CMP` and
+	 * parses the CMP-compressed data from the provided string
+	 *
+	 * @param base64 - Base64 encoded CMP-compressed data
+	 */
+	public static async fromString(base64: string): Promise<Uint8Array> {
+		const cmp = new CMP();
+		return cmp.decompressFromString(base64);
+	}
+
+	/**
+	 * Creates a new instance of `CMP` and
+	 * parses the CMP-compressed data from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public static async fromStream(stream: Stream): Promise<Uint8Array> {
+		const cmp = new CMP();
+		return cmp.decompressFromStream(stream);
+	}
+
+	/**
+	 * Creates a new instance of `CMP` and
+	 * parses the CMP-compressed data from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of CMP-compressed data
+	 */
+	public static async fromWebStream(stream: WebReadableStream): Promise<Uint8Array> {
+		const cmp = new CMP();
+		return cmp.decompressFromWebStream(stream);
+	}
+
+	private async decompress(): Promise<Uint8Array> {
+		const cmp = readCMP(this.stream);
+
+		// * The "deflate" format is ZLIB wrapped, matching `zlib.inflateSync`
+		const inflate = new DecompressionStream('deflate');
+		const writer = inflate.writable.getWriter();
+		const [, , decompressed] = await Promise.all([
+			writer.write(new Uint8Array(cmp.compressed)),
+			writer.close(),
+			readWebStream(inflate.readable)
+		]);
+
+		checkCMPSize(cmp, decompressed);
+
+		return decompressed;
+	}
+}
@@ -0,0 +1,20 @@
+// * Isomorphic entry point. Nothing exported here depends on Node
+// * built-ins, so it can be used in browsers and Deno. `Buffer` is
+// * only used to create byte data when it is available
+
+// * File format classes and exports
+export * from '@/web/byaml';
+export * from '@/web/certificate';
+export * from '@/web/cmp';
+export * from '@/web/msbt';
+export * from '@/web/smdh';
+export * from '@/web/tmd';
+
+// * Utility classes and exports
+export * from '@/stream';
+export * from '@/stream-writer';
+export * from '@/schema';
+export * from '@/web/bytes';
+export * from '@/signatures';
+export * from '@/title-id';
+export * from '@/errors';
@@ -0,0 +1,274 @@
+import { Stream } from '@/stream';
+import { bytesEqual, fromBase64, readWebStream } from '@/web/bytes';
+import { withFormat } from '@/errors';
+import type { WebReadableStream } from '@/web/bytes';
+
+const MSBT_MAGIC = new TextEncoder().encode('MsgStdBn');
+const BIG_ENDIAN = new Uint8Array([0xFE, 0xFF]);
+const LITTLE_ENDIAN = new Uint8Array([0xFF, 0xFE]);
+
+/**
+ * MSBT parsing. Works in browsers, Deno and Node
+ *
+ * The Node entry point extends this with file access
+ */
+export class MSBT {
+	protected stream: Stream;
+	private sectionsCount: number;
+
+	/**
+	 * Unknown
+	 */
+	public labels: { label: string; id: number }[] = [];
+
+	/**
+	 * Text messages
+	 */
+	public messages: string[] = [];
+
+	/**
+	 * Text attributes
+	 */
+	public attributes: Uint8Array[] = [];
+
+	/**
+	 * Text styles
+	 */
+	public textStyles: string[] = [];
+
+	/**
+	 * Unknown
+	 */
+	public nodeLabels: number[] = [];
+
+	/**
+	 * Parses the MSBT from the provided `data`
+	 *
+	 * @param data - MSBT data
+	 */
+	public parseFromBytes(data: Uint8Array | ArrayBuffer): void {
+		this.stream = new Stream(data);
+		this.parse();
+	}
+
+	/**
+	 * Parses the MSBT from the provided string
+	 *
+	 * Calls `parseFromBytes` internally
+	 *
+	 * @param base64 - Base64 encoded MSBT data
+	 */
+	public parseFromString(base64: string): void {
+		this.parseFromBytes(fromBase64(base64));
+	}
+
+	/**
+	 * Parses the MSBT from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public parseFromStream(stream: Stream): void {
+		this.stream = stream;
+		this.parse();
+	}
+
+	/**
+	 * Parses the MSBT from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of MSBT data
+	 */
+	public async parseFromWebStream(stream: WebReadableStream): Promise<void> {
+		this.parseFromBytes(await readWebStream(stream));
+	}
+
+	/**
+	 * Creates a new instance of `MSBT` and
+	 * parses the MSBT from the provided `data`
+	 *
+	 * @param data - MSBT data
+	 */
+	public static fromBytes<T extends MSBT>(this: new () => T, data: Uint8Array | ArrayBuffer): T {
+		const msbt = new this();
+		msbt.parseFromBytes(data);
+
+		return msbt;
+	}
+
+	/**
+	 * Creates a new instance of `MSBT` and
+	 * parses the MSBT from the provided string
+	 *
+	 * @param base64 - Base64 encoded MSBT data
+	 */
+	public static fromString<T extends MSBT>(this: new () => T, base64: string): T {
+		const msbt = new this();
+		msbt.parseFromString(base64);
+
+		return msbt;
+	}
+
+	/**
+	 * Creates a new instance of `MSBT` and
+	 * parses the MSBT from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public static fromStream<T extends MSBT>(this: new () => T, stream: Stream): T {
+		const msbt = new this();
+		msbt.parseFromStream(stream);
+
+		return msbt;
+	}
+
+	/**
+	 * Creates a new instance of `MSBT` and
+	 * parses the MSBT from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of MSBT data
+	 */
+	public static async fromWebStream<T extends MSBT>(this: new () => T, stream: WebReadableStream): Promise<T> {
+		const msbt = new this();
+		await msbt.parseFromWebStream(stream);
+
+		return msbt;
+	}
+
+	/**
+	 * Parses the MSBT from the input source provided at instantiation
+	 */
+	public parse(): void {
+		withFormat('MSBT', () => {
+			const magic = this.stream.readBytes(0x8);
+
+			if (!bytesEqual(MSBT_MAGIC, magic)) {
+				throw new Error('Invalid MSBT magic');
+			}
+
+			const bom = this.stream.readBytes(0x2);
+
+			if (!bytesEqual(LITTLE_ENDIAN, bom) && !bytesEqual(BIG_ENDIAN, bom)) {
+				throw new Error('Invalid BOM indicator');
+			}
+
+			if (bytesEqual(BIG_ENDIAN, bom)) {
+				this.stream.bom = 'be';
+			}
+
+			this.stream.skip(0x2); // * Unknown. Always 0x0000
+			this.stream.skip(0x2); // * Unknown. Always 0x0103
+			this.sectionsCount = this.stream.readUInt16('sectionsCount');
+			this.stream.skip(0x2); // * Unknown. Always 0x0000
+			this.stream.skip(0x4); // * File size
+			this.stream.skip(10); // * Unknown. Always 0
+
+			for (let i = 0; i < this.sectionsCount; i++) {
+				const sectionMagic = this.stream.readPaddedString(0x4, 'ascii');
+				const sectionSize = this.stream.readUInt32();
+				this.stream.skip(0x8); // * Unknown. Always 0
+
+				const base = this.stream.tell();
+
+				switch (sectionMagic) {
+					case 'LBL1':
+						this.parseLBL1();
+						break;
+
+					case 'ATR1':
+						this.parseATR1();
+						break;
+
+					case 'TXT2':
+						this.parseTXT2();
+						break;
+
+					case 'TSY1':
+						this.parseTSY1();
+						break;
+					case 'NLI1':
+						this.parseNLI1();
+						break;
+					default:
+						throw new Error('Invalid section magic');
+				}
+
+				let endpos = base + sectionSize;
+				endpos += 0x10 - (endpos % 0x10 || 0x10);
+
+				this.stream.seek(endpos);
+			}
+		});
+	}
+
+	private parseLBL1(): void {
+		const base = this.stream.tell();
+
+		const numberHashTableSlots = this.stream.readUInt32();
+
+		for (let i = 0; i < numberHashTableSlots; i++) {
+			const numberOfLabels = this.stream.readUInt32();
+			const labelOffset = this.stream.readUInt32();
+
+			const tmpPos = this.stream.tell();
+			this.stream.seek(base + labelOffset);
+
+			for (let i = 0; i < numberOfLabels; i++) {
+				const length = this.stream.readUInt8();
+				const label = this.stream.readPaddedString(length);
+				const id = this.stream.readUInt32();
+
+				this.labels.push({ label, id });
+			}
+
+			this.stream.seek(tmpPos);
+		}
+	}
+
+	private parseATR1(): void {
+		const base = this.stream.tell();
+		const messageCount = this.stream.readUInt32(); // * Should be same as LBL1
+		const attributeSize = this.stream.readUInt32();
+
+		if (attributeSize > 0) {
+			for (let i = 0; i < messageCount; i++) {
+				const attributeOffset = this.stream.readUInt32();
+				const tmpPos = this.stream.tell();
+
+				this.stream.seek(base + attributeOffset);
+
+				const attribute = this.stream.readBytes(attributeSize);
+
+				this.attributes.push(attribute);
+
+				this.stream.seek(tmpPos);
+			}
+		}
+	}
+
+	private parseTXT2(): void {
+		const base = this.stream.tell();
+		const messageCount = this.stream.readUInt32();
+
+		for (let i = 0; i < messageCount; i++) {
+			const messageOffset = this.stream.readUInt32();
+
+			const tmpPos = this.stream.tell();
+			this.stream.seek(base + messageOffset);
+
+			this.messages.push(this.stream.readNullTerminatedString('utf16'));
+
+			this.stream.seek(tmpPos);
+		}
+	}
+
+	private parseNLI1(): void {
+		const entryCount = this.stream.readUInt32();
+		for (let i = 0; i < entryCount; i++) {
+			// * For MK8 MSBT, when this is parsed, the TXT2 array is empty.
+			const messageID = this.stream.readUInt32();
+			const txt2Index = this.stream.readUInt32();
+			this.nodeLabels[messageID] = txt2Index;
+		}
+	}
+
+	private parseTSY1(): void {}
+}
@@ -0,0 +1,382 @@
+import { Stream } from '@/stream';
+import { bytesEqual, fromBase64, readWebStream } from '@/web/bytes';
+import { withFormat } from '@/errors';
+import type { WebReadableStream } from '@/web/bytes';
+
+const SMDH_MAGIC = new TextEncoder().encode('SMDH');
+
+const TILE_ORDER = [
+	0, 1, 8, 9, 2, 3, 10, 11, 16, 17, 24, 25, 18, 19, 26, 27, 4, 5, 12, 13, 6, 7,
+	14, 15, 20, 21, 28, 29, 22, 23, 30, 31, 32, 33, 40, 41, 34, 35, 42, 43, 48,
+	49, 56, 57, 50, 51, 58, 59, 36, 37, 44, 45, 38, 39, 46, 47, 52, 53, 60, 61,
+	54, 55, 62, 63
+];
+
+export interface SMDHApplicationTitle {
+	descriptionShort: string;
+	descriptionLong: string;
+	publisher: string;
+}
+
+export interface SMDHApplicationSettings {
+	regionSpecificGameRatings: Uint8Array;
+	regionLockout: number;
+	matchMakerIDs: Uint8Array;
+	flags: number;
+	EULAVersion: number;
+	reserved: number;
+	optimalAnimationDefaultFrame: number;
+	streetPassID: number;
+}
+
+/**
+ * Decoded icon pixels. `data` is RGBA, and can be passed directly to `ImageData`
+ */
+export interface SMDHIcon {
+	data: Uint8ClampedArray;
+	width: number;
+	height: number;
+}
+
+/**
+ * SMDH parsing and icon decoding. Works in browsers, Deno and Node
+ *
+ * The Node entry point extends this with file access and image export
+ */
+export class SMDH {
+	protected stream: Stream;
+	// * Not storing the magic, not needed
+
+	/**
+	 * SMDH version
+	 */
+	public version: number;
+
+	/**
+	 * Unused
+	 */
+	public reserved1: number; // * 2 bytes
+
+	/**
+	 * List of title information of the title the SMDH is for.
+	 * Each index is a different language:
+	 *
+	 * 0. Japanese
+	 * 1. English
+	 * 2. French
+	 * 3. German
+	 * 4. Italian
+	 * 5. Spanish
+	 * 6. Simplified Chinese
+	 * 7. Korean
+	 * 8. Dutch
+	 * 9. Portuguese
+	 * 10. Russian
+	 * 11. Traditional Chinese
+	 */
+	public applicationTitles: SMDHApplicationTitle[] = [];
+
+	/**
+	 * Settings used by the Home Menu
+	 */
+	public applicationSettings: SMDHApplicationSettings;
+
+	/**
+	 * Unused
+	 */
+	public reserved2: bigint;
+
+	/**
+	 * Raw data for the small (24x24) icon
+	 */
+	public iconSmall: Uint8Array;
+
+	/**
+	 * Raw data for the large (48x48) icon
+	 */
+	public iconLarge: Uint8Array;
+
+	/**
+	 * Parses the SMDH from the provided `data`
+	 *
+	 * @param data - SMDH data
+	 */
+	public parseFromBytes(data: Uint8Array | ArrayBuffer): void {
+		this.stream = new Stream(data);
+		this.parse();
+	}
+
+	/**
+	 * Parses the SMDH from the provided string
+	 *
+	 * Calls `parseFromBytes` internally
+	 *
+	 * @param base64 - Base64 encoded SMDH data
+	 */
+	public parseFromString(base64: string): void {
+		this.parseFromBytes(fromBase64(base64));
+	}
+
+	/**
+	 * Parses the SMDH from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public parseFromStream(stream: Stream): void {
+		this.stream = stream;
+		this.parse();
+	}
+
+	/**
+	 * Parses the SMDH from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of SMDH data
+	 */
+	public async parseFromWebStream(stream: WebReadableStream): Promise<void> {
+		this.parseFromBytes(await readWebStream(stream));
+	}
+
+	/**
+	 * Creates a new instance of `SMDH` and
+	 * parses the SMDH from the provided `data`
+	 *
+	 * @param data - SMDH data
+	 */
+	public static fromBytes<T extends SMDH>(this: new () => T, data: Uint8Array | ArrayBuffer): T {
+		const smdh = new this();
+		smdh.parseFromBytes(data);
+
+		return smdh;
+	}
+
+	/**
+	 * Creates a new instance of `SMDH` and
+	 * parses the SMDH from the provided string
+	 *
+	 * @param base64 - Base64 encoded SMDH data
+	 */
+	public static fromString<T extends SMDH>(this: new () => T, base64: string): T {
+		const smdh = new this();
+		smdh.parseFromString(base64);
+
+		return smdh;
+	}
+
+	/**
+	 * Creates a new instance of `SMDH` and
+	 * parses the SMDH from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public static fromStream<T extends SMDH>(this: new () => T, stream: Stream): T {
+		const smdh = new this();
+		smdh.parseFromStream(stream);
+
+		return smdh;
+	}
+
+	/**
+	 * Creates a new instance of `SMDH` and
+	 * parses the SMDH from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of SMDH data
+	 */
+	public static async fromWebStream<T extends SMDH>(this: new () => T, stream: WebReadableStream): Promise<T> {
+		const smdh = new this();
+		await smdh.parseFromWebStream(stream);
+
+		return smdh;
+	}
+
+	protected parse(): void {
+		withFormat('SMDH', () => {
+			const magic = this.stream.readBytes(0x4);
+
+			if (!bytesEqual(magic, SMDH_MAGIC)) {
+				throw new Error('Invalid SMDH');
+			}
+
+			this.version = this.stream.readUInt16LE('version');
+			this.reserved1 = this.stream.readUInt16LE('reserved1');
+
+			for (let i = 0; i < 16; i++) {
+				this.applicationTitles.push({
+					descriptionShort: this.stream.readPaddedString(0x80, 'utf16'),
+					descriptionLong: this.stream.readPaddedString(0x100, 'utf16'),
+					publisher: this.stream.readPaddedString(0x80, 'utf16')
+				});
+			}
+
+			this.applicationSettings = {
+				regionSpecificGameRatings: this.stream.readBytes(0x10, 'regionSpecificGameRatings'), // TODO - Decode this
+				regionLockout: this.stream.readUInt32LE('regionLockout'), // TODO - Split the flags?
+				matchMakerIDs: this.stream.readBytes(0xC, 'matchMakerIDs'), // TODO - Decode this
+				flags: this.stream.readUInt32LE('flags'), // TODO - Split the flags?
+				EULAVersion: this.stream.readUInt16LE('EULAVersion'),
+				reserved: this.stream.readUInt16LE('reserved'),
+				optimalAnimationDefaultFrame: this.stream.readUInt32LE('optimalAnimationDefaultFrame'),
+				streetPassID: this.stream.readUInt32LE('streetPassID')
+			};
+
+			this.reserved2 = this.stream.readUInt64LE('reserved2');
+			this.iconSmall = this.stream.readBytes(0x480, 'iconSmall');
+			this.iconLarge = this.stream.readBytes(0x1200, 'iconLarge');
+		});
+	}
+
+	private decodeTiledRGB565(data: Uint8Array, width: number, height: number): SMDHIcon {
+		const rgba = new Uint8ClampedArray(width * height * 4);
+		let i = 0;
+
+		for (let tileY = 0; tileY < height; tileY += 8) {
+			for (let tileX = 0; tileX < width; tileX += 8) {
+				for (let k = 0; k < 8 * 8; k++) {
+					const x = tileX + (TILE_ORDER[k] & 0x7);
+					const y = tileY + (TILE_ORDER[k] >> 3);
+					const color = data[i++] | (data[i++] << 8);
+
+					if (y < height && x < width) {
+						const offset = ((y * width) + x) * 4;
+
+						rgba[offset] = ((color >> 11) & 0x1F) << 3;
+						rgba[offset + 1] = ((color >> 5) & 0x3F) << 2;
+						rgba[offset + 2] = (color & 0x1F) << 3;
+						rgba[offset + 3] = 255;
+					}
+				}
+			}
+		}
+
+		return {
+			data: rgba,
+			width,
+			height
+		};
+	}
+
+	/**
+	 * Decodes the SMDH large (48x48) icon to RGBA pixels
+	 *
+	 * @returns the decoded icon
+	 */
+	public decodeLargeIcon(): SMDHIcon {
+		return this.decodeTiledRGB565(this.iconLarge, 48, 48);
+	}
+
+	/**
+	 * Decodes the SMDH small (24x24) icon to RGBA pixels
+	 *
+	 * @returns the decoded icon
+	 */
+	public decodeSmallIcon(): SMDHIcon {
+		return this.decodeTiledRGB565(this.iconSmall, 24, 24);
+	}
+
+	/**
+	 * Gets the SMDB Japanese title information
+	 *
+	 * @returns the Japanese title information
+	 */
+	public getJapaneseApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[0];
+	}
+
+	/**
+	 * Gets the SMDB English title information
+	 *
+	 * @returns the English title information
+	 */
+	public getEnglishApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[1];
+	}
+
+	/**
+	 * Gets the SMDB French title information
+	 *
+	 * @returns the French title information
+	 */
+	public getFrenchApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[2];
+	}
+
+	/**
+	 * Gets the SMDB German title information
+	 *
+	 * @returns the German title information
+	 */
+	public getGermanApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[3];
+	}
+
+	/**
+	 * Gets the SMDB Italian title information
+	 *
+	 * @returns the Italian title information
+	 */
+	public getItalianApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[4];
+	}
+
+	/**
+	 * Gets the SMDB Spanish title information
+	 *
+	 * @returns the Spanish title information
+	 */
+	public getSpanishApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[5];
+	}
+
+	/**
+	 * Gets the SMDB simplified Chinese title information
+	 *
+	 * @returns the simplified Chinese title information
+	 */
+	public getSimplifiedChineseApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[6];
+	}
+
+	/**
+	 * Gets the SMDB Korean title information
+	 *
+	 * @returns the Korean title information
+	 */
+	public getKoreanApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[7];
+	}
+
+	/**
+	 * Gets the SMDB Dutch title information
+	 *
+	 * @returns the Dutch title information
+	 */
+	public getDutchApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[8];
+	}
+
+	/**
+	 * Gets the SMDB Portuguese title information
+	 *
+	 * @returns the Portuguese title information
+	 */
+	public getPortugueseApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[9];
+	}
+
+	/**
+	 * Gets the SMDB Russian title information
+	 *
+	 * @returns the Russian title information
+	 */
+	public getRussianApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[10];
+	}
+
+	/**
+	 * Gets the SMDB traditional Chinese title information
+	 *
+	 * @returns the traditional Chinese title information
+	 */
+	public getTraditionalChineseApplicationTitle(): SMDHApplicationTitle {
+		return this.applicationTitles[11];
+	}
+}
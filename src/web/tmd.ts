@@ -0,0 +1,738 @@
+import { Stream } from '@/stream';
+import { StreamWriter } from '@/stream-writer';
+import { fromBase64, readWebStream } from '@/web/bytes';
+import { Certificate } from '@/web/certificate';
+import { getSignatureAlgorithm, signatureFields } from '@/signatures';
+import { Schema } from '@/schema';
+import { withFormat, withFormatAsync } from '@/errors';
+import { getRelatedTitleIDs, getTitlePlatform, parseTitleID } from '@/title-id';
+import type { SignatureAlgorithm, SignatureType } from '@/signatures';
+import type { RelatedTitleIDs, TitleIDInfo, TitlePlatform } from '@/title-id';
+import type { WebReadableStream } from '@/web/bytes';
+import type { AsyncStream, FieldName } from '@/schema';
+
+export interface ContentInfoRecord {
+	offset: number;
+	count: number;
+	recordsHash: Uint8Array;
+}
+
+export interface ContentChunkRecord {
+	id: number;
+	index: number;
+	type: number;
+	size: bigint;
+
+	/**
+	 * SHA1 hash in version 0 TMDs, SHA256 hash in version 1 TMDs
+	 */
+	hash: Uint8Array;
+}
+
+export enum ContentTypeFlags {
+	ENCRYPTED = 0x1,
+	DISC_OR_HASHED = 0x2, // * Disc content on the 3DS, H3 hashed content on the Wii U. Decoded per platform by `getContentType`
+	CFM = 0x4,
+	OPTIONAL = 0x4000,
+	SHARED = 0x8000
+}
+
+export enum TitleTypeFlags {
+	DEFAULT = 0x1,
+	DATA = 0x8,
+	WFS = 0x20, // * Maybe?
+	CTR = 0x40 // * Set on all 3DS titles
+}
+
+export enum AccessRightsFlags {
+	HARDWARE_ACCESS = 0x1, // * Wii. Full access to hardware registers
+	DVD_VIDEO = 0x2 // * Wii. Access to DVD video
+}
+
+export interface ContentType {
+	encrypted: boolean;
+
+	/**
+	 * 3DS only
+	 */
+	disc: boolean;
+
+	cfm: boolean;
+	optional: boolean;
+	shared: boolean;
+
+	/**
+	 * Wii U only. The content has an H3 hash tree, and the
+	 * content chunk record hash is of the H3 data
+	 */
+	hashed: boolean;
+}
+
+export interface TitleType {
+	default: boolean;
+	data: boolean;
+	wfs: boolean;
+	ctr: boolean;
+}
+
+export interface AccessRights {
+	hardwareAccess: boolean;
+	dvdVideo: boolean;
+}
+
+const CONTENT_INFO_RECORD_SCHEMA = new Schema<ContentInfoRecord>([
+	{ name: 'offset', type: 'uint16' },
+	{ name: 'count', type: 'uint16' },
+	{ name: 'recordsHash', type: 'bytes', size: 0x20 }
+]);
+
+const CONTENT_CHUNK_RECORD_SCHEMA = new Schema<ContentChunkRecord>([
+	{ name: 'id', type: 'uint32' },
+	{ name: 'index', type: 'uint16' },
+	{ name: 'type', type: 'uint16' },
+	{ name: 'size', type: 'uint64' },
+	{ name: 'hash', type: 'bytes', size: 0x20 }
+]);
+
+const CONTENT_CHUNK_RECORD_V0_SCHEMA = new Schema<ContentChunkRecord>([
+	{ name: 'id', type: 'uint32' },
+	{ name: 'index', type: 'uint16' },
+	{ name: 'type', type: 'uint16' },
+	{ name: 'size', type: 'uint64' },
+	{ name: 'hash', type: 'bytes', size: 0x14 }
+]);
+
+// * The 0x3E bytes after `groupID` are 0x20 bytes of title specific custom data, followed by
+// * 0x1E reserved bytes. Wii and vWii TMDs use them for region, ratings and IOS fields, while
+// * the DSi, 3DS and Wii U store the little endian save data sizes in the custom data
+function hasWiiLayout(tmd: TMD): boolean {
+	const platform = getTitlePlatform(tmd.titleID);
+
+	return platform === 'wii' || platform === 'vwii';
+}
+
+const TMD_SCHEMA = new Schema<TMD>([
+	...signatureFields<TMD>(),
+	{ name: 'issuer', type: 'string', size: 0x40 },
+	{ name: 'version', type: 'uint8' },
+	{ name: 'caVersion', type: 'uint8' },
+	{ name: 'signerVersion', type: 'uint8' },
+	{ name: 'reserved1', type: 'uint8' },
+	{ name: 'systemVersion', type: 'uint64' },
+	{ name: 'titleID', type: 'uint64' },
+	{ name: 'titleType', type: 'uint32' },
+	{ name: 'groupID', type: 'uint16' },
+	{ name: 'saveDataSize', type: 'uint32', endian: 'le', when: (tmd): boolean => !hasWiiLayout(tmd) },
+	{ name: 'SRLPrivateSaveDataSize', type: 'uint32', endian: 'le', when: (tmd): boolean => !hasWiiLayout(tmd) },
+	{ name: 'reserved2', type: 'uint32', when: (tmd): boolean => !hasWiiLayout(tmd) },
+	{ name: 'SRLFlag', type: 'uint8', when: (tmd): boolean => !hasWiiLayout(tmd) },
+	{ name: 'customDataReserved', type: 'bytes', size: 0x13, when: (tmd): boolean => !hasWiiLayout(tmd) },
+	{ name: 'reserved3', type: 'bytes', size: 0x1E, when: (tmd): boolean => !hasWiiLayout(tmd) },
+	{ name: 'reserved4', type: 'uint16', when: hasWiiLayout },
+	{ name: 'region', type: 'uint16', when: hasWiiLayout },
+	{ name: 'ratings', type: 'bytes', size: 0x10, when: hasWiiLayout },
+	{ name: 'reserved5', type: 'bytes', size: 0xC, when: hasWiiLayout },
+	{ name: 'IPCMask', type: 'bytes', size: 0xC, when: hasWiiLayout },
+	{ name: 'reserved6', type: 'bytes', size: 0x12, when: hasWiiLayout },
+	{ name: 'accessRights', type: 'uint32' },
+	{ name: 'titleVersion', type: 'uint16' },
+	{ name: 'contentCount', type: 'uint16' },
+	{ name: 'bootIndex', type: 'uint16' },
+	{ name: 'minorVersion', type: 'uint16' },
+	{ name: 'contentInfoRecordsHash', type: 'bytes', size: 0x20, when: (tmd): boolean => tmd.version === 1 },
+	// * Always 64, even if not all are used
+	{ name: 'contentInfoRecords', type: 'array', count: (): number => 64, schema: CONTENT_INFO_RECORD_SCHEMA, when: (tmd): boolean => tmd.version === 1 },
+	{ name: 'contentChunkRecords', type: 'array', count: (tmd): number => tmd.contentCount, schema: (tmd): Schema<ContentChunkRecord> => tmd.version === 1 ? CONTENT_CHUNK_RECORD_SCHEMA : CONTENT_CHUNK_RECORD_V0_SCHEMA }
+	// * `selfCertificate` and `CACertificate` follow, see `parseTrailingCertificate`
+], {
+	// * Version 1 TMDs sign the content info records hash instead, which covers the content chunk records
+	signed: { from: 'issuer', to: (tmd): FieldName<TMD> => tmd.version === 1 ? 'contentInfoRecordsHash' : 'contentChunkRecords' }
+});
+
+/**
+ * TMD parsing, encoding and inspection. Works in browsers, Deno and Node.
+ * Signatures are verified using WebCrypto
+ *
+ * The Node entry point extends this with file access, hashing
+ * and signing using `node:crypto`
+ */
+export class TMD {
+	protected stream: Stream;
+
+	/**
+	 * The type of signature the data is signed with
+	 */
+	public signatureType: SignatureType;
+
+	/**
+	 * The signature data
+	 */
+	public signature: Uint8Array;
+
+	/**
+	 * The name of the issuer
+	 */
+	public issuer: string;
+
+	/**
+	 * TMD version
+	 */
+	public version: number;
+
+	/**
+	 * Version of the certificate used to verify the `selfCertificate` signature?
+	 */
+	public caVersion: number;
+
+	/**
+	 * `selfCertificate` certificate version?
+	 */
+	public signerVersion: number;
+
+	/**
+	 * Unused. Set to 1 in vWii TMDs
+	 */
+	public reserved1: number; // * 1 byte
+
+	/**
+	 * Minimum system version?
+	 *
+	 * For Wii titles this is the title ID of the required IOS, see `getRequiredIOS`
+	 */
+	public systemVersion: bigint;
+
+	/**
+	 * Title ID of the title the TMD is for
+	 */
+	public titleID: bigint;
+
+	/**
+	 * Type of the title the TMD is for
+	 */
+	public titleType: number;
+
+	/**
+	 * Unknown
+	 */
+	public groupID: number;
+
+	/**
+	 * Size of the public save data, in bytes. Stored little endian
+	 *
+	 * Optional. Not present in Wii TMDs
+	 */
+	public saveDataSize?: number;
+
+	/**
+	 * Size of the private save data of DSi titles (SRLs), in bytes. Stored little endian
+	 *
+	 * Optional. Not present in Wii TMDs
+	 */
+	public SRLPrivateSaveDataSize?: number;
+
+	/**
+	 * Unused
+	 *
+	 * Optional. Not present in Wii TMDs
+	 */
+	public reserved2?: number; // * 4 bytes
+
+	/**
+	 * Flags of DSi titles (SRLs)
+	 *
+	 * Optional. Not present in Wii TMDs
+	 */
+	public SRLFlag?: number;
+
+	/**
+	 * Unused rest of the 0x20 bytes of custom data, which holds the fields above
+	 *
+	 * Optional. Not present in Wii TMDs
+	 */
+	public customDataReserved?: Uint8Array; // * 0x13 bytes
+
+	/**
+	 * Unused
+	 *
+	 * Optional. Not present in Wii TMDs
+	 */
+	public reserved3?: Uint8Array; // * 0x1E bytes
+
+	/**
+	 * Unused
+	 *
+	 * Optional. Only present in Wii TMDs
+	 */
+	public reserved4?: number; // * 2 bytes
+
+	/**
+	 * Region of the title. 0 is Japan, 1 is USA, 2 is Europe, 3 is region free and 4 is Korea
+	 *
+	 * Optional. Only present in Wii TMDs
+	 */
+	public region?: number;
+
+	/**
+	 * Age ratings, one byte per rating board
+	 *
+	 * Optional. Only present in Wii TMDs
+	 */
+	public ratings?: Uint8Array; // * 0x10 bytes
+
+	/**
+	 * Unused
+	 *
+	 * Optional. Only present in Wii TMDs
+	 */
+	public reserved5?: Uint8Array; // * 0xC bytes
+
+	/**
+	 * IPC access mask
+	 *
+	 * Optional. Only present in Wii TMDs
+	 */
+	public IPCMask?: Uint8Array; // * 0xC bytes
+
+	/**
+	 * Unused
+	 *
+	 * Optional. Only present in Wii TMDs
+	 */
+	public reserved6?: Uint8Array; // * 0x12 bytes
+
+	/**
+	 * Unknown
+	 */
+	public accessRights: number;
+
+	/**
+	 * Version of the title the TMD is for
+	 */
+	public titleVersion: number;
+
+	/**
+	 * Number of content records
+	 */
+	public contentCount: number;
+
+	/**
+	 * Index of the content booted when the title is launched, see `getBootContent`
+	 */
+	public bootIndex: number;
+
+	/**
+	 * Unknown
+	 */
+	public minorVersion: number;
+
+	/**
+	 * SHA256 has of the content info records
+	 *
+	 * Optional. Only seen if version is <= 1
+	 */
+	public contentInfoRecordsHash?: Uint8Array;
+
+	/**
+	 * List of content info records.
+	 * If present, this will always contain
+	 * 64 entries
+	 *
+	 * Optional. Only seen if version is <= 1
+	 */
+	public contentInfoRecords?: ContentInfoRecord[];
+
+	/**
+	 * List of content records
+	 */
+	public contentChunkRecords: ContentChunkRecord[] = [];
+
+	/**
+	 * Certificate used to verify the TMD signature
+	 *
+	 * Optional. Only seen if TMD came from the CDN
+	 */
+	public selfCertificate?: Certificate;
+
+	/**
+	 * Certificate used to verify the `selfCertificate` signature
+	 *
+	 * Optional.  Only seen if TMD came from the CDN
+	 */
+	public CACertificate?: Certificate;
+
+	/**
+	 * The data used to create the TMD signature
+	 */
+	public signatureBody: Uint8Array;
+
+	/**
+	 * Parses the TMD from the provided `data`
+	 *
+	 * @param data - TMD data
+	 */
+	public parseFromBytes(data: Uint8Array | ArrayBuffer): void {
+		this.stream = new Stream(data);
+		this.parse();
+	}
+
+	/**
+	 * Parses the TMD from the provided string
+	 *
+	 * Calls `parseFromBytes` internally
+	 *
+	 * @param base64 - Base64 encoded TMD data
+	 */
+	public parseFromString(base64: string): void {
+		this.parseFromBytes(fromBase64(base64));
+	}
+
+	/**
+	 * Parses the TMD from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public parseFromStream(stream: Stream): void {
+		this.stream = stream;
+		this.parse();
+	}
+
+	/**
+	 * Parses the TMD from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of TMD data
+	 */
+	public async parseFromWebStream(stream: WebReadableStream): Promise<void> {
+		this.parseFromBytes(await readWebStream(stream));
+	}
+
+	/**
+	 * Parses the TMD from an existing async stream, such as an `AsyncFileStream`.
+	 * Fields are read as they are reached. Trailing certificates are parsed
+	 * if there is data left, like the other sources
+	 *
+	 * @param stream - An existing async stream
+	 */
+	public async parseFromAsyncStream(stream: AsyncStream): Promise<void> {
+		await withFormatAsync('TMD', async () => {
+			await TMD_SCHEMA.parseAsync(stream, this);
+			this.selfCertificate = await this.parseTrailingCertificateAsync(stream);
+			this.CACertificate = await this.parseTrailingCertificateAsync(stream);
+			this.signatureBody = this.computeSignatureBody();
+		});
+	}
+
+	/**
+	 * Creates a new instance of `TMD` and
+	 * parses the TMD from the provided `data`
+	 *
+	 * @param data - TMD data
+	 */
+	public static fromBytes<T extends TMD>(this: new () => T, data: Uint8Array | ArrayBuffer): T {
+		const tmd = new this();
+		tmd.parseFromBytes(data);
+
+		return tmd;
+	}
+
+	/**
+	 * Creates a new instance of `TMD` and
+	 * parses the TMD from the provided string
+	 *
+	 * @param base64 - Base64 encoded TMD data
+	 */
+	public static fromString<T extends TMD>(this: new () => T, base64: string): T {
+		const tmd = new this();
+		tmd.parseFromString(base64);
+
+		return tmd;
+	}
+
+	/**
+	 * Creates a new instance of `TMD` and
+	 * parses the TMD from an existing stream
+	 *
+	 * @param stream - An existing stream
+	 */
+	public static fromStream<T extends TMD>(this: new () => T, stream: Stream): T {
+		const tmd = new this();
+		tmd.parseFromStream(stream);
+
+		return tmd;
+	}
+
+	/**
+	 * Creates a new instance of `TMD` and
+	 * parses the TMD from the provided web `ReadableStream`
+	 *
+	 * @param stream - Web stream of TMD data
+	 */
+	public static async fromWebStream<T extends TMD>(this: new () => T, stream: WebReadableStream): Promise<T> {
+		const tmd = new this();
+		await tmd.parseFromWebStream(stream);
+
+		return tmd;
+	}
+
+	/**
+	 * Creates a new instance of `TMD` and
+	 * parses the TMD from an existing async stream
+	 *
+	 * @param stream - An existing async stream
+	 */
+	public static async fromAsyncStream<T extends TMD>(this: new () => T, stream: AsyncStream): Promise<T> {
+		const tmd = new this();
+		await tmd.parseFromAsyncStream(stream);
+
+		return tmd;
+	}
+
+	/**
+	 * The platform the TMD is for, detected from the title ID. Decides the
+	 * layout of the fields after `groupID`
+	 */
+	public get platform(): TitlePlatform {
+		return getTitlePlatform(this.titleID);
+	}
+
+	/**
+	 * Gets the IOS required by the title, from the `systemVersion`
+	 *
+	 * @returns the IOS number, such as `58` for IOS58, or undefined if the title is not a Wii title or does not run on an IOS
+	 */
+	public getRequiredIOS(): number | undefined {
+		if (!hasWiiLayout(this) || this.systemVersion >> 32n !== 0x00000001n) {
+			return;
+		}
+
+		return Number(this.systemVersion & 0xFFFFFFFFn);
+	}
+
+	/**
+	 * Gets the content chunk record of the content booted when the title is launched
+	 *
+	 * @returns the content chunk record with the `bootIndex` index, or undefined if there is none
+	 */
+	public getBootContent(): ContentChunkRecord | undefined {
+		return this.contentChunkRecords.find(record => record.index === this.bootIndex);
+	}
+
+	/**
+	 * Decodes the type flags of a content
+	 *
+	 * @param record - The content chunk record of the content
+	 * @returns the decoded content type
+	 */
+	public getContentType(record: ContentChunkRecord): ContentType {
+		const isWiiU = this.platform === 'wiiu';
+
+		return {
+			encrypted: (record.type & ContentTypeFlags.ENCRYPTED) !== 0,
+			disc: !isWiiU && (record.type & ContentTypeFlags.DISC_OR_HASHED) !== 0,
+			cfm: (record.type & ContentTypeFlags.CFM) !== 0,
+			optional: (record.type & ContentTypeFlags.OPTIONAL) !== 0,
+			shared: (record.type & ContentTypeFlags.SHARED) !== 0,
+			hashed: isWiiU && (record.type & ContentTypeFlags.DISC_OR_HASHED) !== 0
+		};
+	}
+
+	/**
+	 * Decodes the `titleType` flags
+	 *
+	 * @returns the decoded title type
+	 */
+	public getTitleType(): TitleType {
+		return {
+			default: (this.titleType & TitleTypeFlags.DEFAULT) !== 0,
+			data: (this.titleType & TitleTypeFlags.DATA) !== 0,
+			wfs: (this.titleType & TitleTypeFlags.WFS) !== 0,
+			ctr: (this.titleType & TitleTypeFlags.CTR) !== 0
+		};
+	}
+
+	/**
+	 * Decodes the `accessRights` flags
+	 *
+	 * @returns the decoded access rights
+	 */
+	public getAccessRights(): AccessRights {
+		return {
+			hardwareAccess: (this.accessRights & AccessRightsFlags.HARDWARE_ACCESS) !== 0,
+			dvdVideo: (this.accessRights & AccessRightsFlags.DVD_VIDEO) !== 0
+		};
+	}
+
+	/**
+	 * Decomposes the title ID into its platform, category and unique ID
+	 *
+	 * @returns the title ID parts
+	 */
+	public getTitleIDInfo(): TitleIDInfo {
+		return parseTitleID(this.titleID);
+	}
+
+	/**
+	 * Checks if the TMD is for a base application, rather than an update, DLC, demo or system title
+	 *
+	 * @returns true if the title is an application
+	 */
+	public isApplication(): boolean {
+		return this.getTitleIDInfo().category === 'application';
+	}
+
+	/**
+	 * Checks if the TMD is for an update
+	 *
+	 * @returns true if the title is an update
+	 */
+	public isUpdate(): boolean {
+		return this.getTitleIDInfo().category === 'update';
+	}
+
+	/**
+	 * Checks if the TMD is for DLC
+	 *
+	 * @returns true if the title is DLC
+	 */
+	public isDLC(): boolean {
+		return this.getTitleIDInfo().category === 'dlc';
+	}
+
+	/**
+	 * Checks if the TMD is for a demo
+	 *
+	 * @returns true if the title is a demo
+	 */
+	public isDemo(): boolean {
+		return this.getTitleIDInfo().category === 'demo';
+	}
+
+	/**
+	 * Checks if the TMD is for a system title, such as a system app, applet or data archive
+	 *
+	 * @returns true if the title is a system title
+	 */
+	public isSystem(): boolean {
+		return this.getTitleIDInfo().category === 'system';
+	}
+
+	/**
+	 * Gets the title IDs of the base title, update and DLC related to this title
+	 *
+	 * @returns the related title IDs
+	 *
+	 * @throws {Error} If the title is not a 3DS or Wii U title
+	 */
+	public relatedTitleIDs(): RelatedTitleIDs {
+		return getRelatedTitleIDs(this.titleID);
+	}
+
+	/**
+	 * Describes the algorithm of the `signatureType`, such as the hash, key size and curve
+	 *
+	 * @throws {Error} If the signature type is unknown
+	 */
+	public get signatureAlgorithm(): SignatureAlgorithm {
+		return getSignatureAlgorithm(this.signatureType);
+	}
+
+	/**
+	 * Gets the size of the TMD, including any certificates
+	 *
+	 * @returns TMD size
+	 */
+	public size(): number {
+		return TMD_SCHEMA.size(this) + (this.selfCertificate?.size() ?? 0) + (this.CACertificate?.size() ?? 0);
+	}
+
+	/**
+	 * Encodes the TMD data, including any certificates
+	 *
+	 * @returns encoded TMD
+	 */
+	public bytes(): Uint8Array {
+		const stream = new StreamWriter(this.size());
+
+		TMD_SCHEMA.encode(stream, this);
+
+		for (const certificate of [this.selfCertificate, this.CACertificate]) {
+			if (certificate) {
+				stream.write(certificate.bytes());
+			}
+		}
+
+		return stream.bytes();
+	}
+
+	/**
+	 * Verifies the TMD signature using WebCrypto
+	 *
+	 * @param certificate - Optional. The certificate to verify with. Defaults to `selfCertificate`
+	 * @returns true if the signature is valid
+	 *
+	 * @throws {Error} If no certificate is available, or its key type is not supported by WebCrypto
+	 */
+	public async verifySignatureAsync(certificate = this.selfCertificate): Promise<boolean> {
+		if (!certificate) {
+			throw new Error('No certificate provided to verify the TMD signature with');
+		}
+
+		return certificate.verifySignatureAsync(this);
+	}
+
+	/**
+	 * Encodes the fields covered by the signature
+	 *
+	 * @returns the data the signature is made over
+	 */
+	protected computeSignatureBody(): Uint8Array {
+		return TMD_SCHEMA.signatureBody(this);
+	}
+
+	/**
+	 * Encodes a content info record, as hashed by `contentInfoRecordsHash`
+	 *
+	 * @param record - The record to encode
+	 * @returns the encoded record
+	 */
+	protected encodeContentInfoRecord(record: ContentInfoRecord): Uint8Array {
+		return CONTENT_INFO_RECORD_SCHEMA.bytes(record);
+	}
+
+	/**
+	 * Encodes a version 1 content chunk record, as hashed by the content info records
+	 *
+	 * @param record - The record to encode
+	 * @returns the encoded record
+	 */
+	protected encodeContentChunkRecord(record: ContentChunkRecord): Uint8Array {
+		return CONTENT_CHUNK_RECORD_SCHEMA.bytes(record);
+	}
+
+	/**
+	 * Parses a certificate appended after the TMD, if there is data left
+	 *
+	 * @returns the certificate, or undefined if the stream has ended
+	 */
+	protected parseTrailingCertificate(): Certificate | undefined {
+		return this.stream.remaining() !== 0 ? Certificate.fromStream(this.stream) : undefined;
+	}
+
+	/**
+	 * Async counterpart of `parseTrailingCertificate`
+	 *
+	 * @param stream - The async stream to read from
+	 * @returns the certificate, or undefined if the stream has ended
+	 */
+	protected async parseTrailingCertificateAsync(stream: AsyncStream): Promise<Certificate | undefined> {
+		return await stream.atEnd() ? undefined : Certificate.fromAsyncStream(stream);
+	}
+
+	protected parse(): void {
+		withFormat('TMD', () => {
+			TMD_SCHEMA.parse(this.stream, this);
+			this.selfCertificate = this.parseTrailingCertificate();
+			this.CACertificate = this.parseTrailingCertificate();
+			this.signatureBody = this.computeSignatureBody();
+		});
+	}
+}
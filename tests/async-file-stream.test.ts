@@ -0,0 +1,56 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { AsyncFileStream } from '@/async-file-stream';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'nintendo-files-async-file-stream-'));
+const data = Buffer.from(Array.from({ length: 0x40 }, (_, i) => i));
+const file = path.join(directory, 'data.bin');
+
+fs.writeFileSync(file, data);
+
+describe('AsyncFileStream readSlice', () => {
+	after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+	it('reads slices of files with their own offset and bounds', async () => {
+		const stream = new AsyncFileStream(file);
+
+		try {
+			await stream.skip(0x10);
+
+			const slice = await stream.readSlice(0x8);
+
+			assert.equal(stream.tell(), 0x18);
+			assert.equal(await slice.size(), 0x8);
+			assert.deepEqual(await slice.readBytes(0x8), data.subarray(0x10, 0x18));
+			assert.equal(await slice.atEnd(), true);
+			await assert.rejects(slice.readUInt8(), { name: 'OutOfRangeError' });
+		} finally {
+			await stream.close();
+		}
+	});
+
+	it('reads slices of Readables into memory', async () => {
+		const stream = new AsyncFileStream(Readable.from([data.subarray(0, 0x20), data.subarray(0x20)]));
+
+		await stream.skip(0x1C);
+
+		const slice = await stream.readSlice(0x8);
+
+		assert.deepEqual(await slice.readBytes(0x8), data.subarray(0x1C, 0x24));
+		assert.deepEqual(await stream.readBytes(0x4), data.subarray(0x24, 0x28));
+	});
+
+	it('throws when a slice is read after the stream is closed', async () => {
+		const stream = new AsyncFileStream(file);
+		const slice = await stream.readSlice(0x10);
+
+		await stream.close();
+
+		await assert.rejects(slice.readBytes(0x10), /closed/);
+		await assert.rejects(stream.readBytes(0x10), /closed/);
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { Certificate } from '@/certificate';
+import { CertificateChain } from '@/certificate-chain';
+import { CertificateStore } from '@/certificate-store';
+import { generateCertificateHierarchy } from '@/certificate-hierarchy';
+import { SignatureType } from '@/signatures';
+import { Ticket } from '@/ticket';
+import { buildTicket } from './fixtures';
+
+const hierarchy = generateCertificateHierarchy();
+
+function signedTicket(): Ticket {
+	const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n }));
+
+	ticket.sign(hierarchy.XS.privateKey, SignatureType.RSA_2048_SHA256);
+
+	return ticket;
+}
+
+describe('CertificateChain', () => {
+	const certificates = [hierarchy.CA.certificate, hierarchy.XS.certificate, hierarchy.CP.certificate];
+
+	it('verifies every link up to the trusted root key', () => {
+		const report = new CertificateChain(certificates, hierarchy.root.publicKey).verify(signedTicket());
+
+		assert.equal(report.valid, true);
+		assert.deepEqual(report.links.map(link => link.issuer), ['Root-CA00000003-XS0000000c', 'Root-CA00000003', 'Root']);
+		assert.equal(report.links[2].trusted, true);
+	});
+
+	it('accepts a certificate holding the trusted root key', () => {
+		const root = Certificate.fromKey(hierarchy.root.publicKey, '', 'Root');
+		const chain = new CertificateChain(certificates, root);
+
+		assert.equal(chain.trustedRoot, 'Root');
+		assert.equal(chain.verify(signedTicket()).valid, true);
+	});
+
+	it('does not trust the root without a root key', () => {
+		const report = new CertificateChain(certificates).verify(signedTicket());
+		const root = report.links[report.links.length - 1];
+
+		assert.equal(report.valid, false);
+		assert.equal(root.issuer, 'Root');
+		assert.equal(root.valid, false);
+		assert.match(root.error!, /No trusted root key/);
+	});
+
+	it('rejects a forged chain issued by a root with the same name', () => {
+		const forged = generateCertificateHierarchy();
+		const chain = new CertificateChain([forged.CA.certificate, forged.XS.certificate], hierarchy.root.publicKey);
+		const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n }));
+
+		ticket.sign(forged.XS.privateKey, SignatureType.RSA_2048_SHA256);
+
+		const report = chain.verify(ticket);
+
+		assert.equal(report.valid, false);
+		assert.equal(report.links[0].valid, true);
+		assert.equal(report.links[1].valid, true);
+		assert.equal(report.links[2].valid, false);
+		assert.equal(ticket.getSignatureStatus(chain), 'invalid');
+	});
+
+	it('keeps the first certificate added with a full name, matching CertificateStore', () => {
+		const duplicate = Certificate.fromKey(hierarchy.CP.publicKey, 'Root-CA00000003', 'XS0000000c');
+		const chain = new CertificateChain([hierarchy.XS.certificate, duplicate]);
+		const store = new CertificateStore();
+
+		chain.add(duplicate);
+		store.add(hierarchy.XS.certificate, duplicate);
+
+		assert.equal(chain.get('Root-CA00000003-XS0000000c'), hierarchy.XS.certificate);
+		assert.equal(store.get('Root-CA00000003-XS0000000c'), hierarchy.XS.certificate);
+	});
+
+	it('does not use a root certificate from the chain as the trust anchor', () => {
+		const forgedRoot = crypto.generateKeyPairSync('rsa', { modulusLength: 4096 });
+		const rootCertificate = Certificate.fromKey(forgedRoot.publicKey, '', 'Root');
+		const forgedCA = Certificate.fromKey(hierarchy.XS.publicKey, 'Root', 'CA00000003');
+
+		forgedCA.sign(forgedRoot.privateKey, SignatureType.RSA_4096_SHA256);
+
+		const chain = new CertificateChain([rootCertificate, forgedCA]);
+
+		assert.equal(chain.verify(forgedCA).valid, false);
+	});
+});
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { Certificate } from '@/certificate';
+import { SignatureType } from '@/signatures';
+
+describe('Certificate', () => {
+	describe('fromKey', () => {
+		const keys = [
+			{ type: SignatureType.RSA_4096_SHA256, size: 0x500, keys: crypto.generateKeyPairSync('rsa', { modulusLength: 4096 }) },
+			{ type: SignatureType.RSA_2048_SHA256, size: 0x300, keys: crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }) },
+			{ type: SignatureType.ECDSA_233R1_SHA256, size: 0x180, keys: crypto.generateKeyPairSync('ec', { namedCurve: 'sect233r1' }) }
+		];
+
+		for (const { type, size, keys: { publicKey } } of keys) {
+			it(`encodes an unsigned 0x${type.toString(16)} certificate`, () => {
+				const certificate = Certificate.fromKey(publicKey, 'Root-CA00000003', 'XS0000000c');
+
+				assert.equal(certificate.signatureType, type);
+				assert.equal(certificate.signature.every(byte => byte === 0), true);
+				assert.equal(certificate.size(), size);
+
+				const parsed = Certificate.fromBuffer(certificate.bytes());
+
+				assert.equal(parsed.getFullName(), 'Root-CA00000003-XS0000000c');
+				assert.deepEqual(parsed.signatureBody, certificate.signatureBody);
+				assert.deepEqual(parsed.bytes(), certificate.bytes());
+			});
+		}
+	});
+});
@@ -0,0 +1,173 @@
+import { after, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { CIA } from '@/cia';
+import { FileStream } from '@/file-stream';
+import { generateCertificateHierarchy } from '@/certificate-hierarchy';
+import { buildCIAHeader, buildTMD, buildTicket } from './fixtures';
+import type { TMDFixtureContent } from './fixtures';
+
+const hierarchy = generateCertificateHierarchy();
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'nintendo-files-cia-'));
+
+function chunked(data: Buffer, size: number): Buffer[] {
+	const chunks: Buffer[] = [];
+
+	for (let offset = 0; offset < data.length; offset += size) {
+		chunks.push(data.subarray(offset, offset + size));
+	}
+
+	return chunks;
+}
+
+function writeCIA(name: string, contents: TMDFixtureContent[]): { path: string; contentStart: number } {
+	const titleID = 0x0004000000030800n;
+	const header = buildCIAHeader({
+		certificates: [hierarchy.CA.certificate.bytes(), hierarchy.XS.certificate.bytes(), hierarchy.CP.certificate.bytes()],
+		ticket: buildTicket({ titleID }),
+		TMD: buildTMD({ titleID, contents }),
+		contentIndexes: contents.map(content => content.index),
+		contentSize: contents.reduce((size, content) => size + content.size, 0n)
+	});
+	const file = path.join(directory, name);
+
+	fs.writeFileSync(file, header);
+
+	return { path: file, contentStart: header.length };
+}
+
+describe('CIA', () => {
+	after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+	it('reads contents into memory and closes files opened from a path', () => {
+		const data = [crypto.randomBytes(0x100), crypto.randomBytes(0x40)];
+		const file = writeCIA('small.cia', [
+			{ id: 0, index: 0, type: 0x0001, size: 0x100n },
+			{ id: 1, index: 1, type: 0x0001, size: 0x40n }
+		]);
+
+		fs.appendFileSync(file.path, Buffer.concat(data));
+
+		const openSync = mock.method(fs, 'openSync');
+		const cia = CIA.fromFile(file.path);
+		const fd = openSync.mock.calls[0].result as number;
+
+		openSync.mock.restore();
+
+		assert.throws(() => fs.fstatSync(fd), { code: 'EBADF' });
+		assert.deepEqual(cia.contents.map(content => [content.id, content.offset, content.size]), [[0, 0, 0x100n], [1, 0x100, 0x40n]]);
+		assert.deepEqual(cia.contents.map(content => content.data), data);
+		assert.equal(cia.contents[0].stream, undefined);
+	});
+
+	it('reads contents of an open fd only when their stream is read', () => {
+		const data = [crypto.randomBytes(0x100), crypto.randomBytes(0x40)];
+		const file = writeCIA('lazy.cia', [
+			{ id: 0, index: 0, type: 0x0001, size: 0x100n },
+			{ id: 1, index: 1, type: 0x0001, size: 0x40n }
+		]);
+
+		fs.appendFileSync(file.path, Buffer.concat(data));
+
+		const fd = fs.openSync(file.path, 'r');
+
+		try {
+			const cia = CIA.fromFile(fd);
+
+			assert.equal(cia.contents[1].data, undefined);
+			assert.equal(cia.contents[1].stream!.cacheStats().syscalls, 0);
+			assert.deepEqual(cia.contents[1].stream!.readBytes(0x40), data[1]);
+			assert.deepEqual(cia.contents[0].stream!.readBytes(0x100), data[0]);
+		} finally {
+			fs.closeSync(fd);
+		}
+	});
+
+	it('throws when reading contents after the file stream is closed', () => {
+		const file = writeCIA('closed.cia', [{ id: 0, index: 0, type: 0x0001, size: 0x10n }]);
+
+		fs.appendFileSync(file.path, crypto.randomBytes(0x10));
+
+		const stream = new FileStream(file.path);
+		const cia = CIA.fromFileStream(stream);
+
+		stream.close();
+
+		assert.throws(() => cia.contents[0].stream!.readBytes(0x10), /closed/);
+	});
+
+	it('parses files asynchronously and closes them', async () => {
+		const data = crypto.randomBytes(0x80);
+		const file = writeCIA('async.cia', [{ id: 0, index: 0, type: 0x0001, size: 0x80n }]);
+
+		fs.appendFileSync(file.path, data);
+
+		const cia = await CIA.fromFileAsync(file.path);
+
+		assert.equal(cia.ticket.titleID, 0x0004000000030800n);
+		assert.equal(cia.TMDCertificate.getFullName(), 'Root-CA00000003-CP0000000b');
+		assert.deepEqual(cia.contents[0].data, data);
+	});
+
+	it('reads contents of an open FileHandle asynchronously only when used', async () => {
+		const data = crypto.randomBytes(0x80);
+		const file = writeCIA('handle.cia', [{ id: 0, index: 0, type: 0x0001, size: 0x80n }]);
+
+		fs.appendFileSync(file.path, data);
+
+		const handle = await fs.promises.open(file.path, 'r');
+
+		try {
+			const cia = await CIA.fromFileAsync(handle);
+			const readSync = mock.method(fs, 'readSync');
+
+			assert.equal(cia.contents[0].data, undefined);
+			assert.deepEqual(await cia.contents[0].asyncStream!.readBytes(0x80), data);
+			assert.equal(readSync.mock.callCount(), 0);
+
+			readSync.mock.restore();
+		} finally {
+			await handle.close();
+		}
+	});
+
+	it('parses from a Readable as the data arrives', async () => {
+		const data = crypto.randomBytes(0x80);
+		const file = writeCIA('readable.cia', [{ id: 0, index: 0, type: 0x0001, size: 0x80n }]);
+
+		fs.appendFileSync(file.path, data);
+
+		const cia = await CIA.fromReadableStream(Readable.from(chunked(fs.readFileSync(file.path), 0x333)));
+
+		assert.equal(cia.ticketCertificate.getFullName(), 'Root-CA00000003-XS0000000c');
+		assert.deepEqual(cia.contents[0].data, data);
+	});
+
+	it('supports contents of 2 GiB or more', () => {
+		const tail = crypto.randomBytes(0x10);
+		const file = writeCIA('large.cia', [
+			{ id: 0, index: 0, type: 0x0001, size: 0x80000000n },
+			{ id: 1, index: 1, type: 0x0001, size: 0x10n }
+		]);
+
+		// * Sparse, so the large content takes no space on disk
+		fs.truncateSync(file.path, file.contentStart + 0x80000000);
+		fs.appendFileSync(file.path, tail);
+
+		const fd = fs.openSync(file.path, 'r');
+
+		try {
+			const cia = CIA.fromFile(fd);
+
+			assert.equal(cia.contents[0].stream!.size(), 0x80000000);
+			assert.equal(cia.contents[1].offset, 0x80000000);
+			assert.deepEqual(cia.contents[1].stream!.readBytes(0x10), tail);
+		} finally {
+			fs.closeSync(fd);
+		}
+	});
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { OutOfRangeError } from '@/errors';
+import { Stream } from '@/stream';
+import { TMD } from '@/tmd';
+import { buildTMD } from './fixtures';
+
+describe('OutOfRangeError', () => {
+	const data = buildTMD({
+		titleID: 0x0005000010101C00n,
+		contents: [
+			{ id: 0, index: 0, type: 0x2001, size: 0x8000n },
+			{ id: 1, index: 1, type: 0x2001, size: 0x8000n }
+		]
+	});
+
+	// * The last 0x20 bytes are the hash of the second content chunk record
+	const truncated = data.subarray(0, data.length - 1);
+	const expected = {
+		name: 'OutOfRangeError',
+		format: 'TMD',
+		field: 'contentChunkRecords[1].hash',
+		offset: data.length - 0x20,
+		length: 0x20,
+		available: 0x1F,
+		message: `TMD: Tried to read 0x20 bytes for contentChunkRecords[1].hash at offset 0x${(data.length - 0x20).toString(16)}, but only 0x1f bytes are available`
+	};
+
+	it('is thrown with the format, field and range of truncated input', () => {
+		assert.throws(() => TMD.fromBuffer(truncated), OutOfRangeError);
+		assert.throws(() => TMD.fromBuffer(truncated), expected);
+	});
+
+	it('is thrown with the same details when parsing asynchronously', async () => {
+		await assert.rejects(TMD.fromReadableStream(Readable.from([truncated])), expected);
+	});
+
+	it('is thrown without a format by streams', () => {
+		const stream = new Stream(Buffer.alloc(0x2));
+
+		stream.skip(0x1);
+
+		assert.throws(() => stream.readUInt16BE('value'), {
+			name: 'OutOfRangeError',
+			format: undefined,
+			field: 'value',
+			offset: 0x1,
+			length: 0x2,
+			available: 0x1
+		});
+	});
+});
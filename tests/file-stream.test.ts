@@ -0,0 +1,158 @@
+import { after, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileStream } from '@/file-stream';
+import { TMD } from '@/tmd';
+import { buildTMD } from './fixtures';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'nintendo-files-file-stream-'));
+
+function writeFile(name: string, data: Buffer): string {
+	const file = path.join(directory, name);
+
+	fs.writeFileSync(file, data);
+
+	return file;
+}
+
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+describe('FileStream close', () => {
+	const tmd = buildTMD({
+		titleID: 0x0005000010101C00n,
+		contents: [{ id: 0, index: 0, type: 0x2001, size: 0x8000n }]
+	});
+
+	it('closes fds opened from a path once parsed', () => {
+		const openSync = mock.method(fs, 'openSync');
+
+		try {
+			TMD.fromFile(writeFile('title.tmd', tmd));
+			assert.throws(() => fs.fstatSync(openSync.mock.calls[0].result as number), { code: 'EBADF' });
+
+			// * Including when parsing fails
+			assert.throws(() => TMD.fromFile(writeFile('truncated.tmd', tmd.subarray(0, 0x100))), { name: 'OutOfRangeError' });
+			assert.throws(() => fs.fstatSync(openSync.mock.calls[1].result as number), { code: 'EBADF' });
+		} finally {
+			openSync.mock.restore();
+		}
+	});
+
+	it('leaves caller-supplied fds open', () => {
+		const fd = fs.openSync(writeFile('caller.tmd', tmd), 'r');
+
+		try {
+			const stream = new FileStream(fd);
+
+			assert.equal(TMD.fromFile(fd).titleID, 0x0005000010101C00n);
+
+			stream.close();
+
+			assert.equal(fs.fstatSync(fd).size, tmd.length);
+			assert.equal(stream.readUInt32BE(), 0x10004);
+		} finally {
+			fs.closeSync(fd);
+		}
+	});
+
+	it('throws when read after it is closed', () => {
+		const file = writeFile('closed.bin', Buffer.alloc(0x10));
+		const stream = new FileStream(file);
+
+		stream.close();
+		stream.close(); // * Safe to call more than once
+
+		assert.throws(() => stream.readUInt8(), /closed/);
+	});
+
+	it('closes when disposed', () => {
+		const file = writeFile('disposed.bin', Buffer.alloc(0x10));
+		let slice: FileStream;
+
+		{
+			using stream = new FileStream(file);
+
+			slice = stream.slice(0, 0x10);
+		}
+
+		assert.throws(() => slice.readUInt8(), /closed/);
+	});
+
+	it('throws when a slice is read after the stream is closed', () => {
+		const a = writeFile('a.bin', Buffer.alloc(0x10, 0xAA));
+		const b = writeFile('b.bin', Buffer.alloc(0x10, 0xBB));
+		const stream = new FileStream(a);
+		const slice = stream.slice(0x4, 0x8);
+
+		stream.close();
+
+		// * Likely to be given the fd number `a.bin` had
+		const fd = fs.openSync(b, 'r');
+
+		try {
+			assert.throws(() => slice.readUInt8(), /closed/);
+			assert.throws(() => slice.peek(), /closed/);
+		} finally {
+			fs.closeSync(fd);
+		}
+	});
+});
+
+describe('FileStream read-ahead window', () => {
+	const data = Buffer.from(Array.from({ length: 0x40 }, (_, i) => i));
+
+	it('serves reads within the window without a syscall', () => {
+		using stream = new FileStream(writeFile('window.bin', data), 0x10);
+
+		assert.deepEqual(stream.readBytes(0x4), data.subarray(0x0, 0x4));
+		assert.deepEqual(stream.readBytes(0x4), data.subarray(0x4, 0x8));
+		assert.equal(stream.readUInt32BE(), 0x08090A0B);
+		assert.deepEqual(stream.cacheStats(), { hits: 2, misses: 1, syscalls: 1, hitRate: 2 / 3 });
+	});
+
+	it('refills the window for reads which cross its end', () => {
+		using stream = new FileStream(writeFile('cross.bin', data), 0x10);
+
+		stream.readBytes(0xC);
+
+		assert.deepEqual(stream.readBytes(0x8), data.subarray(0xC, 0x14));
+		assert.deepEqual(stream.cacheStats(), { hits: 0, misses: 2, syscalls: 2, hitRate: 0 });
+
+		// * The window now starts at 0xC
+		assert.deepEqual(stream.readBytes(0x8), data.subarray(0x14, 0x1C));
+		assert.equal(stream.cacheStats().hits, 1);
+	});
+
+	it('reads data larger than the window directly', () => {
+		using stream = new FileStream(writeFile('large.bin', data), 0x10);
+
+		assert.deepEqual(stream.readBytes(0x30), data.subarray(0x0, 0x30));
+		assert.deepEqual(stream.readBytes(0x10), data.subarray(0x30, 0x40));
+		assert.deepEqual(stream.cacheStats(), { hits: 0, misses: 2, syscalls: 2, hitRate: 0 });
+	});
+
+	it('does not overwrite data returned by earlier reads', () => {
+		using stream = new FileStream(writeFile('overwrite.bin', data), 0x10);
+		const first = stream.readBytes(0x10);
+
+		stream.readBytes(0x10);
+
+		assert.deepEqual(first, data.subarray(0x0, 0x10));
+	});
+
+	it('peeks without advancing, and returns undefined past the end', () => {
+		using stream = new FileStream(writeFile('peek.bin', data), 0x10);
+
+		assert.equal(stream.peek(), 0x00);
+		assert.equal(stream.peek(0x3F), 0x3F);
+		assert.equal(stream.peek(0x40), undefined);
+		assert.equal(stream.peek(-1), undefined);
+		assert.equal(stream.tell(), 0);
+
+		stream.skip(0x40);
+
+		assert.equal(stream.peek(), undefined);
+	});
+});
@@ -0,0 +1,193 @@
+import crypto from 'node:crypto';
+
+// * Fixtures are built byte by byte from the documented layouts, rather than
+// * with the classes under test, so round trips catch mistakes in both directions
+
+export interface TMDFixtureContent {
+	id: number;
+	index: number;
+	type: number;
+	size: bigint;
+	hash?: Buffer;
+}
+
+export interface TMDFixtureOptions {
+	version?: 0 | 1;
+	titleID: bigint;
+	systemVersion?: bigint;
+	titleType?: number;
+	groupID?: number;
+
+	/**
+	 * The 0x3E bytes between `groupID` and `accessRights`, which differ per platform
+	 */
+	platformData?: Buffer;
+
+	accessRights?: number;
+	titleVersion?: number;
+	bootIndex?: number;
+	contents: TMDFixtureContent[];
+}
+
+export interface TicketFixtureOptions {
+	titleID: bigint;
+	ticketID?: bigint;
+	consoleID?: number;
+	encryptedTitleKey?: Buffer;
+	commonKeyYIndex?: number;
+	publicECCKey?: Buffer;
+}
+
+const RSA_2048_SHA256 = 0x10004;
+const SIGNATURE_SIZE = 0x100;
+const SIGNATURE_PADDING = 0x3C;
+
+function signatureHeader(): Buffer {
+	const header = Buffer.alloc(0x4 + SIGNATURE_SIZE + SIGNATURE_PADDING);
+
+	header.writeUInt32BE(RSA_2048_SHA256);
+	crypto.randomFillSync(header, 0x4, SIGNATURE_SIZE);
+
+	return header;
+}
+
+/**
+ * Builds an RSA-2048 signed TMD. Version 1 TMDs get valid content info records
+ */
+export function buildTMD(options: TMDFixtureOptions): Buffer {
+	const version = options.version ?? 1;
+	const header = Buffer.alloc(0xA4);
+
+	header.write(version === 1 ? 'Root-CA00000003-CP0000000b' : 'Root-CA00000001-CP00000004');
+	header.writeUInt8(version, 0x40);
+	header.writeBigUInt64BE(options.systemVersion ?? 0n, 0x44);
+	header.writeBigUInt64BE(options.titleID, 0x4C);
+	header.writeUInt32BE(options.titleType ?? 0x100, 0x54);
+	header.writeUInt16BE(options.groupID ?? 0, 0x58);
+	options.platformData?.copy(header, 0x5A, 0, 0x3E);
+	header.writeUInt32BE(options.accessRights ?? 0, 0x98);
+	header.writeUInt16BE(options.titleVersion ?? 0, 0x9C);
+	header.writeUInt16BE(options.contents.length, 0x9E);
+	header.writeUInt16BE(options.bootIndex ?? 0, 0xA0);
+
+	const hashSize = version === 1 ? 0x20 : 0x14;
+	const records = Buffer.concat(options.contents.map(content => {
+		const record = Buffer.alloc(0x10 + hashSize);
+
+		record.writeUInt32BE(content.id);
+		record.writeUInt16BE(content.index, 0x4);
+		record.writeUInt16BE(content.type, 0x6);
+		record.writeBigUInt64BE(content.size, 0x8);
+		(content.hash ?? crypto.randomBytes(hashSize)).copy(record, 0x10);
+
+		return record;
+	}));
+
+	if (version === 0) {
+		return Buffer.concat([signatureHeader(), header, records]);
+	}
+
+	const infoRecords = Buffer.alloc(64 * 0x24);
+
+	infoRecords.writeUInt16BE(options.contents.length, 0x2);
+	crypto.createHash('sha256').update(records).digest().copy(infoRecords, 0x4);
+
+	const infoRecordsHash = crypto.createHash('sha256').update(infoRecords).digest();
+
+	return Buffer.concat([signatureHeader(), header, infoRecordsHash, infoRecords, records]);
+}
+
+/**
+ * Builds an RSA-2048 signed version 1 ticket, with a content index granting contents 0 to 1023
+ */
+export function buildTicket(options: TicketFixtureOptions): Buffer {
+	const body = Buffer.alloc(0x164);
+
+	body.write('Root-CA00000003-XS0000000c');
+	options.publicECCKey?.copy(body, 0x40);
+	body.writeUInt8(1, 0x7C);
+	(options.encryptedTitleKey ?? Buffer.alloc(0x10)).copy(body, 0x7F);
+	body.writeBigUInt64BE(options.ticketID ?? 0x0005000000000001n, 0x90);
+	body.writeUInt32BE(options.consoleID ?? 0, 0x98);
+	body.writeBigUInt64BE(options.titleID, 0x9C);
+	body.writeUInt8(options.commonKeyYIndex ?? 0, 0xB1);
+
+	const contentIndex = Buffer.alloc(0xAC);
+
+	contentIndex.writeUInt16BE(1); // * Version
+	contentIndex.writeUInt16BE(0x14, 0x2); // * Header size
+	contentIndex.writeUInt32BE(0xAC, 0x4); // * Total size
+	contentIndex.writeUInt32BE(0x14, 0x8); // * Section headers offset
+	contentIndex.writeUInt16BE(1, 0xC); // * Section count
+	contentIndex.writeUInt16BE(0x14, 0xE); // * Section header size
+	contentIndex.writeUInt32BE(0x28, 0x14); // * Records offset
+	contentIndex.writeUInt32BE(1, 0x18); // * Record count
+	contentIndex.writeUInt32BE(0x84, 0x1C); // * Record size
+	contentIndex.writeUInt32BE(0x84, 0x20); // * Section size
+	contentIndex.writeUInt16BE(3, 0x24); // * Section type
+	contentIndex.fill(0xFF, 0x2C); // * Bitmap
+
+	return Buffer.concat([signatureHeader(), body, contentIndex]);
+}
+
+export interface CIAFixtureOptions {
+	certificates: Buffer[];
+	ticket: Buffer;
+	TMD: Buffer;
+	contentIndexes: number[];
+	contentSize: bigint;
+}
+
+function alignBlock(data: Buffer): Buffer {
+	return Buffer.concat([data, Buffer.alloc((0x40 - (data.length % 0x40)) % 0x40)]);
+}
+
+/**
+ * Builds a CIA up to the start of its content section, without meta. Content data is
+ * left for the caller to write, so large contents can be written as sparse files
+ */
+export function buildCIAHeader(options: CIAFixtureOptions): Buffer {
+	const header = Buffer.alloc(0x2020);
+	const certificates = Buffer.concat(options.certificates);
+
+	header.writeUInt32LE(0x2020);
+	header.writeUInt32LE(certificates.length, 0x8);
+	header.writeUInt32LE(options.ticket.length, 0xC);
+	header.writeUInt32LE(options.TMD.length, 0x10);
+	header.writeBigUInt64LE(options.contentSize, 0x18);
+
+	for (const index of options.contentIndexes) {
+		header[0x20 + (index >> 3)] |= 0x80 >> (index & 0x7);
+	}
+
+	return Buffer.concat([alignBlock(header), alignBlock(certificates), alignBlock(options.ticket), alignBlock(options.TMD)]);
+}
+
+function sha1(data: Buffer): Buffer {
+	return crypto.createHash('sha1').update(data).digest();
+}
+
+// * Hash tables are always 16 entries of 0x14 bytes, unused entries are zeroed
+function hashTables(hashes: Buffer[]): Buffer[] {
+	const tables: Buffer[] = [];
+
+	for (let i = 0; i < hashes.length; i += 16) {
+		tables.push(Buffer.concat([...hashes.slice(i, i + 16), Buffer.alloc(0x140)]).subarray(0, 0x140));
+	}
+
+	return tables;
+}
+
+/**
+ * Builds decrypted hashed Wii U content of 0x10000 byte blocks. Each block starts with a 0x400
+ * byte header holding the H0 table of its group of 16 blocks, the H1 table of its group of 256
+ * blocks and the H2 table of its group of 4096 blocks, followed by 0xFC00 bytes of data
+ */
+export function buildHashedContent(blocks = 1): Buffer {
+	const data = Array.from({ length: blocks }, () => crypto.randomBytes(0xFC00));
+	const H0Tables = hashTables(data.map(sha1));
+	const H1Tables = hashTables(H0Tables.map(sha1));
+	const H2Tables = hashTables(H1Tables.map(sha1));
+
+	return Buffer.concat(data.flatMap((block, i) => [H0Tables[i >> 4], H1Tables[i >> 8], H2Tables[i >> 12], Buffer.alloc(0x40), block]));
+}
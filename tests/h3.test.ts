@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { H3 } from '@/h3';
+import { buildHashedContent } from './fixtures';
+
+function sha1(data: Buffer): Buffer {
+	return crypto.createHash('sha1').update(data).digest();
+}
+
+describe('H3', () => {
+	// * Enough blocks to span more than one H0 and H1 table
+	const blocks = 0x101;
+	const content = buildHashedContent(blocks);
+
+	it('round trips the hash list', async () => {
+		const data = crypto.randomBytes(0x14 * 3);
+		const h3 = H3.fromBuffer(data);
+
+		assert.equal(h3.hashes.length, 3);
+		assert.equal(h3.size(), data.length);
+		assert.deepEqual(h3.bytes(), data);
+		assert.deepEqual((await H3.fromReadableStream(Readable.from([data]))).bytes(), data);
+	});
+
+	it('rejects data which is not a whole number of hashes', () => {
+		assert.throws(() => H3.fromBuffer(Buffer.alloc(0x15)), /not a multiple of the 0x14 byte hash size/);
+	});
+
+	it('builds the hash tree from decrypted content', () => {
+		const h3 = H3.fromDecryptedContent(content);
+
+		// * The H2 table is the same in every block of the same 4096 block group
+		assert.deepEqual(h3.hashes, [sha1(content.subarray(0x280, 0x3C0))]);
+	});
+
+	it('rejects content which is not a whole number of blocks', () => {
+		assert.throws(() => H3.fromDecryptedContent(content.subarray(0, 0x10000 + 0x400)), /not a multiple of the 0x10000 byte block size/);
+	});
+
+	it('verifies every block of decrypted content', () => {
+		const report = H3.fromDecryptedContent(content).verifyContent(content);
+
+		assert.equal(report.valid, true);
+		assert.deepEqual(report.mismatches, []);
+	});
+
+	it('reports tampered blocks', () => {
+		const h3 = H3.fromDecryptedContent(content);
+		const tampered = Buffer.from(content);
+
+		tampered[0x100 * 0x10000 + 0x400] ^= 0xFF; // * Data of the first block in the second H1 group
+		tampered[0x11 * 0x10000 + 0x14] ^= 0xFF; // * H0 hash of block 0x11, in the H0 table stored in that block
+
+		const report = h3.verifyContent(tampered);
+
+		assert.equal(report.valid, false);
+		assert.deepEqual(report.mismatches.map(mismatch => mismatch.field), ['blocks[17].H0', 'blocks[17].H1', 'blocks[256].H0']);
+	});
+
+	it('reports a hash tree which does not match the content', () => {
+		const report = H3.fromDecryptedContent(buildHashedContent()).verifyContent(content);
+
+		assert.equal(report.valid, false);
+		assert.equal(report.mismatches.length, blocks);
+		assert.ok(report.mismatches.every(mismatch => mismatch.field.endsWith('.H3')));
+	});
+
+	it('throws if the hash tree does not cover every block', () => {
+		assert.throws(() => new H3().verifyContent(content), /Hash tree covers 0 blocks, but the content has 257/);
+	});
+});
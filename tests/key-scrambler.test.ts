@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { scrambleKey } from '@/key-scrambler';
+
+describe('scrambleKey', () => {
+	it('derives the normal key from a keyX and keyY', () => {
+		const keyX = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+		const keyY = Buffer.from('f0e0d0c0b0a090807060504030201000', 'hex');
+
+		assert.equal(scrambleKey(keyX, keyY).toString('hex'), '242eb34f63086f613bb3594652294505');
+	});
+
+	it('keeps leading zero bytes', () => {
+		assert.equal(scrambleKey(Buffer.alloc(0x10), Buffer.alloc(0x10)).length, 0x10);
+	});
+
+	it('rejects keys which are not 16 bytes', () => {
+		assert.throws(() => scrambleKey(Buffer.alloc(0xF), Buffer.alloc(0x10)), /Invalid AES key length/);
+	});
+});
@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { AsyncFileStream } from '@/async-file-stream';
+import { Schema } from '@/schema';
+import { Stream } from '@/stream';
+import type { SchemaField } from '@/schema';
+
+interface Item {
+	id: number;
+	size: bigint;
+}
+
+interface Header {
+	signature: Uint8Array;
+	version: number;
+	name: string;
+	region?: number;
+	flags: number;
+	itemCount: number;
+	items: Item[];
+	data: Uint8Array;
+}
+
+const ITEM_FIELDS: SchemaField<Item>[] = [
+	{ name: 'id', type: 'uint16' },
+	{ name: 'size', type: 'uint64' }
+];
+
+const ITEM_SCHEMA = new Schema<Item>(ITEM_FIELDS);
+
+// * Like `hasWiiLayout` for TMDs, the layout depends on a field parsed before it
+function hasRegion(header: Header): boolean {
+	return header.version === 0;
+}
+
+const HEADER_SCHEMA = new Schema<Header>([
+	{ name: 'signature', type: 'bytes', size: 0x4 },
+	{
+		name: 'version',
+		type: 'uint8',
+		validate: (value): void => {
+			if (value > 1) {
+				throw new Error(`Unknown version ${value}`);
+			}
+		}
+	},
+	{ type: 'padding', size: 0x3 },
+	{ name: 'name', type: 'string', size: 0x8 },
+	{ name: 'region', type: 'uint16', when: hasRegion },
+	{ name: 'flags', type: 'uint32', endian: 'le' },
+	{ name: 'itemCount', type: 'uint8' },
+	{ name: 'items', type: 'array', count: (header): number => header.itemCount, schema: ITEM_SCHEMA },
+	{ name: 'data', type: 'bytes', size: (header): number => header.version === 1 ? 0x4 : 0x2 }
+], {
+	signed: { from: 'version', to: (header): 'items' | 'data' => header.version === 1 ? 'data' : 'items' }
+});
+
+function buildHeader(version: number): Buffer {
+	const region = version === 0 ? Buffer.from([0x00, 0x02]) : Buffer.alloc(0);
+
+	return Buffer.concat([
+		Buffer.from([0xAA, 0xBB, 0xCC, 0xDD]),
+		Buffer.from([version, 0x00, 0x00, 0x00]),
+		Buffer.from('Nimbus\0\0'),
+		region,
+		Buffer.from([0x01, 0x00, 0x00, 0x80]), // * Little endian
+		Buffer.from([0x02]),
+		Buffer.from([0x00, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x10]),
+		Buffer.from([0x00, 0x02, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]),
+		Buffer.alloc(version === 1 ? 0x4 : 0x2, 0xEE)
+	]);
+}
+
+function parse(data: Buffer): Header {
+	const header = {} as Header;
+
+	HEADER_SCHEMA.parse(new Stream(data), header);
+
+	return header;
+}
+
+describe('Schema', () => {
+	for (const version of [0, 1]) {
+		it(`parses, sizes and encodes the version ${version} layout`, () => {
+			const data = buildHeader(version);
+			const header = parse(data);
+
+			assert.equal(header.name, 'Nimbus');
+			assert.equal(header.flags, 0x80000001);
+			assert.deepEqual(header.items, [{ id: 1, size: 0x10n }, { id: 2, size: 0xFFFFFFFFFFFFFFFFn }]);
+			assert.equal(HEADER_SCHEMA.size(header), data.length);
+			assert.deepEqual(Buffer.from(HEADER_SCHEMA.bytes(header)), data);
+		});
+	}
+
+	it('only parses conditional fields when their condition holds', () => {
+		assert.equal(parse(buildHeader(0)).region, 2);
+		assert.equal('region' in parse(buildHeader(1)), false);
+	});
+
+	it('parses asynchronously as the data arrives', async () => {
+		const data = buildHeader(0);
+		const chunks = Array.from({ length: data.length }, (_, i) => data.subarray(i, i + 1));
+		const header = {} as Header;
+
+		await HEADER_SCHEMA.parseAsync(new AsyncFileStream(Readable.from(chunks)), header);
+
+		assert.deepEqual(header, parse(data));
+	});
+
+	it('extracts the signed range, which can depend on the target', () => {
+		for (const version of [0, 1]) {
+			const data = buildHeader(version);
+			const end = version === 1 ? data.length : data.length - 0x2;
+
+			assert.deepEqual(Buffer.from(HEADER_SCHEMA.signatureBody(parse(data))), data.subarray(0x4, end));
+		}
+	});
+
+	it('validates parsed values', () => {
+		assert.throws(() => parse(buildHeader(2)), /Unknown version 2/);
+	});
+
+	it('prefixes array element fields in errors', () => {
+		const data = buildHeader(0);
+
+		assert.throws(() => parse(data.subarray(0, data.length - 0x8)), {
+			name: 'OutOfRangeError',
+			field: 'items[1].size'
+		});
+	});
+
+	it('rejects invalid signed ranges', () => {
+		assert.throws(() => new Schema<Item>(ITEM_FIELDS, { signed: { from: 'size', to: 'id' } }), /Invalid signed field range size to id/);
+		assert.throws(() => ITEM_SCHEMA.signatureBody({ id: 0, size: 0n }), /Schema has no signed fields/);
+	});
+});
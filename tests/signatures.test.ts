@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { Certificate } from '@/certificate';
+import { TMD } from '@/tmd';
+import { KeyType, SIGNATURE_SIZES, SignatureType, getSignatureAlgorithm, getSignatureHash, getSignatureSize, isKeyType } from '@/signatures';
+import { buildTMD } from './fixtures';
+
+const RSA_4096 = crypto.generateKeyPairSync('rsa', { modulusLength: 4096 });
+const RSA_2048 = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ECDSA_233R1 = crypto.generateKeyPairSync('ec', { namedCurve: 'sect233r1' });
+
+const SIGNATURE_TYPES = [
+	{ type: SignatureType.RSA_4096_SHA1, size: SIGNATURE_SIZES.RSA_4096_SHA1, name: 'RSA-4096-SHA1', key: 'rsa', keySize: 4096, hash: 'sha1', keys: RSA_4096 },
+	{ type: SignatureType.RSA_2048_SHA1, size: SIGNATURE_SIZES.RSA_2048_SHA1, name: 'RSA-2048-SHA1', key: 'rsa', keySize: 2048, hash: 'sha1', keys: RSA_2048 },
+	{ type: SignatureType.ECDSA_233R1_SHA1, size: SIGNATURE_SIZES.ELLIPTIC_CURVE_SHA1, name: 'ECDSA-233R1-SHA1', key: 'ecdsa', keySize: 233, curve: 'sect233r1', hash: 'sha1', keys: ECDSA_233R1 },
+	{ type: SignatureType.RSA_4096_SHA256, size: SIGNATURE_SIZES.RSA_4096_SHA256, name: 'RSA-4096-SHA256', key: 'rsa', keySize: 4096, hash: 'sha256', keys: RSA_4096 },
+	{ type: SignatureType.RSA_2048_SHA256, size: SIGNATURE_SIZES.RSA_2048_SHA256, name: 'RSA-2048-SHA256', key: 'rsa', keySize: 2048, hash: 'sha256', keys: RSA_2048 },
+	{ type: SignatureType.ECDSA_233R1_SHA256, size: SIGNATURE_SIZES.ECDSA_233R1_SHA256, name: 'ECDSA-233R1-SHA256', key: 'ecdsa', keySize: 233, curve: 'sect233r1', hash: 'sha256', keys: ECDSA_233R1 }
+];
+
+const UNKNOWN_SIGNATURE_TYPE = 0x10006;
+const UNKNOWN_KEY_TYPE = 0x3;
+
+describe('signature types', () => {
+	for (const { type, size, name, key, keySize, curve, hash, keys } of SIGNATURE_TYPES) {
+		describe(`0x${type.toString(16)}`, () => {
+			it('has the expected signature size', () => {
+				assert.deepEqual(getSignatureSize(type), size);
+				assert.equal(getSignatureAlgorithm(type).signatureSize, size.SIGNATURE);
+				assert.equal(getSignatureHash(type), hash);
+			});
+
+			it('maps to the expected algorithm', () => {
+				assert.deepEqual(getSignatureAlgorithm(type), {
+					type,
+					name,
+					key,
+					keySize,
+					...(curve === undefined ? {} : { curve }),
+					hash,
+					signatureSize: size.SIGNATURE
+				});
+			});
+
+			it('rejects keys of another type or size', () => {
+				const tmd = TMD.fromBuffer(buildTMD({ titleID: 0x0005000010101C00n, contents: [] }));
+
+				if (key === 'rsa') {
+					assert.throws(() => tmd.sign(ECDSA_233R1.privateKey, type), /requires an RSA key, got ec/);
+					assert.throws(() => tmd.sign(keySize === 4096 ? RSA_2048.privateKey : RSA_4096.privateKey, type), /requires a 0x[0-9a-f]+ byte signature, got 0x[0-9a-f]+ bytes/);
+				} else {
+					assert.throws(() => tmd.sign(RSA_2048.privateKey, type), /requires an EC key, got rsa/);
+				}
+			});
+
+			it('signs and verifies certificates', () => {
+				const issuer = Certificate.fromKey(keys.publicKey, 'Root', 'CA00000003');
+				const certificate = Certificate.fromKey(RSA_2048.publicKey, issuer.getFullName(), 'XS0000000c');
+
+				certificate.sign(keys.privateKey, type);
+
+				const parsed = Certificate.fromBuffer(certificate.bytes());
+
+				assert.equal(parsed.signatureType, type);
+				assert.equal(parsed.signature.length, size.SIGNATURE);
+				assert.equal(parsed.size(), 0x4 + size.TOTAL + parsed.signatureBody.length);
+				assert.equal(issuer.verifySignature(parsed), true);
+
+				parsed.signatureBody[0] ^= 0xFF;
+
+				assert.equal(issuer.verifySignature(parsed), false);
+			});
+
+			it('signs and verifies TMDs', () => {
+				const issuer = Certificate.fromKey(keys.publicKey, 'Root-CA00000003', 'CP0000000b');
+				const tmd = TMD.fromBuffer(buildTMD({
+					titleID: 0x0005000010101C00n,
+					contents: [{ id: 0, index: 0, type: 0x2001, size: 0x8000n }]
+				}));
+
+				tmd.sign(keys.privateKey, type);
+
+				const parsed = TMD.fromBuffer(tmd.bytes());
+
+				assert.equal(parsed.signatureType, type);
+				assert.deepEqual(parsed.signature, tmd.signature);
+				assert.equal(issuer.verifySignature(parsed), true);
+			});
+		});
+	}
+
+	describe('unknown signature types', () => {
+		it('have no signature size', () => {
+			assert.throws(() => getSignatureSize(UNKNOWN_SIGNATURE_TYPE), /Unknown signature type 0x10006/);
+		});
+
+		it('have no algorithm', () => {
+			assert.throws(() => getSignatureAlgorithm(UNKNOWN_SIGNATURE_TYPE), /Unknown signature type 0x10006/);
+		});
+
+		it('are rejected when parsing', () => {
+			const data = buildTMD({ titleID: 0x0005000010101C00n, contents: [] });
+
+			data.writeUInt32BE(UNKNOWN_SIGNATURE_TYPE);
+
+			assert.throws(() => TMD.fromBuffer(data), /Unknown signature type 0x10006/);
+		});
+
+		it('can not be signed with', () => {
+			const tmd = TMD.fromBuffer(buildTMD({ titleID: 0x0005000010101C00n, contents: [] }));
+
+			assert.throws(() => tmd.sign(RSA_2048.privateKey, UNKNOWN_SIGNATURE_TYPE as SignatureType), /Unknown signature type 0x10006/);
+		});
+	});
+});
+
+describe('key types', () => {
+	it('are read from certificates', () => {
+		for (const [keys, keyType] of [[RSA_4096, KeyType.RSA_4096], [RSA_2048, KeyType.RSA_2048], [ECDSA_233R1, KeyType.ECDSA_233R1]] as const) {
+			const certificate = Certificate.fromBuffer(Certificate.fromKey(keys.publicKey, 'Root', 'CA00000003').bytes());
+
+			assert.equal(isKeyType(certificate.keyType), true);
+			assert.equal(certificate.keyType, keyType);
+		}
+	});
+
+	it('are rejected when unknown', () => {
+		const data = Certificate.fromKey(RSA_2048.publicKey, 'Root', 'CA00000003').bytes();
+		const keyTypeOffset = 0x4 + SIGNATURE_SIZES.RSA_2048_SHA256.TOTAL + 0x40;
+
+		assert.equal(isKeyType(UNKNOWN_KEY_TYPE), false);
+
+		data.writeUInt32BE(UNKNOWN_KEY_TYPE, keyTypeOffset);
+
+		assert.throws(() => Certificate.fromBuffer(data), /Unknown certificate key type 0x3/);
+	});
+
+	it('reject keys of unsupported types and sizes', () => {
+		const RSA_1024 = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+		const P_256 = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+		const ED25519 = crypto.generateKeyPairSync('ed25519');
+
+		assert.throws(() => Certificate.fromKey(RSA_1024.publicKey, 'Root', 'CA00000003'), /Unsupported certificate key rsa 1024/);
+		assert.throws(() => Certificate.fromKey(P_256.publicKey, 'Root', 'CA00000003'), /Unsupported certificate key ec prime256v1/);
+		assert.throws(() => Certificate.fromKey(ED25519.publicKey, 'Root', 'CA00000003'), /Unsupported certificate key ed25519/);
+	});
+});
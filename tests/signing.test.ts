@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type crypto from 'node:crypto';
+import { generateCertificateHierarchy } from '@/certificate-hierarchy';
+import { SignatureType } from '@/signatures';
+import { Ticket } from '@/ticket';
+import { TMD } from '@/tmd';
+import { buildTMD, buildTicket } from './fixtures';
+import type { Certificate } from '@/certificate';
+import type { GeneratedCertificate } from '@/certificate-hierarchy';
+
+const hierarchy = generateCertificateHierarchy();
+
+interface SignedFormat {
+	signature: Buffer;
+	signatureBody: Buffer;
+	sign(privateKey: crypto.KeyObject, signatureType: SignatureType): void;
+	fakeSign(signatureType?: SignatureType): void;
+	isFakeSigned(): boolean;
+	getSignatureStatus(issuer?: Certificate): string;
+	bytes(): Buffer;
+}
+
+interface FormatCase {
+	name: string;
+	parse: () => SignedFormat;
+	reparse: (data: Buffer) => SignedFormat;
+	issuer: GeneratedCertificate;
+}
+
+const formats: FormatCase[] = [
+	{
+		name: 'TMD',
+		parse: () => TMD.fromBuffer(buildTMD({ titleID: 0x0005000010101C00n, contents: [{ id: 0, index: 0, type: 0x2001, size: 0x8000n }] })),
+		reparse: data => TMD.fromBuffer(data),
+		issuer: hierarchy.CP
+	},
+	{
+		name: 'Ticket',
+		parse: () => Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n })),
+		reparse: data => Ticket.fromBuffer(data),
+		issuer: hierarchy.XS
+	}
+];
+
+for (const format of formats) {
+	describe(`${format.name} fake signing`, () => {
+		it('fake-signs, and stays fake-signed when parsed again', () => {
+			const signed = format.parse();
+
+			signed.fakeSign();
+
+			assert.equal(signed.isFakeSigned(), true);
+			assert.deepEqual(signed.signature, Buffer.alloc(0x100));
+
+			const parsed = format.reparse(signed.bytes());
+
+			assert.equal(parsed.isFakeSigned(), true);
+			assert.deepEqual(parsed.signatureBody, signed.signatureBody);
+			assert.equal(parsed.getSignatureStatus(), 'fake-signed');
+		});
+
+		it('fake-signs with another signature type', () => {
+			const signed = format.parse();
+
+			signed.fakeSign(SignatureType.ECDSA_233R1_SHA256);
+
+			const parsed = format.reparse(signed.bytes());
+
+			assert.equal(parsed.isFakeSigned(), true);
+			assert.equal(parsed.signature.length, 0x3C);
+		});
+
+		it('does not report properly signed data as fake-signed', () => {
+			const signed = format.parse();
+
+			signed.sign(format.issuer.privateKey, SignatureType.RSA_2048_SHA256);
+
+			const parsed = format.reparse(signed.bytes());
+
+			assert.equal(parsed.isFakeSigned(), false);
+			assert.equal(parsed.getSignatureStatus(format.issuer.certificate), 'genuine');
+		});
+
+		it('reports other signatures as invalid', () => {
+			const parsed = format.parse();
+
+			assert.equal(parsed.isFakeSigned(), false);
+			assert.equal(parsed.getSignatureStatus(format.issuer.certificate), 'invalid');
+			assert.throws(() => parsed.getSignatureStatus(), /No certificate provided/);
+		});
+	});
+}
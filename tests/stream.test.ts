@@ -0,0 +1,277 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Stream } from '@/stream';
+import { StreamWriter } from '@/stream-writer';
+
+const UINT64_MAX = 0xFFFFFFFFFFFFFFFFn;
+const ABOVE_INT64_MAX = 0x8000000000000001n; // * Negative if read as signed
+const WII_U_TITLE_ID = 0x0005000010101C00n;
+
+describe('Stream uint64', () => {
+	for (const value of [WII_U_TITLE_ID, ABOVE_INT64_MAX, UINT64_MAX]) {
+		it(`round trips 0x${value.toString(16)} big-endian`, () => {
+			const writer = new StreamWriter();
+			writer.writeUInt64BE(value);
+
+			const stream = new Stream(writer.bytes());
+
+			assert.equal(stream.readUInt64BE(), value);
+		});
+
+		it(`round trips 0x${value.toString(16)} little-endian`, () => {
+			const writer = new StreamWriter();
+			writer.writeUInt64LE(value);
+
+			const stream = new Stream(writer.bytes());
+
+			assert.equal(stream.readUInt64LE(), value);
+		});
+
+		it(`round trips 0x${value.toString(16)} using the bom`, () => {
+			for (const bom of ['le', 'be'] as const) {
+				const writer = new StreamWriter();
+				writer.bom = bom;
+				writer.writeUInt64(value);
+
+				const stream = new Stream(writer.bytes());
+				stream.bom = bom;
+
+				assert.equal(stream.readUInt64(), value);
+			}
+		});
+	}
+
+	it('reads uint64 values as unsigned', () => {
+		const stream = new Stream(Buffer.alloc(8, 0xFF));
+
+		assert.equal(stream.readUInt64BE(), UINT64_MAX);
+	});
+});
+
+describe('Stream signed integers', () => {
+	const data = Buffer.from([0xFF, 0x80, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x01]);
+
+	it('reads values of each size as signed', () => {
+		const stream = new Stream(data);
+
+		assert.equal(stream.readInt8(), -1);
+		assert.equal(stream.readInt16BE(), -0x8000);
+
+		stream.seek(1);
+		assert.equal(stream.readInt32BE(), -0x80000000);
+
+		stream.seek(1);
+		assert.equal(stream.readInt64BE(), -0x7FFFFFFFFFFFFFFFn);
+
+		stream.seek(0);
+		assert.equal(stream.readInt16LE(), -0x7F01);
+
+		stream.seek(0);
+		assert.equal(stream.readInt32LE(), 0x80FF);
+
+		stream.seek(1);
+		assert.equal(stream.readInt64LE(), 0x0100000000000080n);
+	});
+
+	it('reads using the bom', () => {
+		for (const bom of ['le', 'be'] as const) {
+			const stream = new Stream(Buffer.alloc(8, 0xFE));
+			stream.bom = bom;
+
+			assert.equal(stream.readInt16(), -0x102);
+
+			stream.seek(0);
+			assert.equal(stream.readInt32(), -0x1010102);
+
+			stream.seek(0);
+			assert.equal(stream.readInt64(), -0x101010101010102n);
+		}
+	});
+});
+
+describe('Stream floats', () => {
+	const FLOAT = 1.5;
+	const DOUBLE = Math.PI;
+
+	it('reads float32 and float64 in both byte orders', () => {
+		const data = Buffer.alloc(24);
+
+		data.writeFloatBE(FLOAT, 0);
+		data.writeFloatLE(FLOAT, 4);
+		data.writeDoubleBE(DOUBLE, 8);
+		data.writeDoubleLE(DOUBLE, 16);
+
+		const stream = new Stream(data);
+
+		assert.equal(stream.readFloatBE(), FLOAT);
+		assert.equal(stream.readFloatLE(), FLOAT);
+		assert.equal(stream.readDoubleBE(), DOUBLE);
+		assert.equal(stream.readDoubleLE(), DOUBLE);
+	});
+
+	it('reads using the bom', () => {
+		for (const bom of ['le', 'be'] as const) {
+			const writer = new StreamWriter();
+			writer.bom = bom;
+			writer.writeFloat(FLOAT);
+			writer.writeDouble(DOUBLE);
+
+			const stream = new Stream(writer.bytes());
+			stream.bom = bom;
+
+			assert.equal(stream.readFloat(), FLOAT);
+			assert.equal(stream.readDouble(), DOUBLE);
+		}
+	});
+});
+
+describe('Stream strings', () => {
+	it('reads null-terminated strings and consumes the terminator', () => {
+		const stream = new Stream(Buffer.from('Mii Maker\0Miiverse\0', 'utf8'));
+
+		assert.equal(stream.readNullTerminatedString(), 'Mii Maker');
+		assert.equal(stream.tell(), 10);
+		assert.equal(stream.readNullTerminatedString('ascii'), 'Miiverse');
+		assert.equal(stream.remaining(), 0);
+	});
+
+	it('reads multi-byte utf8 characters', () => {
+		const stream = new Stream(Buffer.from('ピクミン\0', 'utf8'));
+
+		assert.equal(stream.readNullTerminatedString('utf8'), 'ピクミン');
+	});
+
+	it('only keeps the low 7 bits of ascii characters', () => {
+		const stream = new Stream(Buffer.from([0xC1, 0x42, 0x00]));
+
+		assert.equal(stream.readNullTerminatedString('ascii'), 'AB');
+	});
+
+	it('reads null-terminated utf16 strings using the bom', () => {
+		const little = new Stream(Buffer.from('Mii\0', 'utf16le'));
+		const big = new Stream(Buffer.from('Mii\0', 'utf16le').swap16());
+		big.bom = 'be';
+
+		assert.equal(little.readNullTerminatedString('utf16'), 'Mii');
+		assert.equal(big.readNullTerminatedString('utf16'), 'Mii');
+		assert.equal(little.remaining(), 0);
+		assert.equal(big.remaining(), 0);
+	});
+
+	it('reads padded strings and skips the padding', () => {
+		const data = Buffer.alloc(0x12);
+
+		data.write('Root', 0, 'utf8');
+		data.write('XS', 0x10, 'utf8');
+
+		const stream = new Stream(data);
+
+		assert.equal(stream.readPaddedString(0x10), 'Root');
+		assert.equal(stream.tell(), 0x10);
+		assert.equal(stream.readPaddedString(0x2), 'XS');
+	});
+
+	it('drops a trailing odd byte of utf16 strings', () => {
+		for (const bom of ['le', 'be'] as const) {
+			const text = Buffer.from('AB', 'utf16le');
+			const stream = new Stream(Buffer.concat([bom === 'le' ? text : text.swap16(), Buffer.from([0x43]), Buffer.from([0xFF])]));
+			stream.bom = bom;
+
+			assert.equal(stream.readPaddedString(5, 'utf16'), 'AB');
+			assert.equal(stream.tell(), 5);
+			assert.equal(stream.readUInt8(), 0xFF);
+		}
+	});
+});
+
+describe('StreamWriter', () => {
+	it('back-patches reserved space and returns to the current offset', () => {
+		const writer = new StreamWriter();
+
+		writer.writeUInt32BE(0x43455254);
+
+		const sizeOffset = writer.reserve(4);
+
+		assert.equal(sizeOffset, 4);
+		assert.equal(writer.tell(), 8);
+
+		writer.writeBytes(Buffer.from('Mii Maker'));
+		writer.patch(sizeOffset, stream => stream.writeUInt32BE(writer.size()));
+
+		assert.equal(writer.tell(), 17);
+		assert.equal(writer.size(), 17);
+
+		const stream = new Stream(writer.bytes());
+
+		assert.equal(stream.readUInt32BE(), 0x43455254);
+		assert.equal(stream.readUInt32BE(), 17);
+		assert.equal(stream.readPaddedString(9), 'Mii Maker');
+	});
+
+	it('does not change the size when patching inside the written data', () => {
+		const writer = new StreamWriter();
+		const offset = writer.reserve(8);
+
+		writer.patch(offset, stream => stream.writeUInt16LE(0xFFFF));
+
+		assert.equal(writer.size(), 8);
+		assert.deepEqual(writer.bytes(), Buffer.from([0xFF, 0xFF, 0, 0, 0, 0, 0, 0]));
+	});
+
+	it('aligns to block sizes with zeroed padding', () => {
+		const writer = new StreamWriter();
+
+		writer.writeUInt8(0xFF);
+		writer.alignBlock(0x40);
+
+		assert.equal(writer.tell(), 0x40);
+
+		writer.alignBlock(0x40);
+
+		assert.equal(writer.tell(), 0x40);
+
+		writer.writeUInt8(0xFF);
+		writer.alignBlock(0x10);
+
+		assert.equal(writer.size(), 0x50);
+		assert.deepEqual(writer.bytes().subarray(1, 0x40), Buffer.alloc(0x3F));
+	});
+
+	it('pads over data left in the buffer by seeking back', () => {
+		const writer = new StreamWriter();
+
+		writer.pad(0x10, 0xFF);
+		writer.seek(1);
+		writer.alignBlock(0x8);
+
+		assert.equal(writer.tell(), 0x8);
+		assert.equal(writer.size(), 0x10);
+		assert.deepEqual(writer.bytes().subarray(0, 0x9), Buffer.from([0xFF, 0, 0, 0, 0, 0, 0, 0, 0xFF]));
+	});
+
+	it('grows from an initial capacity of 0', () => {
+		const writer = new StreamWriter(0);
+		const data = Buffer.from(Array.from({ length: 0x1234 }, (_, i) => i & 0xFF));
+
+		writer.writeUInt8(0x01);
+		writer.write(data);
+
+		assert.equal(writer.size(), 0x1235);
+		assert.deepEqual(writer.bytes(), Buffer.concat([Buffer.from([0x01]), data]));
+	});
+
+	it('keeps written data and zero-fills gaps when growing after seeking past the end', () => {
+		const writer = new StreamWriter(0x4);
+
+		writer.writeUInt32BE(0xDEADBEEF);
+		writer.seek(0x200);
+		writer.writeUInt8(0x01);
+
+		const bytes = writer.bytes();
+
+		assert.equal(bytes.length, 0x201);
+		assert.equal(new Stream(bytes).readUInt32BE(), 0xDEADBEEF);
+		assert.deepEqual(bytes.subarray(0x4, 0x200), Buffer.alloc(0x1FC));
+		assert.equal(bytes[0x200], 0x01);
+	});
+});
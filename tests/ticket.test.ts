@@ -0,0 +1,221 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { Ticket, TicketLimitType } from '@/ticket';
+import { exportECCPublicKey } from '@/ecc';
+import { generateCertificateHierarchy } from '@/certificate-hierarchy';
+import { buildTicket } from './fixtures';
+
+const TITLE_KEY = Buffer.from('ffeeddccbbaa99887766554433221100', 'hex');
+
+// * Dummy keys. The retail common keys are not included
+const WII_U_COMMON_KEY = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+const CTR_KEY_X = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+const CTR_KEY_Y = Buffer.from('f0e0d0c0b0a090807060504030201000', 'hex');
+
+describe('Ticket', () => {
+	it('round trips uint64 title and ticket IDs', () => {
+		const data = buildTicket({
+			titleID: 0x0005000010101C00n,
+			ticketID: 0xFFFFFFFFFFFFFFFFn
+		});
+		const ticket = Ticket.fromBuffer(data);
+
+		assert.equal(ticket.titleID, 0x0005000010101C00n);
+		assert.equal(ticket.ticketID, 0xFFFFFFFFFFFFFFFFn);
+		assert.deepEqual(ticket.bytes(), data);
+	});
+
+	it('parses from a Readable as the data arrives, including trailing certificates', async () => {
+		const hierarchy = generateCertificateHierarchy();
+		const data = Buffer.concat([buildTicket({ titleID: 0x0005000010101C00n }), hierarchy.XS.certificate.bytes(), hierarchy.CA.certificate.bytes()]);
+		const chunks: Buffer[] = [];
+
+		// * Odd sized chunks, so fields are split across them
+		for (let offset = 0; offset < data.length; offset += 0x33) {
+			chunks.push(data.subarray(offset, offset + 0x33));
+		}
+
+		const ticket = await Ticket.fromReadableStream(Readable.from(chunks));
+		const expected = Ticket.fromBuffer(data);
+
+		assert.equal(ticket.titleID, 0x0005000010101C00n);
+		assert.deepEqual(ticket.contentIndex, expected.contentIndex);
+		assert.deepEqual(ticket.signatureBody, expected.signatureBody);
+		assert.equal(ticket.selfCertificate?.getFullName(), 'Root-CA00000003-XS0000000c');
+		assert.equal(ticket.CACertificate?.getFullName(), 'Root-CA00000003');
+		assert.deepEqual(ticket.bytes(), data);
+	});
+
+	it('recomputes the signature body when depersonalizing', () => {
+		const personalized = Ticket.fromBuffer(buildTicket({
+			titleID: 0x0005000010101C00n,
+			consoleID: 0x12345678,
+			publicECCKey: Buffer.alloc(0x3C, 0xAA)
+		}));
+		const ticket = personalized.depersonalize();
+
+		assert.equal(ticket.consoleID, 0);
+		assert.notDeepEqual(ticket.signatureBody, personalized.signatureBody);
+		assert.deepEqual(ticket.signatureBody, Ticket.fromBuffer(ticket.bytes()).signatureBody);
+	});
+
+	describe('content index', () => {
+		it('grants the contents in the bitmap', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n }));
+
+			assert.equal(ticket.hasContent(0), true);
+			assert.equal(ticket.hasContent(1023), true);
+			assert.equal(ticket.hasContent(1024), false);
+			assert.equal(ticket.hasContent(-1), false);
+		});
+
+		it('round trips an edited bitmap', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n }));
+			const record = ticket.contentIndex.sections[0].records[0];
+
+			record.bitmap = Buffer.from(record.bitmap);
+			record.bitmap[0] &= ~(1 << 5); // * Content 5, lowest bit first
+
+			const parsed = Ticket.fromBuffer(ticket.bytes());
+
+			assert.equal(parsed.hasContent(4), true);
+			assert.equal(parsed.hasContent(5), false);
+			assert.equal(parsed.hasContent(6), true);
+			assert.deepEqual(parsed.contentIndex, ticket.contentIndex);
+		});
+	});
+
+	describe('limits', () => {
+		it('round trips edited limits', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n }));
+
+			assert.equal(ticket.limits.length, 8);
+			assert.ok(ticket.limits.every(limit => limit.type === TicketLimitType.NONE));
+
+			ticket.limits[0] = { type: TicketLimitType.PLAY_COUNT, value: 3 };
+			ticket.limits[1] = { type: TicketLimitType.TIME_LIMIT, value: 60 };
+
+			assert.deepEqual(Ticket.fromBuffer(ticket.bytes()).limits, ticket.limits);
+		});
+
+		it('throws when encoding more than 8 limits', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n }));
+
+			ticket.limits.push({ type: TicketLimitType.PLAY_COUNT, value: 1 });
+
+			assert.throws(() => ticket.bytes(), /limits must have 8 entries, got 9/);
+		});
+	});
+
+	describe('personalized tickets', () => {
+		const titleID = 0x0005000010101C00n;
+		const ticketID = 0x00050000DEADBEEFn;
+		const consoleKeys = crypto.generateKeyPairSync('ec', { namedCurve: 'sect233r1' });
+		const ticketKeys = crypto.generateKeyPairSync('ec', { namedCurve: 'sect233r1' });
+
+		// * The title key encrypted with the common key, then again with the key shared with the console
+		const commonEncryptedTitleKey = crypto.randomBytes(0x10);
+		const sharedKey = crypto.createHash('sha1').update(crypto.diffieHellman({
+			privateKey: ticketKeys.privateKey,
+			publicKey: consoleKeys.publicKey
+		})).digest().subarray(0x0, 0x10);
+		const iv = Buffer.alloc(0x10);
+
+		iv.writeBigUInt64BE(ticketID);
+
+		const cipher = crypto.createCipheriv('aes-128-cbc', sharedKey, iv).setAutoPadding(false);
+		const personalized = Ticket.fromBuffer(buildTicket({
+			titleID,
+			ticketID,
+			consoleID: 0x12345678,
+			encryptedTitleKey: Buffer.concat([cipher.update(commonEncryptedTitleKey), cipher.final()]),
+			publicECCKey: exportECCPublicKey(ticketKeys.publicKey)
+		}));
+
+		it('detects personalized tickets', () => {
+			const common = Ticket.fromBuffer(buildTicket({ titleID }));
+			const consoleOnly = Ticket.fromBuffer(buildTicket({ titleID, consoleID: 0x12345678 }));
+			const accountOnly = Ticket.fromBuffer(buildTicket({ titleID }));
+			const keyOnly = Ticket.fromBuffer(buildTicket({ titleID, publicECCKey: Buffer.alloc(0x3C, 0xAA) }));
+
+			accountOnly.eShopAccountID = 0x1000;
+
+			assert.equal(common.isPersonalized(), false);
+			assert.equal(consoleOnly.isPersonalized(), true);
+			assert.equal(accountOnly.isPersonalized(), true);
+			assert.equal(keyOnly.isPersonalized(), true);
+			assert.equal(personalized.isPersonalized(), true);
+		});
+
+		it('removes the console layer of the title key with the console private key', () => {
+			const ticket = personalized.depersonalize(consoleKeys.privateKey);
+
+			assert.deepEqual(ticket.encryptedTitleKey, commonEncryptedTitleKey);
+			assert.deepEqual(ticket.publicECCKey, Buffer.alloc(0x3C));
+			assert.equal(ticket.consoleID, 0);
+			assert.equal(ticket.isPersonalized(), false);
+		});
+
+		it('keeps the title key and public ECC key without the console private key', () => {
+			const ticket = personalized.depersonalize();
+
+			assert.deepEqual(ticket.encryptedTitleKey, personalized.encryptedTitleKey);
+			assert.deepEqual(ticket.publicECCKey, personalized.publicECCKey);
+			assert.equal(ticket.consoleID, 0);
+			assert.equal(ticket.getPublicECCKey()?.asymmetricKeyDetails?.namedCurve, 'sect233r1');
+		});
+	});
+
+	describe('Wii U title keys', () => {
+		// * AES-128-CBC, with the title ID followed by 8 zero bytes as the IV
+		const ENCRYPTED_TITLE_KEY = Buffer.from('ff4cfaf03d6e9c05b28986cc5722e399', 'hex');
+
+		it('decrypts with the common key', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n, encryptedTitleKey: ENCRYPTED_TITLE_KEY }));
+
+			assert.deepEqual(ticket.decryptTitleKey({ wiiU: WII_U_COMMON_KEY }), TITLE_KEY);
+		});
+
+		it('encrypts with the common key', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n }));
+
+			ticket.encryptTitleKey(TITLE_KEY, { wiiU: WII_U_COMMON_KEY });
+
+			assert.deepEqual(ticket.encryptedTitleKey, ENCRYPTED_TITLE_KEY);
+		});
+
+		it('requires the Wii U common key', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0005000010101C00n }));
+
+			assert.throws(() => ticket.decryptTitleKey({}));
+		});
+	});
+
+	describe('3DS title keys', () => {
+		// * AES-128-CBC, keyed with the keyslot 0x3D normal key
+		const ENCRYPTED_TITLE_KEY = Buffer.from('5ddf07b7ce06e8bbe4650efef2b6099a', 'hex');
+		const COMMON_KEYS = { ctr: { keyX: CTR_KEY_X, keyYs: [Buffer.alloc(0x10), CTR_KEY_Y] } };
+
+		it('decrypts with the scrambled keyslot 0x3D key', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0004000000030800n, encryptedTitleKey: ENCRYPTED_TITLE_KEY, commonKeyYIndex: 1 }));
+
+			assert.deepEqual(ticket.decryptTitleKey(COMMON_KEYS), TITLE_KEY);
+		});
+
+		it('encrypts with the scrambled keyslot 0x3D key', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0004000000030800n, commonKeyYIndex: 1 }));
+
+			ticket.encryptTitleKey(TITLE_KEY, COMMON_KEYS);
+
+			assert.deepEqual(ticket.encryptedTitleKey, ENCRYPTED_TITLE_KEY);
+		});
+
+		it('uses the keyY selected by the ticket', () => {
+			const ticket = Ticket.fromBuffer(buildTicket({ titleID: 0x0004000000030800n, encryptedTitleKey: ENCRYPTED_TITLE_KEY, commonKeyYIndex: 0 }));
+
+			assert.notDeepEqual(ticket.decryptTitleKey(COMMON_KEYS), TITLE_KEY);
+		});
+	});
+});
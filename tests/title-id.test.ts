@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TMD } from '@/tmd';
+import { getRelatedTitleIDs, getTitlePlatform, parseTitleID } from '@/title-id';
+import { buildTMD } from './fixtures';
+import type { TitleCategory, TitlePlatform } from '@/title-id';
+
+interface TitleIDCase {
+	titleID: bigint;
+	platform: TitlePlatform;
+	category: TitleCategory;
+	uniqueID?: number;
+}
+
+const TITLE_IDS: TitleIDCase[] = [
+	{ titleID: 0x0005000010101C00n, platform: 'wiiu', category: 'application', uniqueID: 0x0101C },
+	{ titleID: 0x0005000210101C00n, platform: 'wiiu', category: 'demo', uniqueID: 0x0101C },
+	{ titleID: 0x0005000E10101C00n, platform: 'wiiu', category: 'update', uniqueID: 0x0101C },
+	{ titleID: 0x0005000C10101C00n, platform: 'wiiu', category: 'dlc', uniqueID: 0x0101C },
+	{ titleID: 0x0005001010040000n, platform: 'wiiu', category: 'system', uniqueID: 0x00400 },
+	{ titleID: 0x0004000000030800n, platform: '3ds', category: 'application', uniqueID: 0x00308 },
+	{ titleID: 0x0004000200030800n, platform: '3ds', category: 'demo', uniqueID: 0x00308 },
+	{ titleID: 0x0004000E00030800n, platform: '3ds', category: 'update', uniqueID: 0x00308 },
+	{ titleID: 0x0004008C00030800n, platform: '3ds', category: 'dlc', uniqueID: 0x00308 },
+	{ titleID: 0x0004003000008F02n, platform: '3ds', category: 'system', uniqueID: 0x0008F },
+	{ titleID: 0x0001000148414445n, platform: 'wii', category: 'application' },
+	{ titleID: 0x0001000548414445n, platform: 'wii', category: 'dlc' },
+	{ titleID: 0x0001000248414241n, platform: 'wii', category: 'system' },
+	{ titleID: 0x0001000848414B45n, platform: 'wii', category: 'system' },
+	{ titleID: 0x0000000100000002n, platform: 'wii', category: 'system' },
+	{ titleID: 0x0000000700000038n, platform: 'vwii', category: 'system' },
+	{ titleID: 0x0003000448415445n, platform: 'dsi', category: 'application' },
+	{ titleID: 0x0003000548424E45n, platform: 'dsi', category: 'system' },
+	{ titleID: 0x0009000000000000n, platform: 'unknown', category: 'application' }
+];
+
+describe('title IDs', () => {
+	for (const { titleID, platform, category, uniqueID } of TITLE_IDS) {
+		describe(`0x${titleID.toString(16).padStart(16, '0')}`, () => {
+			it(`is a ${platform} ${category} title`, () => {
+				assert.equal(getTitlePlatform(titleID), platform);
+				assert.deepEqual(parseTitleID(titleID), {
+					titleID,
+					platform,
+					category,
+					high: Number(titleID >> 32n),
+					low: Number(titleID & 0xFFFFFFFFn),
+					...(uniqueID === undefined ? {} : { uniqueID })
+				});
+			});
+
+			if (platform === '3ds' || platform === 'wiiu') {
+				it('has related title IDs sharing its unique ID', () => {
+					const dlcCategory = platform === '3ds' ? 0x008Cn : 0x000Cn;
+					const platformBits = titleID & 0xFFFF000000000000n;
+					const low = titleID & 0xFFFFFFFFn;
+
+					assert.deepEqual(getRelatedTitleIDs(titleID), {
+						base: platformBits | low,
+						update: platformBits | (0x000En << 32n) | low,
+						dlc: platformBits | (dlcCategory << 32n) | low
+					});
+				});
+			} else {
+				it('has no related title IDs', () => {
+					assert.throws(() => getRelatedTitleIDs(titleID), new RegExp(`only known for 3DS and Wii U titles, got ${platform}`));
+				});
+			}
+		});
+	}
+});
+
+describe('TMD title ID helpers', () => {
+	const tmd = TMD.fromBuffer(buildTMD({ titleID: 0x0005000010101C00n, contents: [] }));
+
+	for (const { titleID, category } of TITLE_IDS) {
+		it(`classify 0x${titleID.toString(16).padStart(16, '0')} as ${category}`, () => {
+			tmd.titleID = titleID;
+
+			assert.deepEqual(tmd.getTitleIDInfo(), parseTitleID(titleID));
+			assert.deepEqual({
+				application: tmd.isApplication(),
+				demo: tmd.isDemo(),
+				update: tmd.isUpdate(),
+				dlc: tmd.isDLC(),
+				system: tmd.isSystem()
+			}, {
+				application: category === 'application',
+				demo: category === 'demo',
+				update: category === 'update',
+				dlc: category === 'dlc',
+				system: category === 'system'
+			});
+		});
+	}
+
+	it('gets the same related title IDs from an update as from the base title', () => {
+		tmd.titleID = 0x0005000E10101C00n;
+
+		assert.deepEqual(tmd.relatedTitleIDs(), {
+			base: 0x0005000010101C00n,
+			update: 0x0005000E10101C00n,
+			dlc: 0x0005000C10101C00n
+		});
+
+		tmd.titleID = 0x0004008C00030800n;
+
+		assert.deepEqual(tmd.relatedTitleIDs(), {
+			base: 0x0004000000030800n,
+			update: 0x0004000E00030800n,
+			dlc: 0x0004008C00030800n
+		});
+	});
+
+	it('has no related title IDs for Wii titles', () => {
+		tmd.titleID = 0x0001000148414445n;
+
+		assert.throws(() => tmd.relatedTitleIDs(), /got wii/);
+	});
+});
@@ -0,0 +1,175 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { H3 } from '@/h3';
+import { TMD } from '@/tmd';
+import { buildHashedContent, buildTMD } from './fixtures';
+
+function sha1(data: Buffer): Buffer {
+	return crypto.createHash('sha1').update(data).digest();
+}
+
+describe('TMD', () => {
+	it('round trips uint64 title IDs and content sizes', () => {
+		const data = buildTMD({
+			titleID: 0x0005000010101C00n,
+			systemVersion: 0x000500101000400An,
+			contents: [
+				{ id: 0, index: 0, type: 0x2001, size: 0xFFFFFFFFFFFFFFFFn },
+				{ id: 1, index: 1, type: 0x2003, size: 0x8000000000000000n }
+			]
+		});
+		const tmd = TMD.fromBuffer(data);
+
+		assert.equal(tmd.titleID, 0x0005000010101C00n);
+		assert.equal(tmd.systemVersion, 0x000500101000400An);
+		assert.equal(tmd.contentChunkRecords[0].size, 0xFFFFFFFFFFFFFFFFn);
+		assert.equal(tmd.contentChunkRecords[1].size, 0x8000000000000000n);
+		assert.deepEqual(tmd.bytes(), data);
+	});
+	describe('rehash', () => {
+		const contents = [
+			{ id: 0, index: 0, type: 0x2001, size: 0x8000n },
+			{ id: 1, index: 1, type: 0x2001, size: 0x8000n },
+			{ id: 2, index: 2, type: 0x2003, size: 0x10000n }
+		];
+
+		it('rebuilds the content info records after removing and editing records', () => {
+			const tmd = TMD.fromBuffer(buildTMD({ titleID: 0x0005000010101C00n, contents }));
+
+			tmd.contentChunkRecords.splice(1, 1);
+			tmd.contentChunkRecords[1].size = 0x20000n;
+
+			assert.equal(tmd.verifyContentInfoRecords().valid, false);
+			assert.throws(() => tmd.bytes(), /contentChunkRecords must have 3 entries, got 2/);
+
+			tmd.rehash();
+
+			assert.equal(tmd.contentCount, 2);
+			assert.equal(tmd.verifyContentInfoRecords().valid, true);
+
+			const parsed = TMD.fromBuffer(tmd.bytes());
+
+			assert.deepEqual(parsed.contentChunkRecords, tmd.contentChunkRecords);
+			assert.deepEqual(parsed.signatureBody, tmd.signatureBody);
+			assert.equal(parsed.verifyContentInfoRecords().valid, true);
+			assert.deepEqual(parsed.bytes(), tmd.bytes());
+		});
+
+		it('updates the content count of version 0 TMDs', () => {
+			const tmd = TMD.fromBuffer(buildTMD({ version: 0, titleID: 0x0001000148414445n, contents }));
+
+			tmd.contentChunkRecords.pop();
+			tmd.rehash();
+
+			const parsed = TMD.fromBuffer(tmd.bytes());
+
+			assert.equal(parsed.contentCount, 2);
+			assert.deepEqual(parsed.contentChunkRecords, tmd.contentChunkRecords);
+			assert.deepEqual(parsed.signatureBody, tmd.signatureBody);
+		});
+	});
+
+	describe('platform data', () => {
+		const contents = [{ id: 0, index: 0, type: 0x0001, size: 0x8000n }];
+
+		it('round trips the Wii layout', () => {
+			const platformData = Buffer.alloc(0x3E);
+
+			platformData.writeUInt16BE(0x0001, 0x2);
+			platformData.fill(0x12, 0x4, 0x14);
+			platformData.fill(0xFF, 0x20, 0x2C);
+
+			const data = buildTMD({ version: 0, titleID: 0x0001000148414445n, platformData, contents });
+			const tmd = TMD.fromBuffer(data);
+
+			assert.equal(tmd.platform, 'wii');
+			assert.equal(tmd.region, 1);
+			assert.deepEqual(tmd.ratings, Buffer.alloc(0x10, 0x12));
+			assert.deepEqual(tmd.IPCMask, Buffer.alloc(0xC, 0xFF));
+			assert.equal(tmd.saveDataSize, undefined);
+			assert.deepEqual(tmd.bytes(), data);
+		});
+
+		for (const { platform, titleID } of [{ platform: 'wiiu', titleID: 0x0005000010101C00n }, { platform: '3ds', titleID: 0x0004000000030800n }]) {
+			it(`round trips the ${platform} layout`, () => {
+				const platformData = Buffer.alloc(0x3E);
+
+				platformData.writeUInt32LE(0x80000, 0x0);
+				platformData.writeUInt32LE(0x4000, 0x4);
+				platformData.writeUInt8(0x01, 0xC);
+				platformData.fill(0xAA, 0xD, 0x20);
+				platformData.fill(0xBB, 0x20, 0x3E);
+
+				const data = buildTMD({ titleID, platformData, contents });
+				const tmd = TMD.fromBuffer(data);
+
+				assert.equal(tmd.platform, platform);
+				assert.equal(tmd.saveDataSize, 0x80000);
+				assert.equal(tmd.SRLPrivateSaveDataSize, 0x4000);
+				assert.equal(tmd.SRLFlag, 0x01);
+				assert.deepEqual(tmd.customDataReserved, Buffer.alloc(0x13, 0xAA));
+				assert.deepEqual(tmd.reserved3, Buffer.alloc(0x1E, 0xBB));
+				assert.equal(tmd.region, undefined);
+				assert.deepEqual(tmd.bytes(), data);
+			});
+		}
+	});
+
+	it('decodes content type bit 0x2 per platform', () => {
+		const contents = [{ id: 0, index: 0, type: 0x2003, size: 0x8000n }];
+		const wiiU = TMD.fromBuffer(buildTMD({ titleID: 0x0005000010101C00n, contents }));
+		const ctr = TMD.fromBuffer(buildTMD({ titleID: 0x0004000000030800n, contents }));
+
+		assert.deepEqual(wiiU.getContentType(wiiU.contentChunkRecords[0]), {
+			encrypted: true,
+			disc: false,
+			cfm: false,
+			optional: false,
+			shared: false,
+			hashed: true
+		});
+		assert.deepEqual(ctr.getContentType(ctr.contentChunkRecords[0]), {
+			encrypted: true,
+			disc: true,
+			cfm: false,
+			optional: false,
+			shared: false,
+			hashed: false
+		});
+	});
+	describe('verifyContent', () => {
+		const content = buildHashedContent();
+		const h3 = H3.fromDecryptedContent(content);
+		const tmd = TMD.fromBuffer(buildTMD({
+			titleID: 0x0005000010101C00n,
+			contents: [{ id: 0, index: 0, type: 0x2003, size: 0x10000n, hash: Buffer.concat([sha1(h3.bytes()), Buffer.alloc(0xC)]) }]
+		}));
+
+		it('requires the H3 of hashed Wii U contents', () => {
+			assert.throws(() => tmd.verifyContent(0, content), /Content 0 is hashed.*H3\.verifyContent/);
+		});
+
+		it('verifies hashed Wii U contents against their H3', () => {
+			assert.equal(tmd.verifyContent(0, content, h3).valid, true);
+		});
+
+		it('reports hashed Wii U contents which do not match their H3', () => {
+			const tampered = Buffer.from(content);
+
+			tampered[0x400] ^= 0xFF;
+
+			const report = tmd.verifyContent(0, tampered, h3);
+
+			assert.equal(report.valid, false);
+			assert.deepEqual(report.mismatches.map(mismatch => mismatch.field), ['blocks[0].H0']);
+		});
+
+		it('reports a H3 which does not match the record', () => {
+			const report = tmd.verifyContent(0, content, H3.fromDecryptedContent(buildHashedContent()));
+
+			assert.equal(report.valid, false);
+			assert.equal(report.mismatches[0].field, 'contentChunkRecords[0].hash');
+		});
+	});
+});
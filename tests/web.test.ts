@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'node:zlib';
+import { generateCertificateHierarchy } from '@/certificate-hierarchy';
+import { SignatureType } from '@/signatures';
+import { TMD as NodeTMD } from '@/tmd';
+import { CMP, Certificate, TMD } from '@/web';
+import { buildTMD } from './fixtures';
+
+const hierarchy = generateCertificateHierarchy();
+
+describe('web entry point', () => {
+	const data = buildTMD({
+		titleID: 0x0005000010101C00n,
+		contents: [{ id: 0, index: 0, type: 0x2001, size: 0x8000n }]
+	});
+
+	it('parses and encodes the same data as the Node classes', () => {
+		const tmd = TMD.fromBytes(new Uint8Array(data));
+
+		assert.equal(tmd.titleID, 0x0005000010101C00n);
+		assert.equal(tmd.contentChunkRecords[0].size, 0x8000n);
+		assert.deepEqual(Buffer.from(tmd.bytes()), NodeTMD.fromBuffer(data).bytes());
+	});
+
+	it('verifies signatures made by the Node classes using WebCrypto', async () => {
+		const signed = NodeTMD.fromBuffer(data);
+
+		signed.sign(hierarchy.CP.privateKey, SignatureType.RSA_2048_SHA256);
+
+		const tmd = TMD.fromBytes(signed.bytes());
+		const certificate = Certificate.fromBytes(hierarchy.CP.certificate.bytes());
+
+		assert.equal(await tmd.verifySignatureAsync(certificate), true);
+
+		tmd.signature[0] ^= 0xFF;
+
+		assert.equal(await tmd.verifySignatureAsync(certificate), false);
+	});
+
+	it('decompresses CMP data using DecompressionStream', async () => {
+		const decompressed = Buffer.from('Mii Maker '.repeat(0x100));
+		const header = Buffer.alloc(0x4);
+
+		header.writeUInt32BE(decompressed.length);
+
+		assert.deepEqual(Buffer.from(await CMP.fromBytes(Buffer.concat([header, zlib.deflateSync(decompressed)]))), decompressed);
+	});
+});